@@ -1,4 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+
+// Wait for the slider to settle before asking for a new preview
+const PREVIEW_DEBOUNCE_MS = 150;
+const PREVIEW_SIZE = 512;
 
 interface Filter {
   id: number;
@@ -31,10 +35,81 @@ export function FilterPanel({ photo, filters, onFilterApplied, onClose }: Filter
   const [intensity, setIntensity] = useState(1.0);
   const [isApplying, setIsApplying] = useState(false);
   const [error, setError] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const previewUrlRef = useRef<string | null>(null);
+
+  // Keep showing the last preview until the next one arrives
+  const showPreview = (url: string | null) => {
+    if (previewUrlRef.current) {
+      URL.revokeObjectURL(previewUrlRef.current);
+    }
+    previewUrlRef.current = url;
+    setPreviewUrl(url);
+  };
+
+  useEffect(() => () => showPreview(null), []);
 
   console.log('FilterPanel opened for photo:', photo);
   console.log('Available filters:', filters);
 
+  // Live preview of the selected filter. Previews are rendered (and cached) on the
+  // server at a small size; stale requests are aborted as the slider moves.
+  useEffect(() => {
+    if (!selectedFilter) {
+      // An aborted request never clears its own loading state
+      setIsPreviewLoading(false);
+      showPreview(null);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const timer = setTimeout(async () => {
+      setIsPreviewLoading(true);
+
+      try {
+        const token = localStorage.getItem('authToken');
+        const response = await fetch('/api/filters/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify({
+            photoId: photo.id,
+            filterId: selectedFilter.id,
+            intensity,
+            size: PREVIEW_SIZE
+          }),
+          signal: controller.signal
+        });
+
+        if (response.ok) {
+          const blob = await response.blob();
+          if (!controller.signal.aborted) {
+            showPreview(URL.createObjectURL(blob));
+          }
+        } else {
+          console.warn('Filter preview failed:', response.status);
+        }
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.warn('Filter preview error:', error);
+        }
+      }
+
+      if (!controller.signal.aborted) {
+        setIsPreviewLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [photo.id, selectedFilter?.id, intensity]);
+
   const applyFilter = async () => {
     if (!selectedFilter) return;
 
@@ -103,9 +178,9 @@ export function FilterPanel({ photo, filters, onFilterApplied, onClose }: Filter
         <div className="filter-panel-content">
           <div className="photo-preview">
             <img
-              src={photo.thumbnailPath}
+              src={previewUrl || photo.thumbnailPath}
               alt={photo.displayName}
-              className="preview-image"
+              className={`preview-image ${isPreviewLoading ? 'loading' : ''}`}
             />
             <h3>{photo.displayName}</h3>
           </div>
@@ -7,6 +7,8 @@ interface Photo {
   thumbnailPath: string;
   originalPath: string;
   processedPath?: string;
+  // srcset strings per format, null until the server has rendered them
+  variants?: { avif?: string; webp?: string } | null;
   width: number;
   height: number;
   fileSize: number;
@@ -59,6 +61,11 @@ export function PhotoGallery({ photos, onPhotoSelect, onPhotoUpdate, onPhotosSel
     }
   });
 
+  // Rendered card width per layout (see .photo-grid in styles.css), so phones pick small variants
+  const thumbnailSizes = viewMode === 'grid'
+    ? '(max-width: 480px) 100vw, (max-width: 768px) 50vw, 380px'
+    : '(max-width: 1200px) 100vw, 1140px';
+
   const toggleFavorite = async (photo: Photo, e: React.MouseEvent) => {
     e.stopPropagation();
 
@@ -397,11 +404,19 @@ export function PhotoGallery({ photos, onPhotoSelect, onPhotoUpdate, onPhotosSel
             onClick={() => selectionMode ? togglePhotoSelection(photo, { stopPropagation: () => {} } as React.MouseEvent) : onPhotoSelect(photo)}
           >
             <div className="photo-thumbnail">
-              <img
-                src={photo.thumbnailPath}
-                alt={photo.displayName}
-                loading="lazy"
-              />
+              <picture>
+                {photo.variants?.avif && (
+                  <source type="image/avif" srcSet={photo.variants.avif} sizes={thumbnailSizes} />
+                )}
+                {photo.variants?.webp && (
+                  <source type="image/webp" srcSet={photo.variants.webp} sizes={thumbnailSizes} />
+                )}
+                <img
+                  src={photo.thumbnailPath}
+                  alt={photo.displayName}
+                  loading="lazy"
+                />
+              </picture>
               <div className="photo-overlay">
                 {selectionMode && (
                   <div className="selection-checkbox">
@@ -74,10 +74,9 @@ export class DatabaseManager {
 
 // MySQL Query Helper - to maintain compatibility with existing code
 export class QueryHelper {
-  private pool: mysql.Pool;
-
-  constructor() {
-    this.pool = DatabaseManager.getInstance();
+  // Resolved on first query so importing this module never opens a pool
+  private get pool(): mysql.Pool {
+    return DatabaseManager.getInstance();
   }
 
   // Execute a single query (for INSERT, UPDATE, DELETE)
@@ -0,0 +1,61 @@
+import { getRepositories } from './repositories'
+import { DatabaseManager } from './connection'
+import { FiltersService } from '../modules/filters/service'
+import { FILTER_PREVIEW_FOLDER, REFERENCE_FOLDER } from '../utils/catalog'
+
+const USAGE = `Usage: bun run filter-previews [options]
+
+Renders each active filter against the reference images in ${REFERENCE_FOLDER}/
+(or the built-in scenes when that folder is empty), stores the result in
+${FILTER_PREVIEW_FOLDER}/ and sets filters.preview_image. Previews that still
+match their filter are skipped, as are preview images set by hand.
+
+Options:
+  --force          Regenerate every preview, replacing hand-set ones too
+  --filter <id>    Only this filter (repeatable)`
+
+async function main(argv: string[]) {
+  const args = [...argv]
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE)
+    return
+  }
+
+  const force = args.includes('--force')
+  const filterIds = args
+    .flatMap((arg, index) => arg === '--filter' ? [args[index + 1]] : [])
+    .map(Number)
+
+  if (filterIds.some(id => !Number.isInteger(id))) {
+    throw new Error('--filter needs a numeric filter id')
+  }
+
+  const { driver } = getRepositories()
+
+  try {
+    const report = await FiltersService.refreshPreviews({
+      force,
+      filterIds: filterIds.length > 0 ? filterIds : undefined
+    })
+
+    for (const entry of report.generated) {
+      console.log(`generated  ${entry.name}  ${entry.previewImage}`)
+    }
+    for (const entry of report.custom) {
+      console.log(`custom     ${entry.name}`)
+    }
+    for (const entry of report.failed) {
+      console.log(`failed     ${entry.name}  ${entry.error}`)
+    }
+
+    console.log(`✅ ${report.generated.length} preview(s) generated, ${report.upToDate.length} up to date, ${report.custom.length} hand-set, ${report.failed.length} failed`)
+  } finally {
+    if (driver === 'mysql') await DatabaseManager.close()
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('❌ Filter preview generation failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
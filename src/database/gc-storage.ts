@@ -0,0 +1,60 @@
+import { getRepositories } from './repositories'
+import { DatabaseManager } from './connection'
+import { collectOrphanedObjects, GC_FOLDERS } from '../utils/orphans'
+
+const USAGE = `Usage: bun run gc-storage [options]
+
+Finds objects in ${GC_FOLDERS.map(folder => `${folder}/`).join(', ')} that no photos row
+references and deletes them, and reports photos rows whose objects are missing.
+
+Options:
+  --dry-run            Report orphans and missing objects without changing anything
+  --min-age <hours>    Leave orphans younger than this alone (default: 24)
+  --mark-missing       Mark rows with missing objects as failed (processing_status)`
+
+async function main(argv: string[]) {
+  const args = [...argv]
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE)
+    return
+  }
+
+  const dryRun = args.includes('--dry-run')
+  const markMissing = args.includes('--mark-missing')
+  const minAgeIndex = args.indexOf('--min-age')
+  const minAgeHours = minAgeIndex >= 0 ? Number(args[minAgeIndex + 1]) : 24
+
+  if (!Number.isFinite(minAgeHours) || minAgeHours < 0) {
+    throw new Error(`Invalid --min-age: ${args[minAgeIndex + 1]}`)
+  }
+
+  const { driver } = getRepositories()
+
+  try {
+    const report = await collectOrphanedObjects({ dryRun, markMissing, minAgeMs: minAgeHours * 60 * 60 * 1000 })
+
+    for (const key of report.orphans) {
+      console.log(`${dryRun ? 'orphan' : 'deleted'}  ${key}`)
+    }
+    for (const key of report.skippedRecent) {
+      console.log(`recent   ${key}`)
+    }
+    for (const entry of report.missing) {
+      console.log(`missing  ${entry.key}  (photo ${entry.photoId}, user ${entry.userId}, ${entry.column})`)
+    }
+
+    console.log(`✅ Scanned ${report.scannedObjects} object(s), ${report.referencedObjects} referenced by photos`)
+    console.log(dryRun
+      ? `   ${report.orphans.length} orphan(s) would be deleted, ${report.skippedRecent.length} too recent`
+      : `   ${report.deletedObjects} of ${report.orphans.length} orphan(s) deleted, ${report.skippedRecent.length} too recent`)
+    console.log(`   ${report.missing.length} missing object(s)${markMissing && !dryRun ? `, ${report.markedPhotos} photo(s) marked failed` : ''}`)
+  } finally {
+    if (driver === 'mysql') await DatabaseManager.close()
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('❌ Storage GC failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
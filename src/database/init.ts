@@ -1,6 +1,5 @@
-import { readFileSync } from 'fs';
-import { join } from 'path';
 import { db, DatabaseManager } from './connection';
+import { createMigrationClient, getSeedScript, migrateUp } from './migrations';
 
 export async function initializeDatabase() {
   try {
@@ -12,14 +11,13 @@ export async function initializeDatabase() {
       throw new Error('Failed to connect to MySQL database');
     }
 
-    // Read and execute schema
-    const schemaSQL = readFileSync(join(import.meta.dir, 'schema.sql'), 'utf-8');
-    await db.exec(schemaSQL);
-    console.log('✅ Database schema created');
+    // Apply pending migrations (same as `bun run migrate`)
+    const migrations = createMigrationClient('mysql');
+    const applied = await migrateUp(migrations);
+    console.log(`✅ Database schema up to date (${applied.length} migration(s) applied)`);
 
-    // Read and execute seeds
-    const seedsSQL = readFileSync(join(import.meta.dir, 'seeds.sql'), 'utf-8');
-    await db.exec(seedsSQL);
+    // Execute seeds
+    await migrations.exec(getSeedScript('mysql'));
     console.log('✅ Database seeded with default data');
 
     // Verify tables exist
@@ -0,0 +1,91 @@
+import {
+  createMigrationClient,
+  getMigrationStatus,
+  getSeedScript,
+  migrateDown,
+  migrateUp,
+  type MigrationDialect
+} from './migrations'
+import { getDatabaseDriverName } from './repositories'
+
+const USAGE = `Usage: bun run migrate [command] [options]
+
+Commands:
+  up [version]     Apply pending migrations (up to version when given)   (default)
+  down [steps]     Revert the last applied migration(s)                  (default: 1)
+  status           List migrations and when they were applied
+
+Options:
+  --dialect <mysql|postgres>   Defaults to the dialect of DB_DRIVER
+  --seed                       Load default filters and settings after migrating up`
+
+// DB_DRIVER=supabase talks to Postgres; SQLite and memory build their schema on boot
+function resolveDialect(flag?: string): MigrationDialect {
+  if (flag === 'mysql' || flag === 'postgres') return flag
+  if (flag) throw new Error(`Unknown dialect: ${flag}`)
+
+  const driver = getDatabaseDriverName()
+  if (driver === 'mysql') return 'mysql'
+  if (driver === 'supabase') return 'postgres'
+  throw new Error(`The ${driver} driver creates its schema on startup; pass --dialect to migrate another database`)
+}
+
+async function main(argv: string[]) {
+  const args = [...argv]
+  const dialectIndex = args.indexOf('--dialect')
+  const dialectFlag = dialectIndex >= 0 ? args.splice(dialectIndex, 2)[1] : undefined
+  const seedIndex = args.indexOf('--seed')
+  const seed = seedIndex >= 0 && args.splice(seedIndex, 1).length > 0
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE)
+    return
+  }
+
+  const [command = 'up', argument] = args
+  const client = createMigrationClient(resolveDialect(dialectFlag))
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(client, argument)
+        console.log(applied.length > 0
+          ? `✅ Applied ${applied.length} migration(s) to ${client.dialect}`
+          : `✅ ${client.dialect} schema is up to date`)
+
+        if (seed) {
+          await client.exec(getSeedScript(client.dialect))
+          console.log('✅ Database seeded with default data')
+        }
+        break
+      }
+      case 'down': {
+        const steps = argument ? parseInt(argument) : 1
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${argument}`)
+        }
+
+        const reverted = await migrateDown(client, steps)
+        console.log(`✅ Reverted ${reverted.length} migration(s) on ${client.dialect}`)
+        break
+      }
+      case 'status': {
+        const status = await getMigrationStatus(client)
+        for (const migration of status) {
+          console.log(`${migration.appliedAt ? '✔' : '…'} ${migration.version}_${migration.name}${migration.appliedAt ? `  (${migration.appliedAt})` : ''}`)
+        }
+        break
+      }
+      default:
+        console.log(USAGE)
+        process.exitCode = 1
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
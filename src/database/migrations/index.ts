@@ -0,0 +1,235 @@
+import { readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { SQL } from 'bun'
+import { DatabaseManager } from '../connection'
+
+export type MigrationDialect = 'mysql' | 'postgres'
+
+export interface Migration {
+  version: string
+  name: string
+  up: string
+  down: string
+}
+
+export interface AppliedMigration {
+  version: string
+  name: string
+  applied_at: string
+}
+
+export interface MigrationStatus {
+  version: string
+  name: string
+  appliedAt: string | null
+}
+
+// Each dialect only has to know how to run a script and keep schema_migrations in step
+export interface MigrationClient {
+  readonly dialect: MigrationDialect
+  ensureMigrationsTable(): Promise<void>
+  listApplied(): Promise<AppliedMigration[]>
+  apply(migration: Migration, direction: 'up' | 'down'): Promise<void>
+  exec(script: string): Promise<void>
+  close(): Promise<void>
+}
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/
+
+// Read NNN_name.up.sql / NNN_name.down.sql pairs for a dialect, oldest first
+export function loadMigrations(dialect: MigrationDialect, directory = join(import.meta.dir, dialect)): Migration[] {
+  const migrations = new Map<string, Partial<Migration>>()
+
+  for (const file of readdirSync(directory)) {
+    const match = file.match(MIGRATION_FILE)
+    if (!match) continue
+
+    const [, version, name, direction] = match as unknown as [string, string, string, 'up' | 'down']
+    const migration = migrations.get(version) || { version, name }
+
+    if (migration.name !== name) {
+      throw new Error(`Migration ${version} has mismatched names: ${migration.name} and ${name}`)
+    }
+
+    migration[direction] = readFileSync(join(directory, file), 'utf-8')
+    migrations.set(version, migration)
+  }
+
+  return [...migrations.values()]
+    .map(migration => {
+      if (migration.up === undefined || migration.down === undefined) {
+        throw new Error(`Migration ${migration.version}_${migration.name} needs both an up and a down script`)
+      }
+      return migration as Migration
+    })
+    .sort((a, b) => Number(a.version) - Number(b.version))
+}
+
+class MySqlMigrationClient implements MigrationClient {
+  readonly dialect = 'mysql' as const
+
+  // The pool is created with multipleStatements so whole scripts run in one call
+  private get pool() {
+    return DatabaseManager.getInstance()
+  }
+
+  async ensureMigrationsTable() {
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `)
+  }
+
+  async listApplied() {
+    const [rows] = await this.pool.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+    return (rows as any[]).map(row => ({
+      version: row.version,
+      name: row.name,
+      applied_at: new Date(row.applied_at).toISOString()
+    }))
+  }
+
+  // MySQL commits DDL implicitly, so a failed script can leave partial changes behind
+  async apply(migration: Migration, direction: 'up' | 'down') {
+    await this.exec(migration[direction])
+
+    if (direction === 'up') {
+      await this.pool.execute('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name])
+    } else {
+      await this.pool.execute('DELETE FROM schema_migrations WHERE version = ?', [migration.version])
+    }
+  }
+
+  async exec(script: string) {
+    if (script.trim()) await this.pool.query(script)
+  }
+
+  async close() {
+    await DatabaseManager.close()
+  }
+}
+
+class PostgresMigrationClient implements MigrationClient {
+  readonly dialect = 'postgres' as const
+
+  constructor(private sql: SQL) {}
+
+  async ensureMigrationsTable() {
+    await this.sql.unsafe(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `).simple()
+  }
+
+  async listApplied() {
+    const rows = await this.sql.unsafe('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+    return (rows as any[]).map(row => ({
+      version: row.version,
+      name: row.name,
+      applied_at: new Date(row.applied_at).toISOString()
+    }))
+  }
+
+  // Postgres DDL is transactional: the script and its bookkeeping land together or not at all
+  async apply(migration: Migration, direction: 'up' | 'down') {
+    await this.sql.begin(async tx => {
+      const script = migration[direction]
+      if (script.trim()) await tx.unsafe(script).simple()
+
+      if (direction === 'up') {
+        await tx.unsafe('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name])
+      } else {
+        await tx.unsafe('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+      }
+    })
+  }
+
+  async exec(script: string) {
+    if (script.trim()) await this.sql.unsafe(script).simple()
+  }
+
+  async close() {
+    await this.sql.close()
+  }
+}
+
+export function createMigrationClient(dialect: MigrationDialect): MigrationClient {
+  switch (dialect) {
+    case 'mysql':
+      return new MySqlMigrationClient()
+    case 'postgres': {
+      // Supabase exposes the connection string under Project Settings → Database
+      const url = process.env.DATABASE_URL
+      if (!url) {
+        throw new Error('DATABASE_URL is required to run Postgres migrations')
+      }
+      return new PostgresMigrationClient(new SQL(url))
+    }
+    default:
+      throw new Error(`Unknown migration dialect: ${dialect}`)
+  }
+}
+
+export async function getMigrationStatus(client: MigrationClient, migrations = loadMigrations(client.dialect)): Promise<MigrationStatus[]> {
+  await client.ensureMigrationsTable()
+  const applied = new Map((await client.listApplied()).map(row => [row.version, row]))
+
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version)?.applied_at || null
+  }))
+}
+
+// Apply every pending migration up to and including `target` (all when omitted)
+export async function migrateUp(client: MigrationClient, target?: string, migrations = loadMigrations(client.dialect)): Promise<Migration[]> {
+  await client.ensureMigrationsTable()
+  const applied = new Set((await client.listApplied()).map(row => row.version))
+
+  const pending = migrations.filter(migration =>
+    !applied.has(migration.version) && (target === undefined || Number(migration.version) <= Number(target))
+  )
+
+  for (const migration of pending) {
+    console.log(`⬆️  Applying ${migration.version}_${migration.name}`)
+    await client.apply(migration, 'up')
+  }
+
+  return pending
+}
+
+// Revert the most recently applied migrations, newest first
+export async function migrateDown(client: MigrationClient, steps = 1, migrations = loadMigrations(client.dialect)): Promise<Migration[]> {
+  await client.ensureMigrationsTable()
+  const byVersion = new Map(migrations.map(migration => [migration.version, migration]))
+  const applied = (await client.listApplied())
+    .map(row => row.version)
+    .sort((a, b) => Number(b) - Number(a))
+    .slice(0, Math.max(0, steps))
+
+  const reverted: Migration[] = []
+  for (const version of applied) {
+    const migration = byVersion.get(version)
+    if (!migration) {
+      throw new Error(`Migration ${version} is recorded in schema_migrations but its files are missing`)
+    }
+
+    console.log(`⬇️  Reverting ${migration.version}_${migration.name}`)
+    await client.apply(migration, 'down')
+    reverted.push(migration)
+  }
+
+  return reverted
+}
+
+// Default filters and settings; the seed scripts skip rows that already exist
+export function getSeedScript(dialect: MigrationDialect): string {
+  const file = dialect === 'mysql' ? 'seeds.sql' : 'supabase-seeds.sql'
+  return readFileSync(join(import.meta.dir, '..', file), 'utf-8')
+}
@@ -0,0 +1,8 @@
+-- Drop tables in reverse dependency order
+DROP TABLE IF EXISTS app_settings;
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS photo_filters;
+DROP TABLE IF EXISTS photos;
+DROP TABLE IF EXISTS filters;
+DROP TABLE IF EXISTS filter_categories;
+DROP TABLE IF EXISTS users;
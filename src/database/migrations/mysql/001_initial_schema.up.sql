@@ -1,3 +1,5 @@
+-- Initial schema for Classic Web Fotos (MySQL)
+
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
   id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
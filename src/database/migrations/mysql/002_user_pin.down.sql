@@ -0,0 +1,4 @@
+ALTER TABLE users
+  DROP COLUMN is_pin_required,
+  DROP COLUMN pin_set_at,
+  DROP COLUMN device_pin;
@@ -0,0 +1,5 @@
+-- Device PIN protection used by AuthService
+ALTER TABLE users
+  ADD COLUMN device_pin VARCHAR(255) NULL AFTER device_id,
+  ADD COLUMN pin_set_at TIMESTAMP NULL AFTER device_pin,
+  ADD COLUMN is_pin_required BOOLEAN DEFAULT FALSE AFTER pin_set_at;
@@ -0,0 +1,23 @@
+-- Public share links (single photo or batch)
+CREATE TABLE IF NOT EXISTS public_shares (
+  id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  share_token VARCHAR(255) UNIQUE NOT NULL,
+  user_id BIGINT UNSIGNED NOT NULL,
+  share_type ENUM('single', 'batch') NOT NULL,
+  photo_ids JSON NOT NULL, -- Array of photo IDs
+  title VARCHAR(255),
+  description TEXT,
+  download_type VARCHAR(50) DEFAULT 'original', -- original, processed, thumbnail
+  is_active BOOLEAN DEFAULT TRUE,
+  view_count BIGINT UNSIGNED DEFAULT 0,
+  download_count BIGINT UNSIGNED DEFAULT 0,
+  expires_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_created_at (created_at),
+  INDEX idx_is_active (is_active),
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,12 @@
+-- Keep only the first step per (photo, filter) so the old unique key can come back
+DELETE later FROM photo_filters AS later
+JOIN photo_filters AS earlier
+  ON earlier.photo_id = later.photo_id
+  AND earlier.filter_id = later.filter_id
+  AND earlier.position < later.position;
+
+ALTER TABLE photo_filters
+  ADD UNIQUE KEY unique_photo_filter (photo_id, filter_id),
+  DROP INDEX unique_photo_position;
+
+ALTER TABLE photo_filters DROP COLUMN position;
@@ -0,0 +1,14 @@
+-- Filter stacks: photo_filters rows are ordered steps, and a stack may use the same filter twice
+ALTER TABLE photo_filters ADD COLUMN position INT UNSIGNED NOT NULL DEFAULT 0 AFTER filter_id;
+
+-- Number existing steps per photo in the order they were applied
+UPDATE photo_filters
+JOIN (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY photo_id ORDER BY applied_at, id) - 1 AS step
+  FROM photo_filters
+) AS ranked ON ranked.id = photo_filters.id
+SET photo_filters.position = ranked.step;
+
+ALTER TABLE photo_filters
+  ADD UNIQUE KEY unique_photo_position (photo_id, position),
+  DROP INDEX unique_photo_filter;
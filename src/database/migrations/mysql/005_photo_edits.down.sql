@@ -0,0 +1,2 @@
+ALTER TABLE photos DROP COLUMN edit_version;
+DROP TABLE IF EXISTS photo_edits;
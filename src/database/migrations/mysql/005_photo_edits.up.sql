@@ -0,0 +1,13 @@
+-- Non-destructive edits: each photo keeps a history of recipes and points at the current one
+CREATE TABLE IF NOT EXISTS photo_edits (
+  id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  photo_id BIGINT UNSIGNED NOT NULL,
+  version INT UNSIGNED NOT NULL, -- 0 is the photo as it was before the first edit
+  recipe JSON NOT NULL, -- Filter steps and geometry, rendered from original_path
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (photo_id) REFERENCES photos(id) ON DELETE CASCADE,
+  UNIQUE KEY unique_photo_version (photo_id, version)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE photos ADD COLUMN edit_version INT UNSIGNED NOT NULL DEFAULT 0 AFTER processed_path;
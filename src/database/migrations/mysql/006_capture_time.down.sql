@@ -0,0 +1,2 @@
+DROP INDEX idx_photos_user_captured ON photos;
+ALTER TABLE photos DROP COLUMN captured_at;
@@ -0,0 +1,4 @@
+-- When the photo was taken, from its EXIF data. Galleries sort on this, falling back to created_at.
+ALTER TABLE photos ADD COLUMN captured_at TIMESTAMP NULL AFTER exif_data;
+
+CREATE INDEX idx_photos_user_captured ON photos(user_id, captured_at DESC);
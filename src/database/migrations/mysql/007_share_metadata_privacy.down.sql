@@ -0,0 +1 @@
+ALTER TABLE public_shares DROP COLUMN metadata_privacy;
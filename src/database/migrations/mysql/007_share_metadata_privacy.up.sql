@@ -0,0 +1,2 @@
+-- Per-share override of the owner's metadataPrivacy preference. NULL follows the preference.
+ALTER TABLE public_shares ADD COLUMN metadata_privacy VARCHAR(50) NULL AFTER download_type; -- keep, strip_all, strip_gps, coarse_location
@@ -0,0 +1,3 @@
+-- Uploads may now be GIF, TIFF, AVIF or HEIF/HEIC. Databases still on the old default list get the new one.
+UPDATE app_settings SET value = '["image/jpeg", "image/png", "image/webp", "image/gif", "image/tiff", "image/avif", "image/heic", "image/heif"]'
+WHERE `key` = 'allowed_mime_types' AND value = '["image/jpeg", "image/png", "image/webp"]';
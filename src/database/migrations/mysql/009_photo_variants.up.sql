@@ -0,0 +1,2 @@
+-- Resized WebP/AVIF copies of the photo as displayed, [{ format, width, height, url }]. NULL until generated.
+ALTER TABLE photos ADD COLUMN variants JSON NULL AFTER processed_path;
@@ -0,0 +1,15 @@
+-- Drop tables in reverse dependency order, then the shared types and trigger function
+DROP TABLE IF EXISTS app_settings;
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS photo_filters;
+DROP TABLE IF EXISTS photos;
+DROP TABLE IF EXISTS filters;
+DROP TABLE IF EXISTS filter_categories;
+DROP TABLE IF EXISTS users;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
+
+DROP TYPE IF EXISTS data_type_enum;
+DROP TYPE IF EXISTS processing_status_enum;
+DROP TYPE IF EXISTS processing_complexity_enum;
+DROP TYPE IF EXISTS filter_type_enum;
@@ -0,0 +1,3 @@
+ALTER TABLE users DROP COLUMN IF EXISTS is_pin_required;
+ALTER TABLE users DROP COLUMN IF EXISTS pin_set_at;
+ALTER TABLE users DROP COLUMN IF EXISTS device_pin;
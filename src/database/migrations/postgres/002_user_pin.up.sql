@@ -0,0 +1,4 @@
+-- Device PIN protection used by AuthService
+ALTER TABLE users ADD COLUMN IF NOT EXISTS device_pin VARCHAR(255);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_set_at TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_pin_required BOOLEAN DEFAULT FALSE;
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS public_shares;
+DROP TYPE IF EXISTS share_type_enum;
@@ -0,0 +1,3 @@
+DROP FUNCTION IF EXISTS user_photo_storage(BIGINT);
+DROP FUNCTION IF EXISTS adjust_storage_used(BIGINT, BIGINT);
+DROP FUNCTION IF EXISTS reserve_storage(BIGINT, BIGINT);
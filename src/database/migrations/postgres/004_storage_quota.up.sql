@@ -0,0 +1,29 @@
+-- Atomic storage accounting used by the Supabase repositories. PostgREST
+-- can't run `SET storage_used = storage_used + n`, so these are called via RPC.
+
+-- Add p_bytes to storage_used only if it still fits in storage_quota
+CREATE OR REPLACE FUNCTION reserve_storage(p_user_id BIGINT, p_bytes BIGINT)
+RETURNS BOOLEAN AS $$
+    WITH reserved AS (
+        UPDATE users
+        SET storage_used = COALESCE(storage_used, 0) + p_bytes
+        WHERE id = p_user_id
+          AND COALESCE(storage_used, 0) + p_bytes <= COALESCE(storage_quota, 0)
+        RETURNING id
+    )
+    SELECT EXISTS (SELECT 1 FROM reserved)
+$$ LANGUAGE sql;
+
+-- Add (or with a negative delta, release) bytes without going below zero
+CREATE OR REPLACE FUNCTION adjust_storage_used(p_user_id BIGINT, p_delta BIGINT)
+RETURNS VOID AS $$
+    UPDATE users
+    SET storage_used = GREATEST(0, COALESCE(storage_used, 0) + p_delta)
+    WHERE id = p_user_id
+$$ LANGUAGE sql;
+
+-- Bytes taken by a user's photo rows, trashed ones included
+CREATE OR REPLACE FUNCTION user_photo_storage(p_user_id BIGINT)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(file_size), 0)::BIGINT FROM photos WHERE user_id = p_user_id
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,10 @@
+-- Keep only the first step per (photo, filter) so the old unique constraint can come back
+DELETE FROM photo_filters AS later
+USING photo_filters AS earlier
+WHERE earlier.photo_id = later.photo_id
+  AND earlier.filter_id = later.filter_id
+  AND earlier.position < later.position;
+
+ALTER TABLE photo_filters DROP CONSTRAINT IF EXISTS photo_filters_photo_id_position_key;
+ALTER TABLE photo_filters ADD CONSTRAINT photo_filters_photo_id_filter_id_key UNIQUE (photo_id, filter_id);
+ALTER TABLE photo_filters DROP COLUMN IF EXISTS position;
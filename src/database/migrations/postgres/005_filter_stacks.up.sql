@@ -0,0 +1,14 @@
+-- Filter stacks: photo_filters rows are ordered steps, and a stack may use the same filter twice
+ALTER TABLE photo_filters ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+-- Number existing steps per photo in the order they were applied
+UPDATE photo_filters
+SET position = ranked.step
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY photo_id ORDER BY applied_at, id) - 1 AS step
+  FROM photo_filters
+) AS ranked
+WHERE ranked.id = photo_filters.id;
+
+ALTER TABLE photo_filters DROP CONSTRAINT IF EXISTS photo_filters_photo_id_filter_id_key;
+ALTER TABLE photo_filters ADD CONSTRAINT photo_filters_photo_id_position_key UNIQUE (photo_id, position);
@@ -0,0 +1,12 @@
+-- Non-destructive edits: each photo keeps a history of recipes and points at the current one
+CREATE TABLE IF NOT EXISTS photo_edits (
+  id BIGSERIAL PRIMARY KEY,
+  photo_id BIGINT NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL, -- 0 is the photo as it was before the first edit
+  recipe JSONB NOT NULL, -- Filter steps and geometry, rendered from original_path
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (photo_id, version)
+);
+
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS edit_version INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_photos_user_sort_at;
+ALTER TABLE photos DROP COLUMN IF EXISTS sort_at;
+ALTER TABLE photos DROP COLUMN IF EXISTS captured_at;
@@ -0,0 +1,8 @@
+-- When the photo was taken, from its EXIF data. Galleries sort on this, falling back to created_at.
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS captured_at TIMESTAMPTZ;
+
+-- PostgREST can only order by columns, so the gallery order is kept as one
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS sort_at TIMESTAMPTZ
+  GENERATED ALWAYS AS (COALESCE(captured_at, created_at)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_photos_user_sort_at ON photos(user_id, sort_at DESC);
@@ -0,0 +1 @@
+ALTER TABLE public_shares DROP COLUMN IF EXISTS metadata_privacy;
@@ -0,0 +1,3 @@
+-- Per-share override of the owner's metadataPrivacy preference. NULL follows the preference.
+ALTER TABLE public_shares ADD COLUMN IF NOT EXISTS metadata_privacy VARCHAR(50)
+  CHECK (metadata_privacy IN ('keep', 'strip_all', 'strip_gps', 'coarse_location'));
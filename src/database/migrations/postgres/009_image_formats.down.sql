@@ -0,0 +1,2 @@
+UPDATE app_settings SET value = '["image/jpeg", "image/png", "image/webp"]'
+WHERE key = 'allowed_mime_types' AND value = '["image/jpeg", "image/png", "image/webp", "image/gif", "image/tiff", "image/avif", "image/heic", "image/heif"]';
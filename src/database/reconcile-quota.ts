@@ -0,0 +1,40 @@
+import { getRepositories } from './repositories'
+import { DatabaseManager } from './connection'
+import { reconcileStorageUsage } from '../utils/quota'
+
+const USAGE = `Usage: bun run reconcile-quota [options]
+
+Recomputes users.storage_used from the file sizes of each user's photo rows
+(trashed photos included) and corrects the users whose counter has drifted.
+
+Options:
+  --dry-run   Report the drift without writing anything`
+
+async function main(argv: string[]) {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE)
+    return
+  }
+
+  const dryRun = argv.includes('--dry-run')
+  const { driver } = getRepositories()
+
+  try {
+    const drifted = await reconcileStorageUsage({ dryRun })
+
+    for (const entry of drifted) {
+      console.log(`user ${entry.userId}: ${entry.recorded} → ${entry.actual} bytes (${entry.actual - entry.recorded >= 0 ? '+' : ''}${entry.actual - entry.recorded})`)
+    }
+
+    console.log(drifted.length === 0
+      ? '✅ Storage usage is accurate for every user'
+      : `✅ ${dryRun ? 'Found' : 'Corrected'} ${drifted.length} user(s) with drifted storage usage`)
+  } finally {
+    if (driver === 'mysql') await DatabaseManager.close()
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('❌ Reconciliation failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
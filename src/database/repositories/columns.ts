@@ -0,0 +1,45 @@
+interface ColumnTypes {
+  booleans?: string[]
+  json?: string[]
+  numbers?: string[]
+}
+
+// MySQL and SQLite hand back integer booleans, JSON as text, DECIMAL strings
+// and Date objects; these column lists let us return the same row shape as Postgres
+export const COLUMN_TYPES: Record<string, ColumnTypes> = {
+  users: { booleans: ['is_active', 'is_pin_required'], json: ['preferences'] },
+  user_sessions: { booleans: ['is_active'], json: ['device_info', 'security_flags'] },
+  photos: { booleans: ['is_favorite'], json: ['variants', 'camera_info', 'capture_settings', 'location_data', 'exif_data'] },
+  filter_categories: { booleans: ['is_active'] },
+  filters: { booleans: ['is_premium', 'is_active'], json: ['parameters'] },
+  photo_filters: { json: ['custom_parameters'], numbers: ['filter_intensity'] },
+  photo_edits: { json: ['recipe'] },
+  public_shares: { booleans: ['is_active'], json: ['photo_ids'] },
+  app_settings: { booleans: ['is_public'] }
+}
+
+export function normalizeRow<T>(table: string, row: any): T {
+  if (!row) return row
+  const types = COLUMN_TYPES[table] || {}
+  const result: Record<string, any> = {}
+
+  for (const [column, value] of Object.entries(row)) {
+    if (value instanceof Date) {
+      result[column] = value.toISOString()
+    } else if (types.booleans?.includes(column) && value !== null) {
+      result[column] = Boolean(value)
+    } else if (types.json?.includes(column) && typeof value === 'string') {
+      try {
+        result[column] = JSON.parse(value)
+      } catch {
+        result[column] = value
+      }
+    } else if (types.numbers?.includes(column) && value !== null) {
+      result[column] = Number(value)
+    } else {
+      result[column] = value
+    }
+  }
+
+  return result as T
+}
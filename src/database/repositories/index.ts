@@ -0,0 +1,77 @@
+import { createSupabaseRepositories } from './supabase'
+import { createMySqlRepositories } from './mysql'
+import { createSqliteRepositories } from './sqlite'
+import { createMemoryRepositories } from './memory'
+import type { Repositories, DatabaseDriverName } from './types'
+
+export type * from './types'
+export { createSqliteRepositories, openSqliteDatabase, getSqlitePath } from './sqlite'
+export { createMemoryRepositories } from './memory'
+export { parseSeedInserts, loadSeedInserts } from './seeds'
+
+let repositories: Repositories | null = null
+
+export function createRepositories(name: DatabaseDriverName): Repositories {
+  switch (name) {
+    case 'supabase':
+      return createSupabaseRepositories()
+    case 'mysql':
+      return createMySqlRepositories()
+    case 'sqlite':
+      return createSqliteRepositories()
+    case 'memory':
+      return createMemoryRepositories()
+    default:
+      throw new Error(`Unknown database driver: ${name}`)
+  }
+}
+
+// DB_DRIVER picks the backend; without it we use Supabase when it is
+// configured and MySQL otherwise
+export function getDatabaseDriverName(): DatabaseDriverName {
+  const configured = process.env.DB_DRIVER
+  if (configured) return configured as DatabaseDriverName
+  return process.env.SUPABASE_URL ? 'supabase' : 'mysql'
+}
+
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createRepositories(getDatabaseDriverName())
+    console.log(`🗄️ Using ${repositories.driver} database driver`)
+  }
+  return repositories
+}
+
+// Swap the active repositories (maintenance scripts and tests)
+export function setRepositories(next: Repositories) {
+  repositories = next
+}
+
+// Public app settings with values converted to their declared types
+export async function getAppSettings(): Promise<Record<string, any>> {
+  try {
+    const settings = await getRepositories().settings.listPublic()
+
+    const result: Record<string, any> = {}
+    settings.forEach(setting => {
+      switch (setting.data_type) {
+        case 'number':
+          result[setting.key] = Number(setting.value)
+          break
+        case 'boolean':
+          result[setting.key] = setting.value === 'true'
+          break
+        case 'json':
+          result[setting.key] = JSON.parse(setting.value)
+          break
+        default:
+          result[setting.key] = setting.value
+      }
+    })
+
+    return result
+  } catch (error) {
+    console.error('Error fetching app settings:', error)
+    return {}
+  }
+}
@@ -0,0 +1,556 @@
+import type {
+  UserTable,
+  UserSessionTable,
+  PhotoTable,
+  FilterCategoryTable,
+  FilterTable,
+  PhotoFilterTable,
+  PhotoEditTable,
+  PublicShareTable,
+  AppSettingTable
+} from '../../types/database'
+import type {
+  Repositories,
+  UserRepository,
+  SessionRepository,
+  PhotoRepository,
+  PhotoQuery,
+  FilterRepository,
+  PhotoFilterRepository,
+  PhotoEditRepository,
+  ShareRepository,
+  SettingsRepository,
+  InsertRow,
+  UpdateRow,
+  Pagination
+} from './types'
+import { loadSeedInserts, type SeedInsert } from './seeds'
+
+type Row = { id: number }
+
+function now(): string {
+  return new Date().toISOString()
+}
+
+// Newest first, falling back to id so rows created in the same millisecond keep a stable order
+function newestFirst<T extends Row & { created_at: string }>(a: T, b: T): number {
+  return b.created_at.localeCompare(a.created_at) || b.id - a.id
+}
+
+// Gallery order: capture time when the photo has one, upload time otherwise
+function takenFirst(a: PhotoTable, b: PhotoTable): number {
+  return (b.captured_at || b.created_at).localeCompare(a.captured_at || a.created_at) || b.id - a.id
+}
+
+function paginate<T>(rows: T[], page: Pagination): T[] {
+  return rows.slice(page.offset, page.offset + page.limit)
+}
+
+// A single table kept in process memory. Rows are cloned on the way in and
+// out so callers cannot mutate stored state, just like a real database.
+class MemoryTable<T extends Row> {
+  private rows: T[] = []
+  private nextId = 1
+
+  constructor(
+    private name: string,
+    private defaults: () => Omit<T, 'id'>,
+    private unique: (keyof T)[][] = []
+  ) {}
+
+  all(predicate: (row: T) => boolean = () => true): T[] {
+    return this.rows.filter(predicate).map(row => structuredClone(row))
+  }
+
+  first(predicate: (row: T) => boolean): T | null {
+    const row = this.rows.find(predicate)
+    return row ? structuredClone(row) : null
+  }
+
+  count(predicate: (row: T) => boolean): number {
+    return this.rows.filter(predicate).length
+  }
+
+  insert(data: Partial<Omit<T, 'id'>>): T {
+    const row = { ...this.defaults(), ...definedOnly(data), id: this.nextId++ } as T
+    this.assertUnique(row)
+    this.rows.push(structuredClone(row))
+    return row
+  }
+
+  update(predicate: (row: T) => boolean, data: Partial<Omit<T, 'id'>>): number {
+    const changes = definedOnly(data)
+    const matches = this.rows.filter(predicate)
+
+    for (const row of matches) {
+      const next = { ...row, ...structuredClone(changes) }
+      if ('updated_at' in row && !('updated_at' in changes)) {
+        (next as any).updated_at = now()
+      }
+      this.assertUnique(next, row)
+      Object.assign(row, next)
+    }
+
+    return matches.length
+  }
+
+  delete(predicate: (row: T) => boolean): number {
+    const before = this.rows.length
+    this.rows = this.rows.filter(row => !predicate(row))
+    return before - this.rows.length
+  }
+
+  private assertUnique(candidate: T, self?: T) {
+    for (const columns of this.unique) {
+      const clash = this.rows.some(row =>
+        row !== self && columns.every(column => row[column] !== null && row[column] === candidate[column])
+      )
+      if (clash) {
+        throw new Error(`duplicate key value violates unique constraint on ${this.name} (${columns.join(', ')})`)
+      }
+    }
+  }
+}
+
+function definedOnly<T extends Record<string, any>>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>
+}
+
+// Defaults mirror the Postgres migrations
+function createTables() {
+  return {
+    users: new MemoryTable<UserTable>('users', () => ({
+      device_id: null,
+      device_pin: null,
+      pin_set_at: null,
+      is_pin_required: false,
+      preferences: {},
+      storage_quota: 1073741824,
+      storage_used: 0,
+      created_at: now(),
+      updated_at: now(),
+      is_active: true
+    }), [['device_id']]),
+
+    sessions: new MemoryTable<UserSessionTable>('user_sessions', () => ({
+      user_id: 0,
+      session_token: '',
+      device_info: {},
+      ip_address: null,
+      user_agent: null,
+      created_at: now(),
+      last_activity_at: now(),
+      expires_at: null,
+      is_active: true,
+      login_method: 'anonymous',
+      security_flags: {}
+    }), [['session_token']]),
+
+    photos: new MemoryTable<PhotoTable>('photos', () => ({
+      user_id: 0,
+      filename: '',
+      original_filename: null,
+      display_name: null,
+      file_size: 0,
+      mime_type: 'image/jpeg',
+      width: 0,
+      height: 0,
+      original_path: '',
+      thumbnail_path: null,
+      processed_path: null,
+      variants: null,
+      edit_version: 0,
+      camera_info: {},
+      capture_settings: {},
+      location_data: {},
+      exif_data: {},
+      captured_at: null,
+      processing_status: 'pending',
+      processing_error: null,
+      is_favorite: false,
+      view_count: 0,
+      last_viewed_at: null,
+      created_at: now(),
+      updated_at: now(),
+      deleted_at: null
+    }), [['filename']]),
+
+    categories: new MemoryTable<FilterCategoryTable>('filter_categories', () => ({
+      name: '',
+      display_name: '',
+      description: null,
+      icon: null,
+      sort_order: 0,
+      is_active: true,
+      created_at: now()
+    }), [['name']]),
+
+    filters: new MemoryTable<FilterTable>('filters', () => ({
+      category_id: 0,
+      name: '',
+      display_name: '',
+      description: null,
+      filter_type: 'color',
+      parameters: {},
+      css_class: null,
+      preview_image: null,
+      texture_image: null,
+      lut_file: null,
+      processing_complexity: 'low',
+      is_premium: false,
+      is_active: true,
+      usage_count: 0,
+      sort_order: 0,
+      created_at: now(),
+      updated_at: now()
+    }), [['name']]),
+
+    photoFilters: new MemoryTable<PhotoFilterTable>('photo_filters', () => ({
+      photo_id: 0,
+      filter_id: 0,
+      position: 0,
+      applied_at: now(),
+      processing_time_ms: null,
+      filter_intensity: 1,
+      custom_parameters: {},
+      result_file_path: null,
+      file_size: null
+    }), [['photo_id', 'position']]),
+
+    photoEdits: new MemoryTable<PhotoEditTable>('photo_edits', () => ({
+      photo_id: 0,
+      version: 0,
+      recipe: {},
+      created_at: now()
+    }), [['photo_id', 'version']]),
+
+    shares: new MemoryTable<PublicShareTable>('public_shares', () => ({
+      share_token: '',
+      user_id: 0,
+      share_type: 'single',
+      photo_ids: [],
+      title: null,
+      description: null,
+      download_type: 'original',
+      metadata_privacy: null,
+      is_active: true,
+      view_count: 0,
+      download_count: 0,
+      expires_at: null,
+      created_at: now(),
+      updated_at: now()
+    }), [['share_token']]),
+
+    settings: new MemoryTable<AppSettingTable>('app_settings', () => ({
+      key: '',
+      value: '',
+      data_type: 'string',
+      description: null,
+      is_public: false,
+      updated_at: now()
+    }), [['key']])
+  }
+}
+
+type MemoryTables = ReturnType<typeof createTables>
+
+class MemoryUserRepository implements UserRepository {
+  constructor(private table: MemoryTables['users']) {}
+
+  async findById(id: number) {
+    return this.table.first(user => user.id === id)
+  }
+
+  async findByDeviceId(deviceId: string) {
+    return this.table.first(user => user.device_id === deviceId)
+  }
+
+  async list(page: Pagination) {
+    return paginate(this.table.all().sort((a, b) => a.id - b.id), page)
+  }
+
+  async create(data: InsertRow<UserTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(id: number, data: UpdateRow<UserTable>) {
+    this.table.update(user => user.id === id, data)
+    return this.findById(id)
+  }
+
+  // Check and write happen synchronously, so no other request can interleave
+  async reserveStorage(id: number, bytes: number) {
+    const user = this.table.first(user => user.id === id)
+    if (!user || user.storage_used + bytes > user.storage_quota) return false
+
+    this.table.update(user => user.id === id, { storage_used: user.storage_used + bytes })
+    return true
+  }
+
+  async adjustStorageUsed(id: number, delta: number) {
+    const user = this.table.first(user => user.id === id)
+    if (!user) return
+
+    this.table.update(user => user.id === id, { storage_used: Math.max(0, user.storage_used + delta) })
+  }
+}
+
+class MemorySessionRepository implements SessionRepository {
+  constructor(private table: MemoryTables['sessions']) {}
+
+  async findByToken(sessionToken: string, options: { activeOnly?: boolean } = {}) {
+    return this.table.first(session =>
+      session.session_token === sessionToken && (!options.activeOnly || session.is_active)
+    )
+  }
+
+  async create(data: InsertRow<UserSessionTable>) {
+    return this.table.insert(data)
+  }
+
+  async deactivateForUser(userId: number) {
+    this.table.update(session => session.user_id === userId && session.is_active, { is_active: false })
+  }
+
+  async deactivateByToken(sessionToken: string) {
+    this.table.update(session => session.session_token === sessionToken, { is_active: false })
+  }
+}
+
+class MemoryPhotoRepository implements PhotoRepository {
+  constructor(private table: MemoryTables['photos']) {}
+
+  private matches(userId: number, query: PhotoQuery) {
+    const createdAfter = query.createdAfter ? new Date(query.createdAfter).getTime() : null
+
+    return (photo: PhotoTable) =>
+      photo.user_id === userId &&
+      (query.trashed ? photo.deleted_at !== null : query.includeDeleted || photo.deleted_at === null) &&
+      (query.favorite === undefined || photo.is_favorite === query.favorite) &&
+      (!query.processed || photo.processed_path !== null) &&
+      (createdAfter === null || new Date(photo.created_at).getTime() >= createdAfter)
+  }
+
+  async findById(id: number, userId?: number) {
+    return this.table.first(photo => photo.id === id && (userId === undefined || photo.user_id === userId))
+  }
+
+  async findByIds(ids: number[], userId?: number) {
+    const rows = this.table.all(photo => ids.includes(photo.id) && (userId === undefined || photo.user_id === userId))
+    const byId = new Map(rows.map(photo => [photo.id, photo]))
+    return ids.map(id => byId.get(id)).filter((photo): photo is PhotoTable => !!photo)
+  }
+
+  async listByUser(userId: number, page: Pagination, query: PhotoQuery = {}) {
+    return paginate(this.table.all(this.matches(userId, query)).sort(takenFirst), page)
+  }
+
+  async countByUser(userId: number, query: PhotoQuery = {}) {
+    return this.table.count(this.matches(userId, query))
+  }
+
+  async listAll(page: Pagination) {
+    return paginate(this.table.all().sort((a, b) => a.id - b.id), page)
+  }
+
+  async listTrashedBefore(cutoff: string, limit: number) {
+    const before = new Date(cutoff).getTime()
+    return this.table.all(photo => photo.deleted_at !== null && new Date(photo.deleted_at).getTime() < before)
+      .sort((a, b) => a.deleted_at!.localeCompare(b.deleted_at!))
+      .slice(0, limit)
+  }
+
+  async countByOriginalPath(originalPath: string, excludeId?: number) {
+    return this.table.count(photo => photo.original_path === originalPath && photo.id !== excludeId)
+  }
+
+  async sumFileSizeByUser(userId: number) {
+    return this.table.all(photo => photo.user_id === userId)
+      .reduce((total, photo) => total + photo.file_size, 0)
+  }
+
+  async create(data: InsertRow<PhotoTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(id: number, data: UpdateRow<PhotoTable>) {
+    this.table.update(photo => photo.id === id, data)
+    return this.findById(id)
+  }
+
+  async delete(id: number) {
+    this.table.delete(photo => photo.id === id)
+  }
+}
+
+class MemoryFilterRepository implements FilterRepository {
+  constructor(
+    private categories: MemoryTables['categories'],
+    private table: MemoryTables['filters']
+  ) {}
+
+  async listCategories() {
+    return this.categories.all(category => category.is_active)
+  }
+
+  async listActive() {
+    return this.table.all(filter => filter.is_active)
+  }
+
+  async findActiveById(id: number) {
+    return this.table.first(filter => filter.id === id && filter.is_active)
+  }
+
+  async listPopular(limit: number) {
+    return this.table.all(filter => filter.is_active)
+      .sort((a, b) => b.usage_count - a.usage_count)
+      .slice(0, limit)
+  }
+
+  async incrementUsage(id: number) {
+    const filter = this.table.first(row => row.id === id)
+    if (!filter) return
+    this.table.update(row => row.id === id, { usage_count: filter.usage_count + 1 })
+  }
+
+  async update(id: number, data: UpdateRow<FilterTable>) {
+    this.table.update(row => row.id === id, data)
+    return this.table.first(row => row.id === id)
+  }
+}
+
+class MemoryPhotoFilterRepository implements PhotoFilterRepository {
+  constructor(private table: MemoryTables['photoFilters']) {}
+
+  async create(data: InsertRow<PhotoFilterTable>) {
+    return this.table.insert(data)
+  }
+
+  async countByPhotoIds(photoIds: number[]) {
+    return this.table.count(row => photoIds.includes(row.photo_id))
+  }
+
+  async listByPhotoIds(photoIds: number[]) {
+    return this.table.all(row => photoIds.includes(row.photo_id))
+      .sort((a, b) => a.applied_at.localeCompare(b.applied_at) || a.id - b.id)
+  }
+
+  async deleteByPhotoId(photoId: number) {
+    this.table.delete(row => row.photo_id === photoId)
+  }
+}
+
+class MemoryPhotoEditRepository implements PhotoEditRepository {
+  constructor(private table: MemoryTables['photoEdits']) {}
+
+  async listByPhoto(photoId: number) {
+    return this.table.all(row => row.photo_id === photoId).sort((a, b) => a.version - b.version)
+  }
+
+  async create(data: InsertRow<PhotoEditTable>) {
+    return this.table.insert(data)
+  }
+
+  async deleteAfterVersion(photoId: number, version: number) {
+    this.table.delete(row => row.photo_id === photoId && row.version > version)
+  }
+
+  async deleteByPhotoId(photoId: number) {
+    this.table.delete(row => row.photo_id === photoId)
+  }
+}
+
+class MemoryShareRepository implements ShareRepository {
+  constructor(private table: MemoryTables['shares']) {}
+
+  async findByToken(shareToken: string, userId?: number) {
+    return this.table.first(share =>
+      share.share_token === shareToken && (userId === undefined || share.user_id === userId)
+    )
+  }
+
+  async create(data: InsertRow<PublicShareTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(shareToken: string, data: UpdateRow<PublicShareTable>) {
+    this.table.update(share => share.share_token === shareToken, data)
+  }
+
+  async delete(shareToken: string, userId: number) {
+    this.table.delete(share => share.share_token === shareToken && share.user_id === userId)
+  }
+
+  async listByUser(userId: number, page: Pagination) {
+    return paginate(this.table.all(share => share.user_id === userId).sort(newestFirst), page)
+  }
+
+  async countByUser(userId: number) {
+    return this.table.count(share => share.user_id === userId)
+  }
+}
+
+class MemorySettingsRepository implements SettingsRepository {
+  constructor(private table: MemoryTables['settings']) {}
+
+  async listPublic() {
+    return this.table.all(setting => setting.is_public)
+  }
+
+  async get(key: string) {
+    return this.table.first(setting => setting.key === key)
+  }
+}
+
+// Load the reference data from the seed file. JSON columns arrive as strings
+// and are parsed here the way Postgres would hand them back.
+function applySeeds(tables: MemoryTables, seeds: SeedInsert[]) {
+  for (const { table, rows } of seeds) {
+    for (const row of rows) {
+      switch (table) {
+        case 'filter_categories':
+          if (!tables.categories.first(category => category.name === row.name)) {
+            tables.categories.insert(row)
+          }
+          break
+        case 'filters':
+          if (!tables.filters.first(filter => filter.name === row.name)) {
+            tables.filters.insert({
+              ...row,
+              parameters: typeof row.parameters === 'string' ? JSON.parse(row.parameters) : row.parameters
+            })
+          }
+          break
+        case 'app_settings':
+          if (!tables.settings.first(setting => setting.key === row.key)) {
+            tables.settings.insert(row)
+          }
+          break
+      }
+    }
+  }
+}
+
+export interface MemoryRepositoryOptions {
+  // Seed statements to load; defaults to supabase-seeds.sql
+  seeds?: SeedInsert[]
+}
+
+// Everything lives in this process and disappears on exit. Each call returns
+// a fresh, independently seeded database.
+export function createMemoryRepositories(options: MemoryRepositoryOptions = {}): Repositories {
+  const tables = createTables()
+  applySeeds(tables, options.seeds ?? loadSeedInserts())
+
+  return {
+    driver: 'memory',
+    users: new MemoryUserRepository(tables.users),
+    sessions: new MemorySessionRepository(tables.sessions),
+    photos: new MemoryPhotoRepository(tables.photos),
+    filters: new MemoryFilterRepository(tables.categories, tables.filters),
+    photoFilters: new MemoryPhotoFilterRepository(tables.photoFilters),
+    photoEdits: new MemoryPhotoEditRepository(tables.photoEdits),
+    shares: new MemoryShareRepository(tables.shares),
+    settings: new MemorySettingsRepository(tables.settings)
+  }
+}
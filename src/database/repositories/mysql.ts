@@ -0,0 +1,375 @@
+import { db } from '../connection'
+import type {
+  UserTable,
+  UserSessionTable,
+  PhotoTable,
+  FilterCategoryTable,
+  FilterTable,
+  PhotoFilterTable,
+  PhotoEditTable,
+  PublicShareTable,
+  AppSettingTable
+} from '../../types/database'
+import type {
+  Repositories,
+  UserRepository,
+  SessionRepository,
+  PhotoRepository,
+  PhotoQuery,
+  FilterRepository,
+  PhotoFilterRepository,
+  PhotoEditRepository,
+  ShareRepository,
+  SettingsRepository,
+  InsertRow,
+  UpdateRow,
+  Pagination
+} from './types'
+import { normalizeRow } from './columns'
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// Convert a JS value into something mysql2 can bind
+function toDbValue(value: any): any {
+  if (value === undefined) return null
+  if (value instanceof Date) return value
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) return new Date(value)
+  if (value !== null && typeof value === 'object') return JSON.stringify(value)
+  return value
+}
+
+function quote(column: string): string {
+  return `\`${column}\``
+}
+
+// Minimal table gateway used by the repositories below
+class MySqlTable<T> {
+  constructor(private name: string) {}
+
+  async select(where: string, params: any[] = [], suffix = ''): Promise<T[]> {
+    const rows = await db.all(`SELECT * FROM ${this.name}${where ? ` WHERE ${where}` : ''} ${suffix}`, params)
+    return rows.map(row => normalizeRow<T>(this.name, row))
+  }
+
+  async first(where: string, params: any[] = []): Promise<T | null> {
+    const rows = await this.select(where, params, 'LIMIT 1')
+    return rows[0] || null
+  }
+
+  async count(where: string, params: any[] = []): Promise<number> {
+    const row = await db.get(`SELECT COUNT(*) AS total FROM ${this.name} WHERE ${where}`, params)
+    return Number(row?.total || 0)
+  }
+
+  async insert(data: Record<string, any>): Promise<T> {
+    const columns = Object.keys(data).filter(column => data[column] !== undefined)
+    const placeholders = columns.map(() => '?').join(', ')
+
+    const result = await db.run(
+      `INSERT INTO ${this.name} (${columns.map(quote).join(', ')}) VALUES (${placeholders})`,
+      columns.map(column => toDbValue(data[column]))
+    )
+
+    return (await this.first('id = ?', [result.lastInsertRowid])) as T
+  }
+
+  async update(data: Record<string, any>, where: string, params: any[]): Promise<number> {
+    const columns = Object.keys(data).filter(column => data[column] !== undefined)
+    if (columns.length === 0) return 0
+
+    const result = await db.run(
+      `UPDATE ${this.name} SET ${columns.map(column => `${quote(column)} = ?`).join(', ')} WHERE ${where}`,
+      [...columns.map(column => toDbValue(data[column])), ...params]
+    )
+
+    return result.changes || 0
+  }
+
+  async delete(where: string, params: any[]): Promise<void> {
+    await db.run(`DELETE FROM ${this.name} WHERE ${where}`, params)
+  }
+}
+
+class MySqlUserRepository implements UserRepository {
+  private table = new MySqlTable<UserTable>('users')
+
+  findById(id: number) {
+    return this.table.first('id = ?', [id])
+  }
+
+  findByDeviceId(deviceId: string) {
+    return this.table.first('device_id = ?', [deviceId])
+  }
+
+  list(page: Pagination) {
+    return this.table.select('', [], `ORDER BY id LIMIT ${Math.floor(page.limit)} OFFSET ${Math.floor(page.offset)}`)
+  }
+
+  create(data: InsertRow<UserTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(id: number, data: UpdateRow<UserTable>) {
+    await this.table.update(data, 'id = ?', [id])
+    return this.findById(id)
+  }
+
+  async reserveStorage(id: number, bytes: number) {
+    const result = await db.run(
+      'UPDATE users SET storage_used = storage_used + ? WHERE id = ? AND storage_used + ? <= storage_quota',
+      [bytes, id, bytes]
+    )
+    return (result.changes || 0) > 0
+  }
+
+  async adjustStorageUsed(id: number, delta: number) {
+    await db.run('UPDATE users SET storage_used = GREATEST(0, storage_used + ?) WHERE id = ?', [delta, id])
+  }
+}
+
+class MySqlSessionRepository implements SessionRepository {
+  private table = new MySqlTable<UserSessionTable>('user_sessions')
+
+  findByToken(sessionToken: string, options: { activeOnly?: boolean } = {}) {
+    return options.activeOnly
+      ? this.table.first('session_token = ? AND is_active = TRUE', [sessionToken])
+      : this.table.first('session_token = ?', [sessionToken])
+  }
+
+  create(data: InsertRow<UserSessionTable>) {
+    return this.table.insert(data)
+  }
+
+  async deactivateForUser(userId: number) {
+    await this.table.update({ is_active: false }, 'user_id = ? AND is_active = TRUE', [userId])
+  }
+
+  async deactivateByToken(sessionToken: string) {
+    await this.table.update({ is_active: false }, 'session_token = ?', [sessionToken])
+  }
+}
+
+class MySqlPhotoRepository implements PhotoRepository {
+  private table = new MySqlTable<PhotoTable>('photos')
+
+  // Build the WHERE clause shared by listings and counts
+  private where(userId: number, query: PhotoQuery): { sql: string; params: any[] } {
+    const clauses = ['user_id = ?']
+    const params: any[] = [userId]
+
+    if (query.trashed) clauses.push('deleted_at IS NOT NULL')
+    else if (!query.includeDeleted) clauses.push('deleted_at IS NULL')
+    if (query.favorite !== undefined) {
+      clauses.push('is_favorite = ?')
+      params.push(query.favorite)
+    }
+    if (query.processed) clauses.push('processed_path IS NOT NULL')
+    if (query.createdAfter) {
+      clauses.push('created_at >= ?')
+      params.push(new Date(query.createdAfter))
+    }
+
+    return { sql: clauses.join(' AND '), params }
+  }
+
+  findById(id: number, userId?: number) {
+    return userId === undefined
+      ? this.table.first('id = ?', [id])
+      : this.table.first('id = ? AND user_id = ?', [id, userId])
+  }
+
+  async findByIds(ids: number[], userId?: number) {
+    if (ids.length === 0) return []
+
+    const placeholders = ids.map(() => '?').join(', ')
+    const rows = userId === undefined
+      ? await this.table.select(`id IN (${placeholders})`, ids)
+      : await this.table.select(`id IN (${placeholders}) AND user_id = ?`, [...ids, userId])
+
+    const byId = new Map(rows.map(photo => [photo.id, photo]))
+    return ids.map(id => byId.get(id)).filter((photo): photo is PhotoTable => !!photo)
+  }
+
+  listByUser(userId: number, page: Pagination, query: PhotoQuery = {}) {
+    const { sql, params } = this.where(userId, query)
+    // LIMIT/OFFSET are inlined because mysql2 prepared statements reject them as strings
+    return this.table.select(
+      sql,
+      params,
+      `ORDER BY COALESCE(captured_at, created_at) DESC, id DESC LIMIT ${Math.max(0, Math.floor(page.limit))} OFFSET ${Math.max(0, Math.floor(page.offset))}`
+    )
+  }
+
+  countByUser(userId: number, query: PhotoQuery = {}) {
+    const { sql, params } = this.where(userId, query)
+    return this.table.count(sql, params)
+  }
+
+  listAll(page: Pagination) {
+    return this.table.select('', [], `ORDER BY id LIMIT ${Math.floor(page.limit)} OFFSET ${Math.floor(page.offset)}`)
+  }
+
+  listTrashedBefore(cutoff: string, limit: number) {
+    return this.table.select(
+      'deleted_at IS NOT NULL AND deleted_at < ?',
+      [new Date(cutoff)],
+      `ORDER BY deleted_at ASC LIMIT ${Math.max(0, Math.floor(limit))}`
+    )
+  }
+
+  countByOriginalPath(originalPath: string, excludeId?: number) {
+    return excludeId === undefined
+      ? this.table.count('original_path = ?', [originalPath])
+      : this.table.count('original_path = ? AND id <> ?', [originalPath, excludeId])
+  }
+
+  async sumFileSizeByUser(userId: number) {
+    const row = await db.get('SELECT COALESCE(SUM(file_size), 0) AS total FROM photos WHERE user_id = ?', [userId])
+    return Number(row?.total || 0)
+  }
+
+  create(data: InsertRow<PhotoTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(id: number, data: UpdateRow<PhotoTable>) {
+    await this.table.update(data, 'id = ?', [id])
+    return this.findById(id)
+  }
+
+  delete(id: number) {
+    return this.table.delete('id = ?', [id])
+  }
+}
+
+class MySqlFilterRepository implements FilterRepository {
+  private categories = new MySqlTable<FilterCategoryTable>('filter_categories')
+  private table = new MySqlTable<FilterTable>('filters')
+
+  listCategories() {
+    return this.categories.select('is_active = TRUE')
+  }
+
+  listActive() {
+    return this.table.select('is_active = TRUE')
+  }
+
+  findActiveById(id: number) {
+    return this.table.first('id = ? AND is_active = TRUE', [id])
+  }
+
+  listPopular(limit: number) {
+    return this.table.select('is_active = TRUE', [], `ORDER BY usage_count DESC LIMIT ${Math.max(0, Math.floor(limit))}`)
+  }
+
+  async incrementUsage(id: number) {
+    await db.run('UPDATE filters SET usage_count = usage_count + 1 WHERE id = ?', [id])
+  }
+
+  async update(id: number, data: UpdateRow<FilterTable>) {
+    await this.table.update(data, 'id = ?', [id])
+    return this.table.first('id = ?', [id])
+  }
+}
+
+class MySqlPhotoFilterRepository implements PhotoFilterRepository {
+  private table = new MySqlTable<PhotoFilterTable>('photo_filters')
+
+  create(data: InsertRow<PhotoFilterTable>) {
+    return this.table.insert(data)
+  }
+
+  countByPhotoIds(photoIds: number[]) {
+    if (photoIds.length === 0) return Promise.resolve(0)
+    return this.table.count(`photo_id IN (${photoIds.map(() => '?').join(', ')})`, photoIds)
+  }
+
+  async listByPhotoIds(photoIds: number[]) {
+    if (photoIds.length === 0) return []
+    return this.table.select(`photo_id IN (${photoIds.map(() => '?').join(', ')})`, photoIds, 'ORDER BY applied_at ASC, id ASC')
+  }
+
+  deleteByPhotoId(photoId: number) {
+    return this.table.delete('photo_id = ?', [photoId])
+  }
+}
+
+class MySqlPhotoEditRepository implements PhotoEditRepository {
+  private table = new MySqlTable<PhotoEditTable>('photo_edits')
+
+  listByPhoto(photoId: number) {
+    return this.table.select('photo_id = ?', [photoId], 'ORDER BY version ASC')
+  }
+
+  create(data: InsertRow<PhotoEditTable>) {
+    return this.table.insert(data)
+  }
+
+  deleteAfterVersion(photoId: number, version: number) {
+    return this.table.delete('photo_id = ? AND version > ?', [photoId, version])
+  }
+
+  deleteByPhotoId(photoId: number) {
+    return this.table.delete('photo_id = ?', [photoId])
+  }
+}
+
+class MySqlShareRepository implements ShareRepository {
+  private table = new MySqlTable<PublicShareTable>('public_shares')
+
+  findByToken(shareToken: string, userId?: number) {
+    return userId === undefined
+      ? this.table.first('share_token = ?', [shareToken])
+      : this.table.first('share_token = ? AND user_id = ?', [shareToken, userId])
+  }
+
+  create(data: InsertRow<PublicShareTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(shareToken: string, data: UpdateRow<PublicShareTable>) {
+    await this.table.update(data, 'share_token = ?', [shareToken])
+  }
+
+  delete(shareToken: string, userId: number) {
+    return this.table.delete('share_token = ? AND user_id = ?', [shareToken, userId])
+  }
+
+  listByUser(userId: number, page: Pagination) {
+    return this.table.select(
+      'user_id = ?',
+      [userId],
+      `ORDER BY created_at DESC LIMIT ${Math.max(0, Math.floor(page.limit))} OFFSET ${Math.max(0, Math.floor(page.offset))}`
+    )
+  }
+
+  countByUser(userId: number) {
+    return this.table.count('user_id = ?', [userId])
+  }
+}
+
+class MySqlSettingsRepository implements SettingsRepository {
+  private table = new MySqlTable<AppSettingTable>('app_settings')
+
+  listPublic() {
+    return this.table.select('is_public = TRUE')
+  }
+
+  get(key: string) {
+    return this.table.first('`key` = ?', [key])
+  }
+}
+
+export function createMySqlRepositories(): Repositories {
+  return {
+    driver: 'mysql',
+    users: new MySqlUserRepository(),
+    sessions: new MySqlSessionRepository(),
+    photos: new MySqlPhotoRepository(),
+    filters: new MySqlFilterRepository(),
+    photoFilters: new MySqlPhotoFilterRepository(),
+    photoEdits: new MySqlPhotoEditRepository(),
+    shares: new MySqlShareRepository(),
+    settings: new MySqlSettingsRepository()
+  }
+}
@@ -0,0 +1,93 @@
+import supabaseSeeds from '../supabase-seeds.sql' with { type: 'text' }
+
+export interface SeedInsert {
+  table: string
+  rows: Record<string, any>[]
+}
+
+// Split the VALUES list of an INSERT into tuples of raw SQL literals
+function parseTuples(values: string): string[][] {
+  const tuples: string[][] = []
+  let current: string[] | null = null
+  let token = ''
+  let inString = false
+
+  for (let i = 0; i < values.length; i++) {
+    const char = values[i]!
+
+    if (inString) {
+      if (char === "'" && values[i + 1] === "'") {
+        token += "''"
+        i++
+      } else {
+        token += char
+        if (char === "'") inString = false
+      }
+      continue
+    }
+
+    if (char === "'") {
+      inString = true
+      token += char
+    } else if (char === '(' && !current) {
+      current = []
+      token = ''
+    } else if (char === ',' && current) {
+      current.push(token.trim())
+      token = ''
+    } else if (char === ')' && current) {
+      current.push(token.trim())
+      tuples.push(current)
+      current = null
+      token = ''
+    } else if (current) {
+      token += char
+    }
+  }
+
+  return tuples
+}
+
+function parseLiteral(literal: string): any {
+  if (literal.startsWith("'")) return literal.slice(1, -1).replace(/''/g, "'")
+
+  const upper = literal.toUpperCase()
+  if (upper === 'NULL') return null
+  if (upper === 'TRUE') return true
+  if (upper === 'FALSE') return false
+
+  const number = Number(literal)
+  return Number.isNaN(number) ? literal : number
+}
+
+// Parse the plain `INSERT INTO t (cols) VALUES (...), (...)` statements used
+// by the seed files. This is not a general SQL parser: it only understands
+// string, number, boolean and NULL literals.
+export function parseSeedInserts(sql: string): SeedInsert[] {
+  const withoutComments = sql
+    .split('\n')
+    .filter(line => !line.trim().startsWith('--'))
+    .join('\n')
+
+  const inserts: SeedInsert[] = []
+  const pattern = /INSERT\s+INTO\s+(\w+)\s*\(([^)]*)\)\s*VALUES([\s\S]*?)(?:ON\s+CONFLICT[^;]*)?;/gi
+
+  for (const match of withoutComments.matchAll(pattern)) {
+    const table = match[1]!
+    const columns = match[2]!.split(',').map(column => column.trim().replace(/[`"]/g, ''))
+
+    const rows = parseTuples(match[3]!).map(tuple =>
+      Object.fromEntries(columns.map((column, index) => [column, parseLiteral(tuple[index] ?? 'NULL')]))
+    )
+
+    inserts.push({ table, rows })
+  }
+
+  return inserts
+}
+
+// The default seed file is embedded at build time so bundles don't depend
+// on the source tree
+export function loadSeedInserts(sql: string = supabaseSeeds): SeedInsert[] {
+  return parseSeedInserts(sql)
+}
@@ -0,0 +1,492 @@
+import { Database } from 'bun:sqlite'
+import { mkdirSync } from 'fs'
+import { dirname, resolve } from 'path'
+import sqliteSchema from '../sqlite-schema.sql' with { type: 'text' }
+import supabaseSeeds from '../supabase-seeds.sql' with { type: 'text' }
+import type {
+  UserTable,
+  UserSessionTable,
+  PhotoTable,
+  FilterCategoryTable,
+  FilterTable,
+  PhotoFilterTable,
+  PhotoEditTable,
+  PublicShareTable,
+  AppSettingTable
+} from '../../types/database'
+import type {
+  Repositories,
+  UserRepository,
+  SessionRepository,
+  PhotoRepository,
+  PhotoQuery,
+  FilterRepository,
+  PhotoFilterRepository,
+  PhotoEditRepository,
+  ShareRepository,
+  SettingsRepository,
+  InsertRow,
+  UpdateRow,
+  Pagination
+} from './types'
+import { normalizeRow } from './columns'
+
+export function getSqlitePath(): string {
+  const configured = process.env.SQLITE_PATH || 'data/classic-web-fotos.db'
+  return configured === ':memory:' ? configured : resolve(process.cwd(), configured)
+}
+
+// Open the database file, creating the schema and reference data on first use.
+// Both scripts are idempotent so this is safe on every boot, and both are
+// embedded in the bundle so dist/ runs without the source tree.
+export function openSqliteDatabase(path: string = getSqlitePath()): Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true })
+  }
+
+  const database = new Database(path, { create: true })
+  database.exec('PRAGMA journal_mode = WAL')
+  database.exec('PRAGMA busy_timeout = 5000')
+  database.transaction(() => {
+    const upgradePhotoFilters = needsPhotoFilterPositions(database)
+
+    // SQLite can't swap a UNIQUE constraint in place, so move the old table aside,
+    // let the schema create the new one and copy the rows across
+    if (upgradePhotoFilters) {
+      database.exec('DROP INDEX IF EXISTS idx_photo_filters_filter_id')
+      database.exec('ALTER TABLE photo_filters RENAME TO photo_filters_legacy')
+    }
+
+    database.exec(sqliteSchema)
+
+    if (upgradePhotoFilters) {
+      database.exec(`
+        INSERT INTO photo_filters (id, photo_id, filter_id, position, applied_at, processing_time_ms,
+          filter_intensity, custom_parameters, result_file_path, file_size)
+        SELECT id, photo_id, filter_id,
+          ROW_NUMBER() OVER (PARTITION BY photo_id ORDER BY applied_at, id) - 1,
+          applied_at, processing_time_ms, filter_intensity, custom_parameters, result_file_path, file_size
+        FROM photo_filters_legacy
+      `)
+      database.exec('DROP TABLE photo_filters_legacy')
+    }
+
+    if (!hasColumn(database, 'photos', 'edit_version')) {
+      database.exec('ALTER TABLE photos ADD COLUMN edit_version INTEGER NOT NULL DEFAULT 0')
+    }
+    if (!hasColumn(database, 'photos', 'captured_at')) {
+      database.exec('ALTER TABLE photos ADD COLUMN captured_at TEXT')
+    }
+    if (!hasColumn(database, 'photos', 'variants')) {
+      database.exec('ALTER TABLE photos ADD COLUMN variants TEXT')
+    }
+    if (!hasColumn(database, 'public_shares', 'metadata_privacy')) {
+      database.exec('ALTER TABLE public_shares ADD COLUMN metadata_privacy TEXT')
+    }
+    // Created here rather than in the schema so older databases get the column first
+    database.exec('CREATE INDEX IF NOT EXISTS idx_photos_user_sort ON photos(user_id, COALESCE(captured_at, created_at) DESC)')
+    // Databases seeded before GIF, TIFF, AVIF and HEIF uploads (an edited list is left alone)
+    database.exec(`
+      UPDATE app_settings
+      SET value = '["image/jpeg", "image/png", "image/webp", "image/gif", "image/tiff", "image/avif", "image/heic", "image/heif"]'
+      WHERE key = 'allowed_mime_types' AND value = '["image/jpeg", "image/png", "image/webp"]'
+    `)
+  })()
+  database.exec(supabaseSeeds)
+
+  return database
+}
+
+// Databases created before filter stacks have photo_filters without `position`
+// and unique on (photo_id, filter_id)
+function needsPhotoFilterPositions(database: Database): boolean {
+  return hasTable(database, 'photo_filters') && !hasColumn(database, 'photo_filters', 'position')
+}
+
+function tableColumns(database: Database, table: string): string[] {
+  const columns = database.query(`PRAGMA table_info('${table}')`).all() as { name: string }[]
+  return columns.map(column => column.name)
+}
+
+function hasTable(database: Database, table: string): boolean {
+  return tableColumns(database, table).length > 0
+}
+
+function hasColumn(database: Database, table: string, column: string): boolean {
+  return tableColumns(database, table).includes(column)
+}
+
+// Convert a JS value into something bun:sqlite can bind
+function toDbValue(value: any): any {
+  if (value === undefined) return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof Date) return value.toISOString()
+  if (value !== null && typeof value === 'object') return JSON.stringify(value)
+  return value
+}
+
+function quote(column: string): string {
+  return `"${column}"`
+}
+
+// Minimal table gateway used by the repositories below
+class SqliteTable<T> {
+  constructor(private database: Database, private name: string) {}
+
+  select(where: string, params: any[] = [], suffix = ''): T[] {
+    const rows = this.database
+      .query(`SELECT * FROM ${this.name}${where ? ` WHERE ${where}` : ''} ${suffix}`)
+      .all(...params.map(toDbValue))
+    return rows.map(row => normalizeRow<T>(this.name, row))
+  }
+
+  first(where: string, params: any[] = []): T | null {
+    return this.select(where, params, 'LIMIT 1')[0] || null
+  }
+
+  count(where: string, params: any[] = []): number {
+    const row = this.database
+      .query(`SELECT COUNT(*) AS total FROM ${this.name} WHERE ${where}`)
+      .get(...params.map(toDbValue)) as { total: number } | null
+    return Number(row?.total || 0)
+  }
+
+  insert(data: Record<string, any>): T {
+    const columns = Object.keys(data).filter(column => data[column] !== undefined)
+    const placeholders = columns.map(() => '?').join(', ')
+
+    const row = this.database
+      .query(`INSERT INTO ${this.name} (${columns.map(quote).join(', ')}) VALUES (${placeholders}) RETURNING *`)
+      .get(...columns.map(column => toDbValue(data[column])))
+
+    return normalizeRow<T>(this.name, row)
+  }
+
+  update(data: Record<string, any>, where: string, params: any[]): number {
+    const columns = Object.keys(data).filter(column => data[column] !== undefined)
+    if (columns.length === 0) return 0
+
+    const result = this.database
+      .query(`UPDATE ${this.name} SET ${columns.map(column => `${quote(column)} = ?`).join(', ')} WHERE ${where}`)
+      .run(...columns.map(column => toDbValue(data[column])), ...params.map(toDbValue))
+
+    return result.changes
+  }
+
+  delete(where: string, params: any[]): void {
+    this.database.query(`DELETE FROM ${this.name} WHERE ${where}`).run(...params.map(toDbValue))
+  }
+}
+
+class SqliteUserRepository implements UserRepository {
+  private table: SqliteTable<UserTable>
+
+  constructor(private database: Database) {
+    this.table = new SqliteTable<UserTable>(database, 'users')
+  }
+
+  async findById(id: number) {
+    return this.table.first('id = ?', [id])
+  }
+
+  async findByDeviceId(deviceId: string) {
+    return this.table.first('device_id = ?', [deviceId])
+  }
+
+  async list(page: Pagination) {
+    return this.table.select('', [page.limit, page.offset], 'ORDER BY id LIMIT ? OFFSET ?')
+  }
+
+  async create(data: InsertRow<UserTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(id: number, data: UpdateRow<UserTable>) {
+    this.table.update(data, 'id = ?', [id])
+    return this.findById(id)
+  }
+
+  async reserveStorage(id: number, bytes: number) {
+    const result = this.database
+      .query('UPDATE users SET storage_used = storage_used + ? WHERE id = ? AND storage_used + ? <= storage_quota')
+      .run(bytes, id, bytes)
+    return result.changes > 0
+  }
+
+  async adjustStorageUsed(id: number, delta: number) {
+    this.database.query('UPDATE users SET storage_used = MAX(0, storage_used + ?) WHERE id = ?').run(delta, id)
+  }
+}
+
+class SqliteSessionRepository implements SessionRepository {
+  private table: SqliteTable<UserSessionTable>
+
+  constructor(database: Database) {
+    this.table = new SqliteTable<UserSessionTable>(database, 'user_sessions')
+  }
+
+  async findByToken(sessionToken: string, options: { activeOnly?: boolean } = {}) {
+    return options.activeOnly
+      ? this.table.first('session_token = ? AND is_active = 1', [sessionToken])
+      : this.table.first('session_token = ?', [sessionToken])
+  }
+
+  async create(data: InsertRow<UserSessionTable>) {
+    return this.table.insert(data)
+  }
+
+  async deactivateForUser(userId: number) {
+    this.table.update({ is_active: false }, 'user_id = ? AND is_active = 1', [userId])
+  }
+
+  async deactivateByToken(sessionToken: string) {
+    this.table.update({ is_active: false }, 'session_token = ?', [sessionToken])
+  }
+}
+
+class SqlitePhotoRepository implements PhotoRepository {
+  private table: SqliteTable<PhotoTable>
+
+  constructor(private database: Database) {
+    this.table = new SqliteTable<PhotoTable>(database, 'photos')
+  }
+
+  // Build the WHERE clause shared by listings and counts
+  private where(userId: number, query: PhotoQuery): { sql: string; params: any[] } {
+    const clauses = ['user_id = ?']
+    const params: any[] = [userId]
+
+    if (query.trashed) clauses.push('deleted_at IS NOT NULL')
+    else if (!query.includeDeleted) clauses.push('deleted_at IS NULL')
+    if (query.favorite !== undefined) {
+      clauses.push('is_favorite = ?')
+      params.push(query.favorite)
+    }
+    if (query.processed) clauses.push('processed_path IS NOT NULL')
+    if (query.createdAfter) {
+      clauses.push('created_at >= ?')
+      params.push(new Date(query.createdAfter).toISOString())
+    }
+
+    return { sql: clauses.join(' AND '), params }
+  }
+
+  async findById(id: number, userId?: number) {
+    return userId === undefined
+      ? this.table.first('id = ?', [id])
+      : this.table.first('id = ? AND user_id = ?', [id, userId])
+  }
+
+  async findByIds(ids: number[], userId?: number) {
+    if (ids.length === 0) return []
+
+    const placeholders = ids.map(() => '?').join(', ')
+    const rows = userId === undefined
+      ? this.table.select(`id IN (${placeholders})`, ids)
+      : this.table.select(`id IN (${placeholders}) AND user_id = ?`, [...ids, userId])
+
+    const byId = new Map(rows.map(photo => [photo.id, photo]))
+    return ids.map(id => byId.get(id)).filter((photo): photo is PhotoTable => !!photo)
+  }
+
+  async listByUser(userId: number, page: Pagination, query: PhotoQuery = {}) {
+    const { sql, params } = this.where(userId, query)
+    return this.table.select(
+      sql,
+      [...params, page.limit, page.offset],
+      'ORDER BY COALESCE(captured_at, created_at) DESC, id DESC LIMIT ? OFFSET ?'
+    )
+  }
+
+  async countByUser(userId: number, query: PhotoQuery = {}) {
+    const { sql, params } = this.where(userId, query)
+    return this.table.count(sql, params)
+  }
+
+  async listAll(page: Pagination) {
+    return this.table.select('', [page.limit, page.offset], 'ORDER BY id LIMIT ? OFFSET ?')
+  }
+
+  async listTrashedBefore(cutoff: string, limit: number) {
+    return this.table.select(
+      'deleted_at IS NOT NULL AND deleted_at < ?',
+      [new Date(cutoff).toISOString(), limit],
+      'ORDER BY deleted_at ASC LIMIT ?'
+    )
+  }
+
+  async countByOriginalPath(originalPath: string, excludeId?: number) {
+    return excludeId === undefined
+      ? this.table.count('original_path = ?', [originalPath])
+      : this.table.count('original_path = ? AND id <> ?', [originalPath, excludeId])
+  }
+
+  async sumFileSizeByUser(userId: number) {
+    const row = this.database
+      .query('SELECT COALESCE(SUM(file_size), 0) AS total FROM photos WHERE user_id = ?')
+      .get(userId) as { total: number } | null
+    return Number(row?.total || 0)
+  }
+
+  async create(data: InsertRow<PhotoTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(id: number, data: UpdateRow<PhotoTable>) {
+    this.table.update(data, 'id = ?', [id])
+    return this.findById(id)
+  }
+
+  async delete(id: number) {
+    this.table.delete('id = ?', [id])
+  }
+}
+
+class SqliteFilterRepository implements FilterRepository {
+  private categories: SqliteTable<FilterCategoryTable>
+  private table: SqliteTable<FilterTable>
+
+  constructor(private database: Database) {
+    this.categories = new SqliteTable<FilterCategoryTable>(database, 'filter_categories')
+    this.table = new SqliteTable<FilterTable>(database, 'filters')
+  }
+
+  async listCategories() {
+    return this.categories.select('is_active = 1')
+  }
+
+  async listActive() {
+    return this.table.select('is_active = 1')
+  }
+
+  async findActiveById(id: number) {
+    return this.table.first('id = ? AND is_active = 1', [id])
+  }
+
+  async listPopular(limit: number) {
+    return this.table.select('is_active = 1', [limit], 'ORDER BY usage_count DESC LIMIT ?')
+  }
+
+  async incrementUsage(id: number) {
+    this.database.query('UPDATE filters SET usage_count = usage_count + 1 WHERE id = ?').run(id)
+  }
+
+  async update(id: number, data: UpdateRow<FilterTable>) {
+    await this.table.update(data, 'id = ?', [id])
+    return this.table.first('id = ?', [id])
+  }
+}
+
+class SqlitePhotoFilterRepository implements PhotoFilterRepository {
+  private table: SqliteTable<PhotoFilterTable>
+
+  constructor(database: Database) {
+    this.table = new SqliteTable<PhotoFilterTable>(database, 'photo_filters')
+  }
+
+  async create(data: InsertRow<PhotoFilterTable>) {
+    return this.table.insert(data)
+  }
+
+  async countByPhotoIds(photoIds: number[]) {
+    if (photoIds.length === 0) return 0
+    return this.table.count(`photo_id IN (${photoIds.map(() => '?').join(', ')})`, photoIds)
+  }
+
+  async listByPhotoIds(photoIds: number[]) {
+    if (photoIds.length === 0) return []
+    return this.table.select(`photo_id IN (${photoIds.map(() => '?').join(', ')})`, photoIds, 'ORDER BY applied_at ASC, id ASC')
+  }
+
+  async deleteByPhotoId(photoId: number) {
+    this.table.delete('photo_id = ?', [photoId])
+  }
+}
+
+class SqlitePhotoEditRepository implements PhotoEditRepository {
+  private table: SqliteTable<PhotoEditTable>
+
+  constructor(database: Database) {
+    this.table = new SqliteTable<PhotoEditTable>(database, 'photo_edits')
+  }
+
+  async listByPhoto(photoId: number) {
+    return this.table.select('photo_id = ?', [photoId], 'ORDER BY version ASC')
+  }
+
+  async create(data: InsertRow<PhotoEditTable>) {
+    return this.table.insert(data)
+  }
+
+  async deleteAfterVersion(photoId: number, version: number) {
+    this.table.delete('photo_id = ? AND version > ?', [photoId, version])
+  }
+
+  async deleteByPhotoId(photoId: number) {
+    this.table.delete('photo_id = ?', [photoId])
+  }
+}
+
+class SqliteShareRepository implements ShareRepository {
+  private table: SqliteTable<PublicShareTable>
+
+  constructor(database: Database) {
+    this.table = new SqliteTable<PublicShareTable>(database, 'public_shares')
+  }
+
+  async findByToken(shareToken: string, userId?: number) {
+    return userId === undefined
+      ? this.table.first('share_token = ?', [shareToken])
+      : this.table.first('share_token = ? AND user_id = ?', [shareToken, userId])
+  }
+
+  async create(data: InsertRow<PublicShareTable>) {
+    return this.table.insert(data)
+  }
+
+  async update(shareToken: string, data: UpdateRow<PublicShareTable>) {
+    this.table.update(data, 'share_token = ?', [shareToken])
+  }
+
+  async delete(shareToken: string, userId: number) {
+    this.table.delete('share_token = ? AND user_id = ?', [shareToken, userId])
+  }
+
+  async listByUser(userId: number, page: Pagination) {
+    return this.table.select('user_id = ?', [userId, page.limit, page.offset], 'ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?')
+  }
+
+  async countByUser(userId: number) {
+    return this.table.count('user_id = ?', [userId])
+  }
+}
+
+class SqliteSettingsRepository implements SettingsRepository {
+  private table: SqliteTable<AppSettingTable>
+
+  constructor(database: Database) {
+    this.table = new SqliteTable<AppSettingTable>(database, 'app_settings')
+  }
+
+  async listPublic() {
+    return this.table.select('is_public = 1')
+  }
+
+  async get(key: string) {
+    return this.table.first('"key" = ?', [key])
+  }
+}
+
+export function createSqliteRepositories(database: Database = openSqliteDatabase()): Repositories {
+  return {
+    driver: 'sqlite',
+    users: new SqliteUserRepository(database),
+    sessions: new SqliteSessionRepository(database),
+    photos: new SqlitePhotoRepository(database),
+    filters: new SqliteFilterRepository(database),
+    photoFilters: new SqlitePhotoFilterRepository(database),
+    photoEdits: new SqlitePhotoEditRepository(database),
+    shares: new SqliteShareRepository(database),
+    settings: new SqliteSettingsRepository(database)
+  }
+}
@@ -0,0 +1,401 @@
+import { db } from '../supabase'
+import type {
+  UserTable,
+  UserSessionTable,
+  PhotoTable,
+  FilterCategoryTable,
+  FilterTable,
+  PhotoFilterTable,
+  PhotoEditTable,
+  PublicShareTable,
+  AppSettingTable
+} from '../../types/database'
+import type {
+  Repositories,
+  UserRepository,
+  SessionRepository,
+  PhotoRepository,
+  PhotoQuery,
+  FilterRepository,
+  PhotoFilterRepository,
+  PhotoEditRepository,
+  ShareRepository,
+  SettingsRepository,
+  InsertRow,
+  UpdateRow,
+  Pagination
+} from './types'
+
+// Insert a row and return it as stored
+async function insertOne<T>(table: string, data: any): Promise<T> {
+  const { data: rows, error } = await db.client
+    .from(table)
+    .insert(data)
+    .select()
+
+  if (error) throw error
+  return rows[0] as T
+}
+
+class SupabaseUserRepository implements UserRepository {
+  async findById(id: number) {
+    const rows = await db.select('users', '*', { id })
+    return (rows[0] as unknown as UserTable) || null
+  }
+
+  async findByDeviceId(deviceId: string) {
+    const rows = await db.select('users', '*', { device_id: deviceId })
+    return (rows[0] as unknown as UserTable) || null
+  }
+
+  async list(page: Pagination) {
+    const { data, error } = await db.client
+      .from('users')
+      .select('*')
+      .order('id', { ascending: true })
+      .range(page.offset, page.offset + page.limit - 1)
+
+    if (error) throw error
+    return (data || []) as UserTable[]
+  }
+
+  async create(data: InsertRow<UserTable>) {
+    return insertOne<UserTable>('users', data)
+  }
+
+  async update(id: number, data: UpdateRow<UserTable>) {
+    const rows = await db.update('users', data, { id })
+    return (rows[0] as UserTable) || null
+  }
+
+  // PostgREST can't express `SET x = x + n`, so these go through the functions
+  // from the 004_storage_quota migration
+  async reserveStorage(id: number, bytes: number) {
+    const { data, error } = await db.client.rpc('reserve_storage', { p_user_id: id, p_bytes: bytes })
+    if (error) throw error
+    return data === true
+  }
+
+  async adjustStorageUsed(id: number, delta: number) {
+    const { error } = await db.client.rpc('adjust_storage_used', { p_user_id: id, p_delta: delta })
+    if (error) throw error
+  }
+}
+
+class SupabaseSessionRepository implements SessionRepository {
+  async findByToken(sessionToken: string, options: { activeOnly?: boolean } = {}) {
+    const conditions: Record<string, any> = { session_token: sessionToken }
+    if (options.activeOnly) conditions.is_active = true
+
+    const rows = await db.select('user_sessions', '*', conditions)
+    return (rows[0] as unknown as UserSessionTable) || null
+  }
+
+  async create(data: InsertRow<UserSessionTable>) {
+    return insertOne<UserSessionTable>('user_sessions', data)
+  }
+
+  async deactivateForUser(userId: number) {
+    await db.update('user_sessions', { is_active: false }, { user_id: userId, is_active: true })
+  }
+
+  async deactivateByToken(sessionToken: string) {
+    await db.update('user_sessions', { is_active: false }, { session_token: sessionToken })
+  }
+}
+
+class SupabasePhotoRepository implements PhotoRepository {
+  // Apply the shared PhotoQuery conditions to a photos query
+  private applyQuery<Q extends { eq: any; is: any; not: any; gte: any }>(
+    builder: Q,
+    userId: number,
+    query: PhotoQuery
+  ): Q {
+    let result = builder.eq('user_id', userId)
+
+    if (query.trashed) result = result.not('deleted_at', 'is', null)
+    else if (!query.includeDeleted) result = result.is('deleted_at', null)
+    if (query.favorite !== undefined) result = result.eq('is_favorite', query.favorite)
+    if (query.processed) result = result.not('processed_path', 'is', null)
+    if (query.createdAfter) result = result.gte('created_at', query.createdAfter)
+
+    return result
+  }
+
+  async findById(id: number, userId?: number) {
+    const conditions: Record<string, any> = { id }
+    if (userId !== undefined) conditions.user_id = userId
+
+    const rows = await db.select('photos', '*', conditions)
+    return (rows[0] as unknown as PhotoTable) || null
+  }
+
+  async findByIds(ids: number[], userId?: number) {
+    if (ids.length === 0) return []
+
+    let query = db.client.from('photos').select('*').in('id', ids)
+    if (userId !== undefined) query = query.eq('user_id', userId)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const byId = new Map((data as PhotoTable[]).map(photo => [photo.id, photo]))
+    return ids.map(id => byId.get(id)).filter((photo): photo is PhotoTable => !!photo)
+  }
+
+  async listByUser(userId: number, page: Pagination, query: PhotoQuery = {}) {
+    // sort_at is COALESCE(captured_at, created_at), generated by the database
+    const { data, error } = await this.applyQuery(db.client.from('photos').select('*'), userId, query)
+      .order('sort_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(page.offset, page.offset + page.limit - 1)
+
+    if (error) throw error
+    return (data || []) as PhotoTable[]
+  }
+
+  async countByUser(userId: number, query: PhotoQuery = {}) {
+    const { count, error } = await this.applyQuery(
+      db.client.from('photos').select('*', { count: 'exact', head: true }),
+      userId,
+      query
+    )
+
+    if (error) throw error
+    return count || 0
+  }
+
+  async listAll(page: Pagination) {
+    const { data, error } = await db.client
+      .from('photos')
+      .select('*')
+      .order('id', { ascending: true })
+      .range(page.offset, page.offset + page.limit - 1)
+
+    if (error) throw error
+    return (data || []) as PhotoTable[]
+  }
+
+  async listTrashedBefore(cutoff: string, limit: number) {
+    const { data, error } = await db.client
+      .from('photos')
+      .select('*')
+      .not('deleted_at', 'is', null)
+      .lt('deleted_at', cutoff)
+      .order('deleted_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []) as PhotoTable[]
+  }
+
+  async countByOriginalPath(originalPath: string, excludeId?: number) {
+    let query = db.client
+      .from('photos')
+      .select('*', { count: 'exact', head: true })
+      .eq('original_path', originalPath)
+    if (excludeId !== undefined) query = query.neq('id', excludeId)
+
+    const { count, error } = await query
+    if (error) throw error
+    return count || 0
+  }
+
+  async sumFileSizeByUser(userId: number) {
+    const { data, error } = await db.client.rpc('user_photo_storage', { p_user_id: userId })
+    if (error) throw error
+    return Number(data || 0)
+  }
+
+  async create(data: InsertRow<PhotoTable>) {
+    return insertOne<PhotoTable>('photos', data)
+  }
+
+  async update(id: number, data: UpdateRow<PhotoTable>) {
+    const rows = await db.update('photos', data, { id })
+    return (rows[0] as PhotoTable) || null
+  }
+
+  async delete(id: number) {
+    await db.delete('photos', { id })
+  }
+}
+
+class SupabaseFilterRepository implements FilterRepository {
+  async listCategories() {
+    const rows = await db.select('filter_categories', '*', { is_active: true })
+    return (rows || []) as unknown as FilterCategoryTable[]
+  }
+
+  async listActive() {
+    const rows = await db.select('filters', '*', { is_active: true })
+    return (rows || []) as unknown as FilterTable[]
+  }
+
+  async findActiveById(id: number) {
+    const rows = await db.select('filters', '*', { id, is_active: true })
+    return (rows[0] as unknown as FilterTable) || null
+  }
+
+  async listPopular(limit: number) {
+    const { data, error } = await db.client
+      .from('filters')
+      .select('*')
+      .eq('is_active', true)
+      .order('usage_count', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []) as FilterTable[]
+  }
+
+  async incrementUsage(id: number) {
+    const rows = await db.select('filters', 'usage_count', { id })
+    const filter = rows[0] as unknown as Pick<FilterTable, 'usage_count'> | undefined
+    if (!filter) return
+
+    await db.update('filters', { usage_count: filter.usage_count + 1 }, { id })
+  }
+
+  async update(id: number, data: UpdateRow<FilterTable>) {
+    const rows = await db.update('filters', data, { id })
+    return (rows[0] as FilterTable) || null
+  }
+}
+
+class SupabasePhotoFilterRepository implements PhotoFilterRepository {
+  async create(data: InsertRow<PhotoFilterTable>) {
+    return insertOne<PhotoFilterTable>('photo_filters', data)
+  }
+
+  async countByPhotoIds(photoIds: number[]) {
+    if (photoIds.length === 0) return 0
+
+    const { count, error } = await db.client
+      .from('photo_filters')
+      .select('*', { count: 'exact', head: true })
+      .in('photo_id', photoIds)
+
+    if (error) throw error
+    return count || 0
+  }
+
+  async listByPhotoIds(photoIds: number[]) {
+    if (photoIds.length === 0) return []
+
+    const { data, error } = await db.client
+      .from('photo_filters')
+      .select('*')
+      .in('photo_id', photoIds)
+      .order('applied_at', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as PhotoFilterTable[]
+  }
+
+  async deleteByPhotoId(photoId: number) {
+    await db.delete('photo_filters', { photo_id: photoId })
+  }
+}
+
+class SupabasePhotoEditRepository implements PhotoEditRepository {
+  async listByPhoto(photoId: number) {
+    const { data, error } = await db.client
+      .from('photo_edits')
+      .select('*')
+      .eq('photo_id', photoId)
+      .order('version', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as PhotoEditTable[]
+  }
+
+  async create(data: InsertRow<PhotoEditTable>) {
+    return insertOne<PhotoEditTable>('photo_edits', data)
+  }
+
+  async deleteAfterVersion(photoId: number, version: number) {
+    const { error } = await db.client
+      .from('photo_edits')
+      .delete()
+      .eq('photo_id', photoId)
+      .gt('version', version)
+
+    if (error) throw error
+  }
+
+  async deleteByPhotoId(photoId: number) {
+    await db.delete('photo_edits', { photo_id: photoId })
+  }
+}
+
+class SupabaseShareRepository implements ShareRepository {
+  async findByToken(shareToken: string, userId?: number) {
+    const conditions: Record<string, any> = { share_token: shareToken }
+    if (userId !== undefined) conditions.user_id = userId
+
+    const rows = await db.select('public_shares', '*', conditions)
+    return (rows[0] as unknown as PublicShareTable) || null
+  }
+
+  async create(data: InsertRow<PublicShareTable>) {
+    return insertOne<PublicShareTable>('public_shares', data)
+  }
+
+  async update(shareToken: string, data: UpdateRow<PublicShareTable>) {
+    await db.update('public_shares', data, { share_token: shareToken })
+  }
+
+  async delete(shareToken: string, userId: number) {
+    await db.delete('public_shares', { share_token: shareToken, user_id: userId })
+  }
+
+  async listByUser(userId: number, page: Pagination) {
+    const { data, error } = await db.client
+      .from('public_shares')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(page.offset, page.offset + page.limit - 1)
+
+    if (error) throw error
+    return (data || []) as PublicShareTable[]
+  }
+
+  async countByUser(userId: number) {
+    const { count, error } = await db.client
+      .from('public_shares')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return count || 0
+  }
+}
+
+class SupabaseSettingsRepository implements SettingsRepository {
+  async listPublic() {
+    const rows = await db.select('app_settings', '*', { is_public: true })
+    return (rows || []) as unknown as AppSettingTable[]
+  }
+
+  async get(key: string) {
+    const rows = await db.select('app_settings', '*', { key })
+    return (rows[0] as unknown as AppSettingTable) || null
+  }
+}
+
+export function createSupabaseRepositories(): Repositories {
+  return {
+    driver: 'supabase',
+    users: new SupabaseUserRepository(),
+    sessions: new SupabaseSessionRepository(),
+    photos: new SupabasePhotoRepository(),
+    filters: new SupabaseFilterRepository(),
+    photoFilters: new SupabasePhotoFilterRepository(),
+    photoEdits: new SupabasePhotoEditRepository(),
+    shares: new SupabaseShareRepository(),
+    settings: new SupabaseSettingsRepository()
+  }
+}
@@ -0,0 +1,123 @@
+import type {
+  UserTable,
+  UserSessionTable,
+  PhotoTable,
+  FilterCategoryTable,
+  FilterTable,
+  PhotoFilterTable,
+  PhotoEditTable,
+  PublicShareTable,
+  AppSettingTable
+} from '../../types/database'
+
+// Columns the database fills in (ids, defaults, timestamps) are optional on insert
+export type InsertRow<T> = Partial<Omit<T, 'id'>>
+export type UpdateRow<T> = Partial<Omit<T, 'id'>>
+
+export interface Pagination {
+  offset: number
+  limit: number
+}
+
+export interface UserRepository {
+  findById(id: number): Promise<UserTable | null>
+  findByDeviceId(deviceId: string): Promise<UserTable | null>
+  list(page: Pagination): Promise<UserTable[]>
+  create(data: InsertRow<UserTable>): Promise<UserTable>
+  update(id: number, data: UpdateRow<UserTable>): Promise<UserTable | null>
+  // Atomically add `bytes` to storage_used unless that would pass storage_quota
+  reserveStorage(id: number, bytes: number): Promise<boolean>
+  // Atomically add `delta` (negative to release) to storage_used, never going below zero
+  adjustStorageUsed(id: number, delta: number): Promise<void>
+}
+
+export interface SessionRepository {
+  findByToken(sessionToken: string, options?: { activeOnly?: boolean }): Promise<UserSessionTable | null>
+  create(data: InsertRow<UserSessionTable>): Promise<UserSessionTable>
+  deactivateForUser(userId: number): Promise<void>
+  deactivateByToken(sessionToken: string): Promise<void>
+}
+
+// Photo listings skip soft-deleted rows unless includeDeleted is set;
+// trashed returns only the soft-deleted ones
+export interface PhotoQuery {
+  favorite?: boolean
+  processed?: boolean
+  createdAfter?: string
+  includeDeleted?: boolean
+  trashed?: boolean
+}
+
+export interface PhotoRepository {
+  // Lookups by id ignore deleted_at; callers decide what a deleted row means
+  findById(id: number, userId?: number): Promise<PhotoTable | null>
+  // Rows come back in the order of `ids`; unknown ids are skipped
+  findByIds(ids: number[], userId?: number): Promise<PhotoTable[]>
+  listByUser(userId: number, page: Pagination, query?: PhotoQuery): Promise<PhotoTable[]>
+  countByUser(userId: number, query?: PhotoQuery): Promise<number>
+  // Every row of every user, trashed included, in id order (maintenance jobs)
+  listAll(page: Pagination): Promise<PhotoTable[]>
+  // Soft-deleted rows of every user whose deleted_at is older than `cutoff`, oldest first
+  listTrashedBefore(cutoff: string, limit: number): Promise<PhotoTable[]>
+  // Rows (trashed included) pointing at the same original object, e.g. filtered copies
+  countByOriginalPath(originalPath: string, excludeId?: number): Promise<number>
+  // Total file_size of a user's rows, trashed included, since their objects still take space
+  sumFileSizeByUser(userId: number): Promise<number>
+  create(data: InsertRow<PhotoTable>): Promise<PhotoTable>
+  update(id: number, data: UpdateRow<PhotoTable>): Promise<PhotoTable | null>
+  delete(id: number): Promise<void>
+}
+
+export interface FilterRepository {
+  listCategories(): Promise<FilterCategoryTable[]>
+  listActive(): Promise<FilterTable[]>
+  findActiveById(id: number): Promise<FilterTable | null>
+  listPopular(limit: number): Promise<FilterTable[]>
+  incrementUsage(id: number): Promise<void>
+  update(id: number, data: UpdateRow<FilterTable>): Promise<FilterTable | null>
+}
+
+export interface PhotoFilterRepository {
+  create(data: InsertRow<PhotoFilterTable>): Promise<PhotoFilterTable>
+  countByPhotoIds(photoIds: number[]): Promise<number>
+  // Oldest application first
+  listByPhotoIds(photoIds: number[]): Promise<PhotoFilterTable[]>
+  deleteByPhotoId(photoId: number): Promise<void>
+}
+
+export interface PhotoEditRepository {
+  // Oldest version first
+  listByPhoto(photoId: number): Promise<PhotoEditTable[]>
+  create(data: InsertRow<PhotoEditTable>): Promise<PhotoEditTable>
+  // Drop the redo history above `version`
+  deleteAfterVersion(photoId: number, version: number): Promise<void>
+  deleteByPhotoId(photoId: number): Promise<void>
+}
+
+export interface ShareRepository {
+  findByToken(shareToken: string, userId?: number): Promise<PublicShareTable | null>
+  create(data: InsertRow<PublicShareTable>): Promise<PublicShareTable>
+  update(shareToken: string, data: UpdateRow<PublicShareTable>): Promise<void>
+  delete(shareToken: string, userId: number): Promise<void>
+  listByUser(userId: number, page: Pagination): Promise<PublicShareTable[]>
+  countByUser(userId: number): Promise<number>
+}
+
+export interface SettingsRepository {
+  listPublic(): Promise<AppSettingTable[]>
+  get(key: string): Promise<AppSettingTable | null>
+}
+
+export interface Repositories {
+  readonly driver: string
+  users: UserRepository
+  sessions: SessionRepository
+  photos: PhotoRepository
+  filters: FilterRepository
+  photoFilters: PhotoFilterRepository
+  photoEdits: PhotoEditRepository
+  shares: ShareRepository
+  settings: SettingsRepository
+}
+
+export type DatabaseDriverName = 'supabase' | 'mysql' | 'sqlite' | 'memory'
@@ -53,10 +53,11 @@ INSERT IGNORE INTO filters (category_id, name, display_name, filter_type, parame
 -- Default app settings
 INSERT IGNORE INTO app_settings (`key`, value, data_type, description, is_public) VALUES
 ('max_file_size', '10485760', 'number', 'Maximum upload file size in bytes (10MB)', TRUE),
-('allowed_mime_types', '["image/jpeg", "image/png", "image/webp"]', 'json', 'Allowed image formats', TRUE),
+('allowed_mime_types', '["image/jpeg", "image/png", "image/webp", "image/gif", "image/tiff", "image/avif", "image/heic", "image/heif"]', 'json', 'Allowed image formats', TRUE),
 ('max_photos_per_user', '100', 'number', 'Maximum photos per user', TRUE),
 ('image_quality', '85', 'number', 'JPEG compression quality (1-100)', TRUE),
 ('thumbnail_size', '300', 'number', 'Thumbnail max dimension in pixels', TRUE),
 ('session_duration', '2592000', 'number', 'Session duration in seconds (30 days)', FALSE),
 ('enable_geolocation', 'false', 'boolean', 'Enable location capture', TRUE),
-('enable_analytics', 'false', 'boolean', 'Enable usage analytics', TRUE);
\ No newline at end of file
+('enable_analytics', 'false', 'boolean', 'Enable usage analytics', TRUE),
+('trash_retention_days', '30', 'number', 'Days a deleted photo stays in the trash before it is purged', TRUE);
\ No newline at end of file
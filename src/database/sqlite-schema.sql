@@ -0,0 +1,218 @@
+-- SQLite Schema for Classic Web Fotos
+-- Translated from the MySQL/Postgres migrations in migrations/. Booleans are 0/1 integers,
+-- JSON columns are TEXT and timestamps are ISO 8601 strings in UTC.
+
+PRAGMA foreign_keys = ON;
+
+-- Users table
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  device_id TEXT UNIQUE,
+  device_pin TEXT,
+  pin_set_at TEXT,
+  is_pin_required INTEGER NOT NULL DEFAULT 0,
+  preferences TEXT NOT NULL DEFAULT '{}',
+  storage_quota INTEGER NOT NULL DEFAULT 1073741824, -- 1GB in bytes
+  storage_used INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  is_active INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_is_active ON users(is_active);
+
+-- Filter categories
+CREATE TABLE IF NOT EXISTS filter_categories (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT UNIQUE NOT NULL,
+  display_name TEXT NOT NULL,
+  description TEXT,
+  icon TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_filter_categories_sort_order ON filter_categories(sort_order);
+CREATE INDEX IF NOT EXISTS idx_filter_categories_is_active ON filter_categories(is_active);
+
+-- Filters
+CREATE TABLE IF NOT EXISTS filters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  category_id INTEGER NOT NULL REFERENCES filter_categories(id) ON DELETE CASCADE,
+  name TEXT UNIQUE NOT NULL,
+  display_name TEXT NOT NULL,
+  description TEXT,
+  filter_type TEXT NOT NULL CHECK (filter_type IN ('paper', 'color', 'composite')),
+  parameters TEXT NOT NULL,
+  css_class TEXT,
+  preview_image TEXT,
+  texture_image TEXT,
+  lut_file TEXT,
+  processing_complexity TEXT NOT NULL DEFAULT 'low' CHECK (processing_complexity IN ('low', 'medium', 'high')),
+  is_premium INTEGER NOT NULL DEFAULT 0,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_filters_category_id ON filters(category_id);
+CREATE INDEX IF NOT EXISTS idx_filters_is_active ON filters(is_active);
+CREATE INDEX IF NOT EXISTS idx_filters_usage_count ON filters(usage_count);
+
+-- Photos
+CREATE TABLE IF NOT EXISTS photos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  filename TEXT UNIQUE NOT NULL,
+  original_filename TEXT,
+  display_name TEXT,
+  file_size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL DEFAULT 'image/jpeg',
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+
+  -- File paths
+  original_path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  processed_path TEXT,
+  variants TEXT, -- Resized WebP/AVIF copies, NULL until generated
+  edit_version INTEGER NOT NULL DEFAULT 0, -- Current photo_edits version, 0 = unedited
+
+  -- Metadata
+  camera_info TEXT NOT NULL DEFAULT '{}',
+  capture_settings TEXT NOT NULL DEFAULT '{}',
+  location_data TEXT NOT NULL DEFAULT '{}',
+  exif_data TEXT NOT NULL DEFAULT '{}',
+  captured_at TEXT, -- From EXIF; galleries sort on this, falling back to created_at
+
+  -- Processing status
+  processing_status TEXT NOT NULL DEFAULT 'pending' CHECK (processing_status IN ('pending', 'processing', 'completed', 'failed')),
+  processing_error TEXT,
+
+  -- User interaction
+  is_favorite INTEGER NOT NULL DEFAULT 0,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TEXT,
+
+  -- System fields
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  deleted_at TEXT -- Soft delete
+);
+
+CREATE INDEX IF NOT EXISTS idx_photos_deleted_at ON photos(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_photos_user_created ON photos(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_photos_user_favorite ON photos(user_id, is_favorite, created_at DESC);
+
+-- Photo filters (many-to-many)
+CREATE TABLE IF NOT EXISTS photo_filters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  photo_id INTEGER NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+  filter_id INTEGER NOT NULL REFERENCES filters(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0, -- Step within a filter stack
+  applied_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  processing_time_ms INTEGER,
+  filter_intensity REAL NOT NULL DEFAULT 1.00, -- 0.00 to 1.00
+  custom_parameters TEXT NOT NULL DEFAULT '{}',
+  result_file_path TEXT,
+  file_size INTEGER,
+
+  UNIQUE(photo_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_filters_filter_id ON photo_filters(filter_id);
+
+-- Edit history (non-destructive recipes)
+CREATE TABLE IF NOT EXISTS photo_edits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  photo_id INTEGER NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL, -- 0 is the photo as it was before the first edit
+  recipe TEXT NOT NULL, -- JSON filter steps and geometry, rendered from original_path
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+
+  UNIQUE(photo_id, version)
+);
+
+-- User sessions
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_token TEXT UNIQUE NOT NULL,
+  device_info TEXT NOT NULL DEFAULT '{}',
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  last_activity_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  expires_at TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  login_method TEXT NOT NULL DEFAULT 'anonymous',
+  security_flags TEXT NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active ON user_sessions(user_id, is_active);
+
+-- App settings
+CREATE TABLE IF NOT EXISTS app_settings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  key TEXT UNIQUE NOT NULL,
+  value TEXT NOT NULL,
+  data_type TEXT NOT NULL DEFAULT 'string' CHECK (data_type IN ('string', 'number', 'boolean', 'json')),
+  description TEXT,
+  is_public INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+-- Public shares
+CREATE TABLE IF NOT EXISTS public_shares (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  share_token TEXT UNIQUE NOT NULL,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  share_type TEXT NOT NULL CHECK (share_type IN ('single', 'batch')),
+  photo_ids TEXT NOT NULL, -- JSON array of photo IDs
+  title TEXT,
+  description TEXT,
+  download_type TEXT NOT NULL DEFAULT 'original', -- original, processed, thumbnail
+  metadata_privacy TEXT, -- Overrides the owner's metadataPrivacy preference when set
+  is_active INTEGER NOT NULL DEFAULT 1,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  download_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_public_shares_user_id ON public_shares(user_id, created_at DESC);
+
+-- Keep updated_at current unless the statement sets it explicitly
+CREATE TRIGGER IF NOT EXISTS update_users_updated_at AFTER UPDATE ON users
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE users SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS update_filters_updated_at AFTER UPDATE ON filters
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE filters SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS update_photos_updated_at AFTER UPDATE ON photos
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE photos SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS update_app_settings_updated_at AFTER UPDATE ON app_settings
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE app_settings SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS update_public_shares_updated_at AFTER UPDATE ON public_shares
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE public_shares SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
@@ -1,22 +1,33 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { readFileSync } from 'fs'
 import { join } from 'path'
+import { loadMigrations } from './migrations'
 
-const supabaseUrl = process.env.SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
-export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase environment variables. Please add SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to your .env file')
   }
-})
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+}
 
 class SupabaseManager {
-  private supabaseClient: SupabaseClient
+  private cachedClient: SupabaseClient | null = null
 
-  constructor() {
-    this.supabaseClient = supabase
+  // Created on first use so MySQL deployments never need Supabase credentials
+  private get supabaseClient(): SupabaseClient {
+    if (!this.cachedClient) {
+      this.cachedClient = createSupabaseClient()
+    }
+    return this.cachedClient
   }
 
   async testConnection(): Promise<boolean> {
@@ -49,8 +60,8 @@ class SupabaseManager {
         console.log('⚠️ Tables might not exist yet, proceeding with schema creation...')
       }
 
-      // Read and execute schema
-      const schemaSQL = readFileSync(join(import.meta.dir, 'supabase-schema.sql'), 'utf-8')
+      // Read the Postgres migrations in order (prefer `bun run migrate`, which tracks them)
+      const schemaSQL = loadMigrations('postgres').map(migration => migration.up).join('\n')
 
       // Split SQL into individual statements and execute them
       const statements = schemaSQL
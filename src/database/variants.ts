@@ -0,0 +1,62 @@
+import { getRepositories } from './repositories'
+import { DatabaseManager } from './connection'
+import { getVariantLadder, listPhotosForVariants, renderVariants } from '../utils/variants'
+
+const USAGE = `Usage: bun run variants [options]
+
+Renders the responsive WebP/AVIF variants of photos uploaded before variants
+existed, or whose background render failed. Widths and formats come from
+IMAGE_VARIANT_WIDTHS and IMAGE_VARIANT_FORMATS.
+
+Options:
+  --all            Re-render every photo, e.g. after changing the ladder
+  --photo <id>     Only this photo (repeatable)`
+
+async function main(argv: string[]) {
+  const args = [...argv]
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE)
+    return
+  }
+
+  const all = args.includes('--all')
+  const photoIds = args
+    .flatMap((arg, index) => arg === '--photo' ? [args[index + 1]] : [])
+    .map(Number)
+
+  if (photoIds.some(id => !Number.isInteger(id))) {
+    throw new Error('--photo needs a numeric photo id')
+  }
+
+  const { driver, photos } = getRepositories()
+
+  try {
+    const targets = photoIds.length > 0
+      ? (await photos.findByIds(photoIds)).filter(photo => !photo.deleted_at)
+      : await listPhotosForVariants({ all })
+
+    const { widths, formats } = getVariantLadder()
+    console.log(`Rendering ${targets.length} photo(s) at ${widths.join(', ')}px as ${formats.join(', ') || '(no formats)'}`)
+
+    let failed = 0
+    for (const photo of targets) {
+      try {
+        const variants = await renderVariants(photo.id)
+        console.log(`rendered  ${photo.id}  ${photo.filename}  ${variants?.length ?? 0} variant(s)`)
+      } catch (error) {
+        console.log(`failed    ${photo.id}  ${photo.filename}  ${error instanceof Error ? error.message : error}`)
+        failed++
+      }
+    }
+
+    console.log(`✅ ${targets.length - failed} photo(s) rendered, ${failed} failed`)
+  } finally {
+    if (driver === 'mysql') await DatabaseManager.close()
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error('❌ Variant rendering failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -3,7 +3,7 @@ import { cors } from '@elysiajs/cors'
 import { staticPlugin } from '@elysiajs/static'
 import { join } from 'path'
 import { existsSync } from 'fs'
-import { initializeDatabase, getAppSettings } from './database/supabase'
+import { getAppSettings } from './database/repositories'
 
 // Import all modules following Elysia best practices
 import { authModule } from './modules/auth'
@@ -12,10 +12,14 @@ import { filtersModule } from './modules/filters'
 import { downloadsModule } from './modules/downloads'
 import { statsModule } from './modules/stats'
 import { sharesModule, publicSharesModule } from './modules/shares'
+import { trashModule } from './modules/trash'
+import { texturesModule } from './modules/textures'
+import { editsModule } from './modules/edits'
+import { TrashService } from './modules/trash/service'
+import { FiltersService } from './modules/filters/service'
 import { uploadImage } from './utils/storage'
-
-// Database already initialized via Supabase dashboard
-console.log('✅ Using Supabase database (schema applied manually)')
+import { IMAGE_FORMATS, detectImageFormat } from './utils/formats'
+import { resolveLocalPath } from './storage'
 
 const app = new Elysia()
   .use(cors({
@@ -98,7 +102,7 @@ const app = new Elysia()
     data: await getAppSettings()
   }))
 
-  // Simple upload endpoint to Supabase
+  // Simple upload endpoint to the configured storage driver
   .post('/api/upload', async ({ body, set }) => {
     try {
       console.log('Upload request - body type:', typeof body, 'keys:', Object.keys(body || {}))
@@ -150,17 +154,16 @@ const app = new Elysia()
   // Serve static uploads files
   .get('/uploads/*', async ({ params, set }) => {
     try {
-      const filePath = `uploads/${params['*']}`;
-      const fullPath = join(process.cwd(), filePath);
+      const filePath = params['*'];
+      const fullPath = resolveLocalPath(filePath);
 
       console.log('Upload request:', {
         requestPath: params['*'],
-        filePath,
         fullPath,
-        exists: existsSync(fullPath)
+        exists: fullPath ? existsSync(fullPath) : false
       });
 
-      if (!existsSync(fullPath)) {
+      if (!fullPath || !existsSync(fullPath)) {
         set.status = 404;
         return { error: 'File not found' };
       }
@@ -187,6 +190,12 @@ const app = new Elysia()
           break;
       }
 
+      // Images go by their bytes instead, since a thumbnail can be a PNG named .jpg
+      const format = detectImageFormat(Buffer.from(await file.slice(0, 64).arrayBuffer()));
+      if (format) {
+        mimeType = IMAGE_FORMATS[format].mimeType;
+      }
+
       set.headers = {
         'Content-Type': mimeType,
         'Cache-Control': 'public, max-age=31536000'
@@ -241,6 +250,16 @@ const app = new Elysia()
         <span class="path">/api/auth/session</span>
         <div class="description">Destroy current session</div>
       </div>
+      <div class="endpoint">
+        <span class="method get">GET</span>
+        <span class="path">/api/auth/preferences</span>
+        <div class="description">Get user preferences (theme, metadata privacy...)</div>
+      </div>
+      <div class="endpoint">
+        <span class="method put">PUT</span>
+        <span class="path">/api/auth/preferences</span>
+        <div class="description">Update user preferences</div>
+      </div>
 
       <h2>Photo Management</h2>
       <div class="endpoint">
@@ -266,7 +285,7 @@ const app = new Elysia()
       <div class="endpoint">
         <span class="method delete">DELETE</span>
         <span class="path">/api/photos/:id</span>
-        <div class="description">Delete photo (soft delete)</div>
+        <div class="description">Delete photo (moves it to the trash)</div>
       </div>
       <div class="endpoint">
         <span class="method post">POST</span>
@@ -274,6 +293,65 @@ const app = new Elysia()
         <div class="description">Toggle photo favorite status</div>
       </div>
 
+      <h2>Edits</h2>
+      <div class="endpoint">
+        <span class="method get">GET</span>
+        <span class="path">/api/photos/:id/edits</span>
+        <div class="description">Get a photo's edit history</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/photos/:id/edits</span>
+        <div class="description">Save and render a new edit recipe</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/photos/:id/edits/geometry</span>
+        <div class="description">Crop, rotate, straighten or flip a photo</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/photos/:id/edits/undo</span>
+        <div class="description">Undo the last edit</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/photos/:id/edits/redo</span>
+        <div class="description">Redo an undone edit</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/photos/:id/edits/revert</span>
+        <div class="description">Revert to the original or any version</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/photos/:id/edits/render</span>
+        <div class="description">Re-render the current version</div>
+      </div>
+
+      <h2>Trash</h2>
+      <div class="endpoint">
+        <span class="method get">GET</span>
+        <span class="path">/api/trash</span>
+        <div class="description">List trashed photos with their purge dates</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/trash/:id/restore</span>
+        <div class="description">Restore a photo from the trash</div>
+      </div>
+      <div class="endpoint">
+        <span class="method delete">DELETE</span>
+        <span class="path">/api/trash/:id</span>
+        <div class="description">Permanently delete a trashed photo</div>
+      </div>
+      <div class="endpoint">
+        <span class="method delete">DELETE</span>
+        <span class="path">/api/trash</span>
+        <div class="description">Empty the trash</div>
+      </div>
+
       <h2>Filter Management</h2>
       <div class="endpoint">
         <span class="method get">GET</span>
@@ -290,11 +368,43 @@ const app = new Elysia()
         <span class="path">/api/filters/apply</span>
         <div class="description">Apply filter to existing photo</div>
       </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/filters/preview</span>
+        <div class="description">Render a cached, downscaled filter preview without saving it</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/filters/previews/refresh</span>
+        <div class="description">Regenerate catalog preview images for changed filters</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/filters/apply-stack</span>
+        <div class="description">Apply an ordered stack of filters in one pass</div>
+      </div>
       <div class="endpoint">
         <span class="method get">GET</span>
         <span class="path">/api/filters/popular</span>
         <div class="description">Get popular filters (most used)</div>
       </div>
+      <div class="endpoint">
+        <span class="method put">PUT</span>
+        <span class="path">/api/filters/:id/texture</span>
+        <div class="description">Bind a library texture to a filter</div>
+      </div>
+
+      <h2>Textures</h2>
+      <div class="endpoint">
+        <span class="method get">GET</span>
+        <span class="path">/api/textures</span>
+        <div class="description">List the texture library</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/textures</span>
+        <div class="description">Upload a texture to the library</div>
+      </div>
 
       <h2>Statistics</h2>
       <div class="endpoint">
@@ -319,6 +429,16 @@ const app = new Elysia()
         <span class="path">/api/downloads/batch</span>
         <div class="description">Batch download multiple photos as ZIP</div>
       </div>
+      <div class="endpoint">
+        <span class="method get">GET</span>
+        <span class="path">/api/downloads/library</span>
+        <div class="description">Export the whole library (files, metadata, filter history, shares) as ZIP</div>
+      </div>
+      <div class="endpoint">
+        <span class="method post">POST</span>
+        <span class="path">/api/downloads/library/import</span>
+        <div class="description">Import a library export into the current account</div>
+      </div>
       <div class="endpoint">
         <span class="method post">POST</span>
         <span class="path">/api/downloads/print-layout</span>
@@ -375,6 +495,9 @@ const app = new Elysia()
   .use(statsModule)
   .use(sharesModule)
   .use(publicSharesModule)
+  .use(trashModule)
+  .use(texturesModule)
+  .use(editsModule)
 
   // Explicit static file routes for production
   .get('/app.js', async ({ set }) => {
@@ -474,19 +597,48 @@ const app = new Elysia()
     }
   })
 
-  .listen(process.env.PORT || 3000)
-
-console.log(`🦊 Elysia is running at ${app.server?.hostname}:${app.server?.port}`)
-console.log(`📸 Classic Web Fotos API ready with all endpoints!`)
-console.log(`📚 API Documentation: http://localhost:3000/api/docs`)
-console.log(`🔍 Available endpoints (modular structure):`)
-console.log(`   • POST /api/auth/session - Authentication`)
-console.log(`   • POST /api/photos/upload - Photo upload`)
-console.log(`   • GET  /api/photos - Photo management`)
-console.log(`   • GET  /api/filters - Filter management`)
-console.log(`   • POST /api/filters/apply - Apply filters`)
-console.log(`   • GET  /api/stats/user - User statistics`)
-console.log(`   • POST /api/downloads/batch - Batch ZIP downloads`)
+// bun test sets NODE_ENV=test and drives the app through app.handle() instead
+if (process.env.NODE_ENV !== 'test') {
+  app.listen(process.env.PORT || 3000)
+
+  console.log(`🦊 Elysia is running at ${app.server?.hostname}:${app.server?.port}`)
+  console.log(`📸 Classic Web Fotos API ready with all endpoints!`)
+  console.log(`📚 API Documentation: http://localhost:3000/api/docs`)
+  console.log(`🔍 Available endpoints (modular structure):`)
+  console.log(`   • POST /api/auth/session - Authentication`)
+  console.log(`   • POST /api/photos/upload - Photo upload`)
+  console.log(`   • GET  /api/photos - Photo management`)
+  console.log(`   • GET  /api/filters - Filter management`)
+  console.log(`   • POST /api/filters/apply - Apply filters`)
+  console.log(`   • GET  /api/stats/user - User statistics`)
+  console.log(`   • POST /api/downloads/batch - Batch ZIP downloads`)
+
+  // Hard-delete photos whose trash retention period has run out
+  const purgeIntervalMinutes = Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60
+  const purgeTrash = async () => {
+    try {
+      const result = await TrashService.purgeExpired()
+      if (result.purgedCount > 0 || result.failedCount > 0) {
+        console.log(`🗑️  Trash purge: ${result.purgedCount} purged, ${result.failedCount} failed`)
+      }
+    } catch (error) {
+      console.error('Trash purge failed:', error)
+    }
+  }
+  purgeTrash()
+  setInterval(purgeTrash, purgeIntervalMinutes * 60 * 1000)
+
+  // Fill in missing catalog previews and redo those whose filter changed since they were rendered
+  FiltersService.refreshPreviews()
+    .then(report => {
+      if (report.generated.length > 0 || report.failed.length > 0) {
+        console.log(`🖼️  Filter previews: ${report.generated.length} generated, ${report.failed.length} failed`)
+      }
+    })
+    .catch(error => console.error('Filter preview refresh failed:', error))
+}
+
+export { app }
 
 // Export the app type for Eden Treaty
 export type App = typeof app
\ No newline at end of file
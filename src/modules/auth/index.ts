@@ -164,4 +164,82 @@ export const authModule = new Elysia({ prefix: '/api/auth' })
       401: 'errorResponse',
       500: 'errorResponse'
     }
+  })
+
+  // Get the current user's preferences
+  .get('/preferences', async ({ headers, set }) => {
+    try {
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'No token provided'
+          },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      return createSuccessResponse({
+        preferences: AuthService.formatPreferencesResponse(user.preferences)
+      }, 'Preferences retrieved successfully')
+
+    } catch (error) {
+      console.error('Get preferences error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'preferencesResponse',
+      401: 'errorResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Update the current user's preferences (only the keys sent change)
+  .put('/preferences', async ({ body, headers, set }) => {
+    try {
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'No token provided'
+          },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const preferences = await AuthService.updatePreferences(user.id, body)
+
+      return createSuccessResponse({
+        preferences: AuthService.formatPreferencesResponse(preferences)
+      }, 'Preferences updated successfully')
+
+    } catch (error) {
+      console.error('Update preferences error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'updatePreferencesBody',
+    response: {
+      200: 'preferencesResponse',
+      400: 'errorResponse',
+      401: 'errorResponse',
+      500: 'errorResponse'
+    }
   })
\ No newline at end of file
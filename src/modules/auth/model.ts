@@ -54,6 +54,29 @@ export const AuthModel = {
     timestamp: t.String()
   }),
 
+  updatePreferencesBody: t.Object({
+    theme: t.Optional(t.Nullable(t.Union([t.Literal('light'), t.Literal('dark')]))),
+    language: t.Optional(t.Nullable(t.Union([t.Literal('en'), t.Literal('id')]))),
+    autoSave: t.Optional(t.Nullable(t.Boolean())),
+    quality: t.Optional(t.Nullable(t.Union([t.Literal('normal'), t.Literal('high')]))),
+    // Metadata left in downloads and public share files
+    metadataPrivacy: t.Optional(t.Nullable(t.Union([
+      t.Literal('keep'),
+      t.Literal('strip_all'),
+      t.Literal('strip_gps'),
+      t.Literal('coarse_location')
+    ])))
+  }),
+
+  preferencesResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      preferences: t.Record(t.String(), t.Any())
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
   simpleResponse: t.Object({
     success: t.Boolean(),
     data: t.Object({
@@ -1,84 +1,71 @@
-import { db } from '../../database/supabase'
-import { createSuccessResponse } from '../../utils/errors'
+import { getRepositories } from '../../database/repositories'
+import { createSuccessResponse, Errors } from '../../utils/errors'
+import { isMetadataPrivacy, getMetadataPrivacy, METADATA_PRIVACY_MODES } from '../../utils/privacy'
+import type { JsonObject, UserTable } from '../../types/database'
 import bcrypt from 'bcryptjs'
 
 export abstract class AuthService {
   static async createOrGetUser(deviceId: string) {
-    // Check if user already exists
-    const existingUsers = await db.select('users', '*', { device_id: deviceId })
+    const { users } = getRepositories()
 
-    if (existingUsers && existingUsers.length > 0) {
-      const user = existingUsers[0] as any
+    // Check if user already exists
+    const existingUser = await users.findByDeviceId(deviceId)
 
+    if (existingUser) {
       // Update last updated timestamp
-      await db.update('users',
-        { updated_at: new Date().toISOString() },
-        { id: user.id }
-      )
+      await users.update(existingUser.id, { updated_at: new Date().toISOString() })
 
-      return user
+      return existingUser
     }
 
     // Create new user
-    const newUser = await db.insert('users', {
+    return users.create({
       device_id: deviceId,
       is_active: true,
       updated_at: new Date().toISOString()
     })
-
-    return newUser[0]
   }
 
   static async createSession(userId: number) {
     const sessionToken = crypto.randomUUID()
     const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
 
+    const { sessions } = getRepositories()
+
     // Deactivate old sessions
-    await db.update('user_sessions',
-      { is_active: false },
-      { user_id: userId, is_active: true }
-    )
+    await sessions.deactivateForUser(userId)
 
     // Create new session
-    const newSession = await db.insert('user_sessions', {
+    return sessions.create({
       user_id: userId,
       session_token: sessionToken,
       is_active: true,
       expires_at: expiresAt.toISOString()
     })
-
-    return newSession[0]
   }
 
   static async validateSession(sessionToken: string) {
     console.log('Validating session token:', sessionToken)
 
-    const sessions = await db.select('user_sessions', '*', {
-      session_token: sessionToken,
-      is_active: true
-    })
+    const repositories = getRepositories()
+    const session = await repositories.sessions.findByToken(sessionToken, { activeOnly: true })
 
-    console.log('Found sessions:', sessions?.length || 0)
+    console.log('Found session:', !!session)
 
-    if (!sessions || sessions.length === 0) {
+    if (!session) {
       // Let's check if the session exists but is inactive
-      const allSessions = await db.select('user_sessions', '*', {
-        session_token: sessionToken
-      })
-      console.log('All sessions with this token (including inactive):', allSessions?.length || 0, allSessions)
+      const inactiveSession = await repositories.sessions.findByToken(sessionToken)
+      console.log('Session with this token (including inactive):', inactiveSession)
       throw new Error('Invalid session')
     }
 
-    const session = sessions[0] as any
-
     // Check if session is expired
     if (session.expires_at && new Date(session.expires_at) < new Date()) {
       throw new Error('Session expired')
     }
 
     // Get user info
-    const users = await db.select('users', '*', { id: session.user_id })
-    const user = users[0] as any
+    const user = await repositories.users.findById(session.user_id)
 
     if (!user || !user.is_active) {
       throw new Error('User not found or inactive')
@@ -87,11 +74,61 @@ export abstract class AuthService {
     return { user, session }
   }
 
+  // Devices listed in ADMIN_DEVICE_IDS (comma separated) may change what every
+  // user shares: filters, the texture library and catalog previews
+  static isAdmin(user: Pick<UserTable, 'device_id'>) {
+    const adminDeviceIds = (process.env.ADMIN_DEVICE_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+
+    return Boolean(user.device_id) && adminDeviceIds.includes(user.device_id!)
+  }
+
+  static async validateAdminSession(sessionToken: string) {
+    const result = await AuthService.validateSession(sessionToken)
+
+    if (!AuthService.isAdmin(result.user)) {
+      throw Errors.Forbidden()
+    }
+
+    return result
+  }
+
   static async destroySession(sessionToken: string) {
-    await db.update('user_sessions',
-      { is_active: false },
-      { session_token: sessionToken }
-    )
+    await getRepositories().sessions.deactivateByToken(sessionToken)
+  }
+
+  // Merge `changes` into the user's stored preferences; null removes a key
+  static async updatePreferences(userId: number, changes: JsonObject) {
+    const { users } = getRepositories()
+    const user = await users.findById(userId)
+
+    if (!user) {
+      throw new Error('User not found or inactive')
+    }
+
+    if (changes.metadataPrivacy != null && !isMetadataPrivacy(changes.metadataPrivacy)) {
+      throw Errors.InvalidParameters(`metadataPrivacy must be one of ${METADATA_PRIVACY_MODES.join(', ')}`)
+    }
+
+    const preferences: JsonObject = { ...(user.preferences || {}) }
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) delete preferences[key]
+      else if (value !== undefined) preferences[key] = value
+    }
+
+    await users.update(userId, { preferences })
+
+    return preferences
+  }
+
+  static formatPreferencesResponse(preferences: JsonObject | null | undefined) {
+    return {
+      ...(preferences || {}),
+      // Always present so clients can show the effective setting
+      metadataPrivacy: getMetadataPrivacy(preferences)
+    }
   }
 
   static formatUserResponse(user: any) {
@@ -125,19 +162,26 @@ export abstract class AuthService {
   static async setPinForDevice(deviceId: string, pin: string) {
     const hashedPin = await this.hashPin(pin)
 
-    await db.update('users', {
+    const { users } = getRepositories()
+    const user = await users.findByDeviceId(deviceId)
+
+    if (!user) {
+      throw new Error('Device not found')
+    }
+
+    await users.update(user.id, {
       device_pin: hashedPin,
       pin_set_at: new Date().toISOString(),
       is_pin_required: true
-    }, { device_id: deviceId })
+    })
 
     return { success: true }
   }
 
   static async checkDevicePinStatus(deviceId: string) {
-    const users = await db.select('users', '*', { device_id: deviceId })
+    const user = await getRepositories().users.findByDeviceId(deviceId)
 
-    if (!users || users.length === 0) {
+    if (!user) {
       return {
         exists: false,
         hasPinSet: false,
@@ -145,7 +189,6 @@ export abstract class AuthService {
       }
     }
 
-    const user = users[0] as any
     return {
       exists: true,
       hasPinSet: !!user.device_pin,
@@ -155,14 +198,12 @@ export abstract class AuthService {
   }
 
   static async verifyDevicePin(deviceId: string, pin: string) {
-    const users = await db.select('users', '*', { device_id: deviceId })
+    const user = await getRepositories().users.findByDeviceId(deviceId)
 
-    if (!users || users.length === 0) {
+    if (!user) {
       throw new Error('Device not found')
     }
 
-    const user = users[0] as any
-
     if (!user.device_pin) {
       throw new Error('PIN not set for this device')
     }
@@ -177,11 +218,12 @@ export abstract class AuthService {
   }
 
   static async createOrGetUserWithPin(deviceId: string, pin?: string) {
+    const { users } = getRepositories()
     const pinStatus = await this.checkDevicePinStatus(deviceId)
 
     // If device doesn't exist, create it but require PIN setup
     if (!pinStatus.exists) {
-      const newUser = await db.insert('users', {
+      const newUser = await users.create({
         device_id: deviceId,
         is_active: true,
         is_pin_required: true,
@@ -189,7 +231,7 @@ export abstract class AuthService {
       })
 
       return {
-        user: newUser[0],
+        user: newUser,
         requiresPinSetup: true,
         requiresPinVerification: false
       }
@@ -197,9 +239,9 @@ export abstract class AuthService {
 
     // If device exists but no PIN set, require PIN setup
     if (!pinStatus.hasPinSet) {
-      const user = await db.select('users', '*', { device_id: deviceId })
+      const user = await users.findByDeviceId(deviceId)
       return {
-        user: user[0],
+        user: user!,
         requiresPinSetup: true,
         requiresPinVerification: false
       }
@@ -207,9 +249,9 @@ export abstract class AuthService {
 
     // If device has PIN, require verification
     if (pinStatus.requiresPin && !pin) {
-      const user = await db.select('users', '*', { device_id: deviceId })
+      const user = await users.findByDeviceId(deviceId)
       return {
-        user: user[0],
+        user: user!,
         requiresPinSetup: false,
         requiresPinVerification: true
       }
@@ -220,10 +262,7 @@ export abstract class AuthService {
       const { user } = await this.verifyDevicePin(deviceId, pin)
 
       // Update last updated timestamp
-      await db.update('users',
-        { updated_at: new Date().toISOString() },
-        { id: user.id }
-      )
+      await users.update(user.id, { updated_at: new Date().toISOString() })
 
       return {
         user,
@@ -3,6 +3,7 @@ import { DownloadsService } from './service'
 import { DownloadsModel } from './model'
 import { AuthService } from '../auth/service'
 import { createSuccessResponse, handleError } from '../../utils/errors'
+import { getMetadataPrivacy } from '../../utils/privacy'
 
 // Authentication plugin for downloads module
 const authPlugin = new Elysia({ name: 'downloads.auth' })
@@ -69,8 +70,8 @@ export const downloadsModule = new Elysia({ prefix: '/api/downloads' })
 
       const { photo, downloadUrl } = await DownloadsService.getPhotoForDownload(photoId, userId, type)
 
-      // Download the file from storage
-      const imageBuffer = await DownloadsService.downloadPhotoFromStorage(downloadUrl)
+      // Download the file from storage, with metadata handled per the user's privacy preference
+      const imageBuffer = await DownloadsService.downloadPhotoFromStorage(downloadUrl, getMetadataPrivacy(user.preferences))
 
       // Set appropriate headers
       set.headers = {
@@ -189,7 +190,7 @@ export const downloadsModule = new Elysia({ prefix: '/api/downloads' })
       }
 
       // Create ZIP file
-      const zipBuffer = await DownloadsService.createZipFromPhotos(validPhotos, type)
+      const zipBuffer = await DownloadsService.createZipFromPhotos(validPhotos, type, getMetadataPrivacy(user.preferences))
 
       // Set appropriate headers for ZIP download
       const zipFilename = DownloadsService.getZipFilename()
@@ -217,6 +218,89 @@ export const downloadsModule = new Elysia({ prefix: '/api/downloads' })
     }
   })
 
+  // Export the whole library (files, metadata, filter history, shares) as a ZIP
+  .get('/library', async ({ headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const zipBuffer = await DownloadsService.exportLibrary(user.id)
+      const zipFilename = DownloadsService.getZipFilename('classic-web-fotos-library')
+
+      set.headers = {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${zipFilename}"`,
+        'Content-Length': zipBuffer.byteLength.toString()
+      }
+
+      return new Response(zipBuffer)
+
+    } catch (error) {
+      console.error('Library export error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  })
+
+  // Import a library export into the current account
+  .post('/library/import', async ({ body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const file = (body as any)?.file
+      if (!file || typeof file.arrayBuffer !== 'function') {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'No archive file provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const result = await DownloadsService.importLibrary(user.id, await file.arrayBuffer())
+
+      set.status = 201
+      return createSuccessResponse(result, `Imported ${result.importedPhotos} photo${result.importedPhotos === 1 ? '' : 's'}`)
+
+    } catch (error) {
+      console.error('Library import error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      201: 'libraryImportResponse',
+      400: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
   // Create print layout PDF
   .post('/print-layout', async ({ body, headers, set }) => {
     console.log('🚀 PRINT LAYOUT ENDPOINT CALLED!')
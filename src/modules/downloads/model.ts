@@ -38,6 +38,19 @@ export const DownloadsModel = {
     format: t.Optional(t.Literal('zip'))
   }),
 
+  libraryImportResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      importedPhotos: t.Number(),
+      skippedPhotos: t.Number(),
+      importedFilters: t.Number(),
+      skippedFilters: t.Number(),
+      importedShares: t.Number()
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
   errorResponse: t.Object({
     success: t.Boolean(),
     error: t.Object({
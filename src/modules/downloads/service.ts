@@ -1,19 +1,105 @@
-import { db } from '../../database/supabase'
+import type JSZip from 'jszip'
+import { getRepositories } from '../../database/repositories'
+import { downloadImage, uploadImage, type ImageType } from '../../utils/storage'
+import { reserveStorage, adjustStorage } from '../../utils/quota'
+import { Errors } from '../../utils/errors'
+import { getStorageDriver } from '../../storage'
+import { SharesService } from '../shares/service'
+import { applyMetadataPrivacy, isMetadataPrivacy, type MetadataPrivacy } from '../../utils/privacy'
+import { loadWorkingImage } from '../../utils/colorspace'
+import { scheduleVariants } from '../../utils/variants'
+import { IMAGE_FORMATS, normalizeUpload, type ImageFormat } from '../../utils/formats'
+import { PhotosService } from '../photos/service'
+import type { JsonObject, PhotoTable, PublicShareTable } from '../../types/database'
+
+const LIBRARY_FORMAT = 'classic-web-fotos-library'
+const LIBRARY_VERSION = 1
+
+// Archive-relative paths of a photo's files inside a library export
+interface LibraryPhotoFiles {
+  original: string | null
+  thumbnail: string | null
+  processed: string | null
+}
+
+interface LibraryFilterEntry {
+  filterId: number
+  filterName: string | null
+  // Step within the filter stack that produced the photo
+  position: number
+  appliedAt: string
+  intensity: number
+  customParameters: JsonObject
+  processingTimeMs: number | null
+}
+
+interface LibraryPhotoEntry {
+  id: number
+  filename: string
+  originalFilename: string | null
+  displayName: string | null
+  fileSize: number
+  mimeType: string
+  width: number
+  height: number
+  cameraInfo: JsonObject
+  captureSettings: JsonObject
+  locationData: JsonObject
+  exifData: JsonObject
+  capturedAt?: string | null
+  isFavorite: boolean
+  viewCount: number
+  createdAt: string
+  files: LibraryPhotoFiles
+  filters: LibraryFilterEntry[]
+}
+
+interface LibraryShareEntry {
+  photoIds: number[]
+  title: string | null
+  description: string | null
+  downloadType: 'original' | 'processed' | 'thumbnail'
+  metadataPrivacy?: PublicShareTable['metadata_privacy']
+  isActive: boolean
+  expiresAt: string | null
+  createdAt: string
+}
+
+// manifest.json at the root of a library export. Photo ids are the exporting
+// instance's ids and only serve to link photos, filter history and shares.
+export interface LibraryManifest {
+  format: typeof LIBRARY_FORMAT
+  version: number
+  exportedAt: string
+  photos: LibraryPhotoEntry[]
+  shares: LibraryShareEntry[]
+}
+
+// Uncompressed size of an archive file, counted by streaming it through the
+// decompressor so only one chunk at a time is held in memory. The header's size
+// field isn't trusted: it's whatever the archive claims.
+function zipEntrySize(zip: JSZip, path: string | null | undefined): Promise<number> {
+  const file = path ? zip.file(path) : null
+  if (!file) return Promise.resolve(0)
+
+  return new Promise((resolve, reject) => {
+    let size = 0
+    file.nodeStream()
+      .on('data', (chunk: Buffer) => { size += chunk.length })
+      .on('end', () => resolve(size))
+      .on('error', reject)
+  })
+}
 
 export abstract class DownloadsService {
   static async getPhotoForDownload(photoId: number, userId: number, type: 'original' | 'processed' | 'thumbnail') {
     // Get photo info
-    const photos = await db.select('photos', '*', {
-      id: photoId,
-      user_id: userId
-    })
+    const photo = await getRepositories().photos.findById(photoId, userId)
 
-    if (!photos || photos.length === 0) {
+    if (!photo || photo.deleted_at) {
       throw new Error('Photo not found')
     }
 
-    const photo = photos[0] as any
-
     // Get the appropriate URL based on type
     let downloadUrl: string
     switch (type) {
@@ -38,31 +124,19 @@ export abstract class DownloadsService {
   }
 
   static async getPhotosForBatchDownload(photoIds: number[], userId: number) {
-    const photos = await Promise.all(
-      photoIds.map(async (id) => {
-        const result = await db.select('photos', '*', {
-          id,
-          user_id: userId
-        })
-        return result?.[0]
-      })
-    )
-
-    return photos.filter(photo => photo) as any[]
+    const photos = await getRepositories().photos.findByIds(photoIds, userId)
+    return photos.filter(photo => !photo.deleted_at)
   }
 
-  static async downloadPhotoFromStorage(url: string) {
-    const imageResponse = await fetch(url)
-    if (!imageResponse.ok) {
-      throw new Error('File not found in storage')
-    }
-
-    return imageResponse.arrayBuffer()
+  // `privacy` strips or coarsens the embedded metadata of the copy being served
+  static async downloadPhotoFromStorage(url: string, privacy: MetadataPrivacy = 'keep') {
+    return applyMetadataPrivacy(await downloadImage(url), privacy)
   }
 
   static async createZipFromPhotos(
     photos: any[],
-    type: 'original' | 'processed' | 'thumbnail' = 'original'
+    type: 'original' | 'processed' | 'thumbnail' = 'original',
+    privacy: MetadataPrivacy = 'keep'
   ) {
     // Import JSZip dynamically
     const JSZip = (await import('jszip')).default
@@ -92,8 +166,8 @@ export abstract class DownloadsService {
           continue
         }
 
-        // Fetch the image from Supabase
-        const imageBuffer = await DownloadsService.downloadPhotoFromStorage(downloadUrl)
+        // Fetch the image from storage
+        const imageBuffer = await DownloadsService.downloadPhotoFromStorage(downloadUrl, privacy)
 
         // Add to ZIP with original filename
         zip.file(photo.filename, imageBuffer)
@@ -104,21 +178,337 @@ export abstract class DownloadsService {
       }
     }
 
-    // Generate ZIP file
-    const zipBuffer = await zip.generateAsync({
+    return DownloadsService.generateZip(zip)
+  }
+
+  static async generateZip(zip: JSZip) {
+    return zip.generateAsync({
       type: 'arraybuffer',
       compression: 'DEFLATE',
       compressionOptions: {
         level: 6
       }
     })
-
-    return zipBuffer
   }
 
-  static getZipFilename() {
+  static getZipFilename(prefix: string = 'classic-web-fotos') {
     const timestamp = new Date().toISOString().slice(0, 10)
-    return `classic-web-fotos-${timestamp}.zip`
+    return `${prefix}-${timestamp}.zip`
+  }
+
+  // Archive the user's whole library (trash excluded): every stored file once,
+  // under its storage key, plus a manifest tying photos, filter history and shares together
+  static async exportLibrary(userId: number) {
+    const JSZip = (await import('jszip')).default
+    const zip = new JSZip()
+    const repositories = getRepositories()
+    const driver = getStorageDriver()
+    const pageSize = 500
+
+    const photos: PhotoTable[] = []
+    for (let offset = 0; ; offset += pageSize) {
+      const batch = await repositories.photos.listByUser(userId, { offset, limit: pageSize })
+      photos.push(...batch)
+      if (batch.length < pageSize) break
+    }
+    // Sources before the filtered copies made from them
+    photos.sort((a, b) => a.id - b.id)
+
+    // Filtered copies share their source's original, so files are keyed by URL
+    const archivePaths = new Map<string, string>()
+    const addFile = async (url: string | null) => {
+      if (!url) return null
+
+      const existing = archivePaths.get(url)
+      if (existing) return existing
+
+      const key = driver.keyFromUrl(url)
+      const path = key || `external/${archivePaths.size}-${url.split('/').pop()?.split('?')[0] || 'file'}`
+
+      try {
+        zip.file(path, await DownloadsService.downloadPhotoFromStorage(url))
+      } catch (error) {
+        console.warn(`Skipping missing file ${url} in library export:`, error)
+        return null
+      }
+
+      archivePaths.set(url, path)
+      return path
+    }
+
+    const filterNames = new Map((await repositories.filters.listActive()).map(filter => [filter.id, filter.name]))
+    const history = new Map<number, LibraryFilterEntry[]>()
+    for (let index = 0; index < photos.length; index += pageSize) {
+      const ids = photos.slice(index, index + pageSize).map(photo => photo.id)
+      for (const row of await repositories.photoFilters.listByPhotoIds(ids)) {
+        history.set(row.photo_id, [...(history.get(row.photo_id) || []), {
+          filterId: row.filter_id,
+          filterName: filterNames.get(row.filter_id) || null,
+          position: row.position,
+          appliedAt: row.applied_at,
+          intensity: row.filter_intensity,
+          customParameters: row.custom_parameters,
+          processingTimeMs: row.processing_time_ms
+        }])
+      }
+    }
+
+    const entries: LibraryPhotoEntry[] = []
+    for (const photo of photos) {
+      entries.push({
+        id: photo.id,
+        filename: photo.filename,
+        originalFilename: photo.original_filename,
+        displayName: photo.display_name,
+        fileSize: photo.file_size,
+        mimeType: photo.mime_type,
+        width: photo.width,
+        height: photo.height,
+        cameraInfo: photo.camera_info,
+        captureSettings: photo.capture_settings,
+        locationData: photo.location_data,
+        exifData: photo.exif_data,
+        capturedAt: photo.captured_at,
+        isFavorite: photo.is_favorite,
+        viewCount: photo.view_count,
+        createdAt: photo.created_at,
+        files: {
+          original: await addFile(photo.original_path),
+          thumbnail: await addFile(photo.thumbnail_path),
+          processed: await addFile(photo.processed_path)
+        },
+        filters: history.get(photo.id) || []
+      })
+    }
+
+    const exportedIds = new Set(photos.map(photo => photo.id))
+    const shares: LibraryShareEntry[] = []
+    for (let offset = 0; ; offset += pageSize) {
+      const batch = await repositories.shares.listByUser(userId, { offset, limit: pageSize })
+
+      for (const share of batch) {
+        const photoIds = share.photo_ids.filter(id => exportedIds.has(id))
+        if (photoIds.length === 0) continue
+
+        shares.push({
+          photoIds,
+          title: share.title,
+          description: share.description,
+          downloadType: share.download_type,
+          metadataPrivacy: share.metadata_privacy,
+          isActive: share.is_active,
+          expiresAt: share.expires_at,
+          createdAt: share.created_at
+        })
+      }
+
+      if (batch.length < pageSize) break
+    }
+
+    const manifest: LibraryManifest = {
+      format: LIBRARY_FORMAT,
+      version: LIBRARY_VERSION,
+      exportedAt: new Date().toISOString(),
+      photos: entries,
+      shares
+    }
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2))
+
+    return DownloadsService.generateZip(zip)
+  }
+
+  // Recreate a library export under `userId`. Files get new storage keys, filters are
+  // matched by name and shares get fresh tokens, so archives move between instances.
+  static async importLibrary(userId: number, archive: ArrayBuffer | Uint8Array) {
+    const JSZip = (await import('jszip')).default
+    const repositories = getRepositories()
+
+    let zip: JSZip
+    try {
+      zip = await JSZip.loadAsync(archive)
+    } catch {
+      throw Errors.InvalidParameters('Library archive is not a valid ZIP file')
+    }
+
+    const manifestFile = zip.file('manifest.json')
+    if (!manifestFile) {
+      throw Errors.InvalidParameters('Library archive has no manifest.json')
+    }
+
+    let manifest: LibraryManifest
+    try {
+      manifest = JSON.parse(await manifestFile.async('string'))
+    } catch {
+      throw Errors.InvalidParameters('Library manifest is not valid JSON')
+    }
+
+    if (manifest?.format !== LIBRARY_FORMAT || !Array.isArray(manifest.photos)) {
+      throw Errors.InvalidParameters('Not a Classic Web Fotos library archive')
+    }
+    if (manifest.version > LIBRARY_VERSION) {
+      throw Errors.InvalidParameters(`Library archive version ${manifest.version} is newer than this server supports`)
+    }
+
+    // Reserve the quota up front from the archive's own (uncompressed) file sizes, never
+    // the manifest's, charging each photo for the file its row will own. A file that
+    // turns out bigger has to reserve the difference before it's counted.
+    const claims: number[] = []
+    for (const entry of manifest.photos) {
+      claims.push(await zipEntrySize(zip, entry.files?.processed) || await zipEntrySize(zip, entry.files?.original))
+    }
+    let reserved = claims.reduce((total, size) => total + size, 0)
+    await reserveStorage(userId, reserved)
+
+    const filterIds = new Map((await repositories.filters.listActive()).map(filter => [filter.name, filter.id]))
+    const uploaded = new Map<string, { url: string; size: number; format: ImageFormat }>()
+    const photoIds = new Map<number, number>()
+    const stamp = Date.now()
+    let storedBytes = 0
+    let skippedPhotos = 0
+    let importedFilters = 0
+    let skippedFilters = 0
+    let importedShares = 0
+
+    try {
+      for (const [index, entry] of manifest.photos.entries()) {
+        try {
+          // The index keeps entries apart whose names sanitize to the same stem
+          const stem = `${stamp}-${index}-${String(entry.filename).replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9.-]/g, '_') || 'photo'}`
+
+          // Originals get the same checks and normalization as an upload, so the bytes
+          // decide the format; the other files only have to be allowed images. Without
+          // a `filename`, the name takes the extension of the stored format.
+          const restore = async (path: string | null | undefined, type: ImageType, filename?: string) => {
+            if (!path) return null
+
+            const cached = uploaded.get(path)
+            if (cached) return cached
+
+            const file = zip.file(path)
+            if (!file) return null
+
+            const raw = Buffer.from(await file.async('uint8array'))
+            const detected = await PhotosService.detectAllowedFormat(raw)
+            const { data, format } = type === 'original' ? await normalizeUpload(raw) : { data: raw, format: detected }
+
+            const result = await uploadImage(data, filename || `${stem}.${IMAGE_FORMATS[format].extension}`, type)
+            if (!result.success || !result.url) {
+              throw new Error(`Failed to store ${path}`)
+            }
+
+            const stored = { url: result.url, size: data.length, format }
+            uploaded.set(path, stored)
+            return stored
+          }
+
+          const original = await restore(entry.files?.original, 'original')
+          if (!original) {
+            console.warn(`Skipping photo ${entry.id} in library import: original file missing`)
+            skippedPhotos++
+            continue
+          }
+
+          const filename = `${stem}.${IMAGE_FORMATS[original.format].extension}`
+          const thumbnail = await restore(entry.files?.thumbnail, 'thumbnail', filename)
+          const processed = await restore(entry.files?.processed, 'processed', filename)
+
+          // Same accounting as uploads and filter applies: a row owns its processed file when it has one
+          const fileSize = (processed || original).size
+          const overrun = fileSize - (claims[index] ?? 0)
+          if (overrun > 0) {
+            await reserveStorage(userId, overrun)
+            reserved += overrun
+          }
+
+          const photo = await repositories.photos.create({
+            user_id: userId,
+            filename,
+            original_filename: entry.originalFilename,
+            display_name: entry.displayName,
+            file_size: fileSize,
+            mime_type: IMAGE_FORMATS[original.format].mimeType,
+            width: Number(entry.width) || 0,
+            height: Number(entry.height) || 0,
+            original_path: original.url,
+            thumbnail_path: thumbnail?.url || original.url,
+            processed_path: processed?.url || null,
+            camera_info: entry.cameraInfo || {},
+            capture_settings: entry.captureSettings || {},
+            location_data: entry.locationData || {},
+            exif_data: entry.exifData || {},
+            captured_at: entry.capturedAt || null,
+            processing_status: 'completed',
+            is_favorite: Boolean(entry.isFavorite),
+            view_count: Number(entry.viewCount) || 0,
+            created_at: entry.createdAt
+          })
+
+          photoIds.set(entry.id, photo.id)
+          storedBytes += fileSize
+          scheduleVariants(photo.id)
+
+          // Steps are listed in stack order; renumber them so skipped ones leave no gaps
+          let position = 0
+          for (const applied of entry.filters || []) {
+            const filterId = applied.filterName ? filterIds.get(applied.filterName) : undefined
+            if (!filterId) {
+              skippedFilters++
+              continue
+            }
+
+            await repositories.photoFilters.create({
+              photo_id: photo.id,
+              filter_id: filterId,
+              position: position++,
+              applied_at: applied.appliedAt,
+              processing_time_ms: applied.processingTimeMs,
+              filter_intensity: applied.intensity,
+              custom_parameters: applied.customParameters || {}
+            })
+            importedFilters++
+          }
+        } catch (error) {
+          console.warn(`Skipping photo ${entry.id} in library import:`, error)
+          skippedPhotos++
+        }
+      }
+
+      for (const share of manifest.shares || []) {
+        const sharePhotoIds = (share.photoIds || [])
+          .map(id => photoIds.get(id))
+          .filter((id): id is number => id !== undefined)
+        if (sharePhotoIds.length === 0) continue
+
+        let shareToken = SharesService.generateShareToken()
+        while (await repositories.shares.findByToken(shareToken)) {
+          shareToken = SharesService.generateShareToken()
+        }
+
+        await repositories.shares.create({
+          share_token: shareToken,
+          user_id: userId,
+          share_type: sharePhotoIds.length === 1 ? 'single' : 'batch',
+          photo_ids: sharePhotoIds,
+          title: share.title,
+          description: share.description,
+          download_type: share.downloadType || 'original',
+          metadata_privacy: isMetadataPrivacy(share.metadataPrivacy) ? share.metadataPrivacy : null,
+          is_active: share.isActive !== false,
+          expires_at: share.expiresAt
+        })
+        importedShares++
+      }
+    } finally {
+      await adjustStorage(userId, storedBytes - reserved)
+    }
+
+    return {
+      importedPhotos: photoIds.size,
+      skippedPhotos,
+      importedFilters,
+      skippedFilters,
+      importedShares
+    }
   }
 
   static formatPhotoInfoResponse(photo: any) {
@@ -228,24 +618,23 @@ export abstract class DownloadsService {
           // Fetch the image
           const imageBuffer = await DownloadsService.downloadPhotoFromStorage(photoUrl)
 
-          // Embed the image in PDF
+          // Embed the image in PDF. PDF viewers ignore EXIF orientation and ICC
+          // profiles, so pages get an upright sRGB JPEG on white.
           let image
           try {
-            // Try as JPEG first
-            image = await pdfDoc.embedJpg(imageBuffer)
+            const pageImage = await loadWorkingImage(imageBuffer)
+              .flatten({ background: '#ffffff' })
+              .jpeg({ quality: 95 })
+              .toBuffer()
+            image = await pdfDoc.embedJpg(pageImage)
           } catch {
-            try {
-              // Try as PNG
-              image = await pdfDoc.embedPng(imageBuffer)
-            } catch {
-              console.warn(`Could not embed image ${photo.filename}`)
-              return {
-                isPlaceholder: true,
-                x: margin + (col * (photoWidth + 10)),
-                y: pageSize.height - margin - ((row + 1) * (photoHeight + 10)),
-                width: photoWidth,
-                height: photoHeight
-              }
+            console.warn(`Could not embed image ${photo.filename}`)
+            return {
+              isPlaceholder: true,
+              x: margin + (col * (photoWidth + 10)),
+              y: pageSize.height - margin - ((row + 1) * (photoHeight + 10)),
+              width: photoWidth,
+              height: photoHeight
             }
           }
 
@@ -0,0 +1,335 @@
+import { Elysia } from 'elysia'
+import { EditsService } from './service'
+import { EditsModel } from './model'
+import { AuthService } from '../auth/service'
+import { createSuccessResponse, handleError } from '../../utils/errors'
+
+// Non-destructive edits live under the photo they belong to
+export const editsModule = new Elysia({ prefix: '/api/photos' })
+  .model(EditsModel)
+
+  // Edit history of a photo
+  .get('/:id/edits', async ({ params, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.getHistory(photoId, user.id)
+      return createSuccessResponse(history, 'Edit history retrieved successfully')
+
+    } catch (error) {
+      console.error('Get edit history error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Save a new recipe as the current version and render it
+  .post('/:id/edits', async ({ params, body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.saveEdit(photoId, user.id, body)
+      set.status = 201
+      return createSuccessResponse(history, 'Edit saved successfully')
+
+    } catch (error) {
+      console.error('Save edit error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'saveEditBody',
+    response: {
+      201: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Crop, rotate, straighten or flip the current version as a new version
+  .post('/:id/edits/geometry', async ({ params, body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.saveGeometry(photoId, user.id, body.geometry)
+      set.status = 201
+      return createSuccessResponse(history, 'Geometry saved successfully')
+
+    } catch (error) {
+      console.error('Save geometry error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'saveGeometryBody',
+    response: {
+      201: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Step back one version
+  .post('/:id/edits/undo', async ({ params, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.undo(photoId, user.id)
+      return createSuccessResponse(history, 'Edit undone successfully')
+
+    } catch (error) {
+      console.error('Undo edit error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Step forward one version
+  .post('/:id/edits/redo', async ({ params, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.redo(photoId, user.id)
+      return createSuccessResponse(history, 'Edit redone successfully')
+
+    } catch (error) {
+      console.error('Redo edit error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Jump to a version, the unedited photo (0) by default
+  .post('/:id/edits/revert', async ({ params, body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.revert(photoId, user.id, body?.version)
+      return createSuccessResponse(history, 'Photo reverted successfully')
+
+    } catch (error) {
+      console.error('Revert edit error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'revertBody',
+    response: {
+      200: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Render the current version again from the original
+  .post('/:id/edits/render', async ({ params, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const history = await EditsService.rerender(photoId, user.id)
+      return createSuccessResponse(history, 'Photo re-rendered successfully')
+
+    } catch (error) {
+      console.error('Re-render edit error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'editHistoryResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
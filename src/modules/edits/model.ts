@@ -0,0 +1,80 @@
+import { t } from 'elysia'
+import { ASPECT_PRESETS, MAX_STRAIGHTEN_DEGREES, type AspectPreset } from '../../utils/geometry'
+
+const geometry = t.Object({
+  // Clockwise quarter turns
+  rotate: t.Optional(t.Union([t.Literal(0), t.Literal(90), t.Literal(180), t.Literal(270)])),
+  flipHorizontal: t.Optional(t.Boolean()),
+  flipVertical: t.Optional(t.Boolean()),
+  // Fine rotation in degrees, auto-cropped
+  straighten: t.Optional(t.Number({ minimum: -MAX_STRAIGHTEN_DEGREES, maximum: MAX_STRAIGHTEN_DEGREES })),
+  // Pixel rectangle of the image after rotating and straightening
+  crop: t.Optional(t.Nullable(t.Object({
+    left: t.Integer({ minimum: 0 }),
+    top: t.Integer({ minimum: 0 }),
+    width: t.Integer({ minimum: 1 }),
+    height: t.Integer({ minimum: 1 })
+  }))),
+  aspect: t.Optional(t.Nullable(t.Union((Object.keys(ASPECT_PRESETS) as AspectPreset[]).map(preset => t.Literal(preset))))),
+  orientation: t.Optional(t.Nullable(t.Union([t.Literal('portrait'), t.Literal('landscape')])))
+})
+
+const recipe = t.Object({
+  steps: t.Array(t.Object({
+    filterId: t.Number(),
+    intensity: t.Optional(t.Number({ minimum: 0, maximum: 1 })),
+    customParameters: t.Optional(t.Record(t.String(), t.Any()))
+  }), { maxItems: 10 }),
+  geometry: t.Optional(t.Nullable(geometry))
+})
+
+export const EditsModel = {
+  saveEditBody: recipe,
+
+  saveGeometryBody: t.Object({
+    geometry: t.Nullable(geometry)
+  }),
+
+  revertBody: t.Object({
+    version: t.Optional(t.Integer({ minimum: 0 }))
+  }),
+
+  editHistoryResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      photo: t.Object({
+        id: t.Number(),
+        filename: t.String(),
+        displayName: t.Nullable(t.String()),
+        thumbnailPath: t.Nullable(t.String()),
+        originalPath: t.String(),
+        processedPath: t.Nullable(t.String()),
+        editVersion: t.Number(),
+        width: t.Number(),
+        height: t.Number(),
+        createdAt: t.String()
+      }),
+      currentVersion: t.Number(),
+      canUndo: t.Boolean(),
+      canRedo: t.Boolean(),
+      versions: t.Array(t.Object({
+        version: t.Number(),
+        recipe: t.Record(t.String(), t.Any()),
+        createdAt: t.String(),
+        isCurrent: t.Boolean()
+      }))
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  errorResponse: t.Object({
+    success: t.Boolean(),
+    error: t.Object({
+      code: t.String(),
+      message: t.String(),
+      details: t.Optional(t.String())
+    }),
+    timestamp: t.String()
+  })
+}
@@ -0,0 +1,340 @@
+import sharp from 'sharp'
+import { getRepositories } from '../../database/repositories'
+import { createThumbnail, downloadImage, uploadImage } from '../../utils/storage'
+import { getStorageDriver } from '../../storage'
+import { ImageProcessor } from '../../services/ImageProcessor'
+import { isIdentityGeometry, resolveGeometry, type Geometry } from '../../utils/geometry'
+import { Errors } from '../../utils/errors'
+import { FiltersService } from '../filters/service'
+import { scheduleVariants } from '../../utils/variants'
+import { releaseStorage, reserveStorage } from '../../utils/quota'
+import { PhotosService } from '../photos/service'
+import type { PhotoEditTable, PhotoTable } from '../../types/database'
+
+const imageProcessor = new ImageProcessor()
+
+export interface EditStep {
+  filterId: number
+  intensity: number
+  customParameters: Record<string, any>
+}
+
+// Everything needed to re-render a photo from its original
+export interface EditRecipe {
+  steps: EditStep[]
+  geometry: Geometry | null
+}
+
+// Version rows as stored, or the implicit version 0 of a photo that was never edited
+type EditVersion = Pick<PhotoEditTable, 'version' | 'recipe' | 'created_at'>
+
+export abstract class EditsService {
+  static async getHistory(photoId: number, userId: number) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    return EditsService.formatHistoryResponse(photo, await EditsService.listVersions(photo))
+  }
+
+  // Render a new recipe and make it the current version. Versions after the
+  // current one (the redo history) are dropped, like any editor's undo stack.
+  static async saveEdit(
+    photoId: number,
+    userId: number,
+    input: { steps?: Array<Partial<EditStep> & { filterId: number }>, geometry?: Geometry | null }
+  ) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    const recipe = EditsService.normalizeRecipe(input)
+    for (const step of recipe.steps) {
+      FiltersService.validateParameters(step.customParameters)
+    }
+
+    const history = await EditsService.addVersion(photo, recipe)
+
+    for (const step of recipe.steps) {
+      await getRepositories().filters.incrementUsage(step.filterId)
+    }
+
+    return history
+  }
+
+  // Replace the geometry of the current version and keep its filters
+  static async saveGeometry(photoId: number, userId: number, geometry: Geometry | null) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    const versions = await EditsService.listVersions(photo)
+    const current = versions.find(entry => entry.version === photo.edit_version) || versions[0]!
+
+    return EditsService.addVersion(photo, { ...EditsService.normalizeRecipe(current.recipe), geometry })
+  }
+
+  // Render a recipe and store it as the version after the current one, dropping any redo history
+  private static async addVersion(photo: PhotoTable, recipe: EditRecipe) {
+    const repositories = getRepositories()
+
+    // Version 0 is read from photo_filters, which rendering rewrites
+    await EditsService.ensureHistory(photo)
+    const rendered = await EditsService.render(photo, recipe)
+
+    await repositories.photoEdits.deleteAfterVersion(photo.id, photo.edit_version)
+    await repositories.photoEdits.create({
+      photo_id: photo.id,
+      version: photo.edit_version + 1,
+      recipe: recipe as unknown as Record<string, any>
+    })
+
+    const updated = await repositories.photos.update(photo.id, { ...rendered, edit_version: photo.edit_version + 1 })
+    // Variants read the render back through the updated row
+    scheduleVariants(photo.id)
+    return EditsService.formatHistoryResponse(updated!, await EditsService.listVersions(updated!))
+  }
+
+  static async undo(photoId: number, userId: number) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    if (photo.edit_version === 0) {
+      throw Errors.InvalidParameters('Nothing to undo')
+    }
+
+    return EditsService.switchVersion(photo, photo.edit_version - 1)
+  }
+
+  static async redo(photoId: number, userId: number) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    const versions = await EditsService.listVersions(photo)
+    if (photo.edit_version >= versions[versions.length - 1]!.version) {
+      throw Errors.InvalidParameters('Nothing to redo')
+    }
+
+    return EditsService.switchVersion(photo, photo.edit_version + 1)
+  }
+
+  // Jump to any version; 0 is the photo as it was before it was first edited.
+  // Later versions are kept, so the jump can be redone.
+  static async revert(photoId: number, userId: number, version: number = 0) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    return EditsService.switchVersion(photo, version)
+  }
+
+  // Render the current version again, e.g. after its filters were changed
+  static async rerender(photoId: number, userId: number) {
+    const photo = await EditsService.findPhoto(photoId, userId)
+    return EditsService.switchVersion(photo, photo.edit_version)
+  }
+
+  private static async findPhoto(photoId: number, userId: number) {
+    const photo = await getRepositories().photos.findById(photoId, userId)
+    if (!photo || photo.deleted_at) {
+      throw Errors.PhotoNotFound(photoId)
+    }
+    return photo
+  }
+
+  private static async switchVersion(photo: PhotoTable, version: number) {
+    const versions = await EditsService.listVersions(photo)
+    const target = versions.find(entry => entry.version === version)
+    if (!target) {
+      throw Errors.InvalidParameters(`Photo ${photo.id} has no edit version ${version}`)
+    }
+
+    await EditsService.ensureHistory(photo)
+    const rendered = await EditsService.render(photo, EditsService.normalizeRecipe(target.recipe))
+
+    const updated = await getRepositories().photos.update(photo.id, { ...rendered, edit_version: version })
+    scheduleVariants(photo.id)
+    return EditsService.formatHistoryResponse(updated!, versions)
+  }
+
+  private static async listVersions(photo: PhotoTable): Promise<EditVersion[]> {
+    const versions = await getRepositories().photoEdits.listByPhoto(photo.id)
+    return versions.length > 0 ? versions : [await EditsService.initialVersion(photo)]
+  }
+
+  // Version 0 is the photo before its first edit: the filters it was created with
+  // (empty for uploads), so reverting a filtered copy brings its look back
+  private static async initialVersion(photo: PhotoTable): Promise<EditVersion> {
+    const applied = await getRepositories().photoFilters.listByPhotoIds([photo.id])
+
+    return {
+      version: 0,
+      recipe: {
+        steps: applied
+          .sort((a, b) => a.position - b.position)
+          .map(row => ({
+            filterId: row.filter_id,
+            intensity: row.filter_intensity,
+            customParameters: row.custom_parameters || {}
+          })),
+        geometry: null
+      },
+      created_at: photo.created_at
+    }
+  }
+
+  private static async ensureHistory(photo: PhotoTable) {
+    const repositories = getRepositories()
+    if ((await repositories.photoEdits.listByPhoto(photo.id)).length > 0) return
+
+    const initial = await EditsService.initialVersion(photo)
+    await repositories.photoEdits.create({ photo_id: photo.id, version: 0, recipe: initial.recipe })
+  }
+
+  private static normalizeRecipe(input: Record<string, any>): EditRecipe {
+    return {
+      steps: (input.steps || []).map((step: Record<string, any>) => ({
+        filterId: step.filterId,
+        intensity: step.intensity ?? 1.0,
+        customParameters: step.customParameters || {}
+      })),
+      // Recipes saved before geometry edits only had a crop
+      geometry: input.geometry || (input.crop ? { crop: input.crop } : null)
+    }
+  }
+
+  // Render a recipe from the original into new processed and thumbnail objects,
+  // and rewrite the photo's photo_filters rows to match. Each render gets its own
+  // keys, since stored objects are served with long-lived cache headers, and the
+  // previous render is removed. The new render is charged to the owner's quota
+  // and the bytes of the one it replaces are given back, so file_size keeps
+  // following the file the row owns. The returned width and height follow the
+  // rendered image.
+  private static async render(photo: PhotoTable, recipe: EditRecipe): Promise<Partial<PhotoTable>> {
+    const repositories = getRepositories()
+    const originalBuffer = await downloadImage(photo.original_path)
+    const renderFilename = `${Date.now()}-edit-${photo.filename}`
+
+    if (recipe.steps.length === 0 && isIdentityGeometry(recipe.geometry)) {
+      // Without a processed file the row owns its original again
+      await reserveStorage(photo.user_id, originalBuffer.length)
+
+      try {
+        const thumbnailResult = await createThumbnail(originalBuffer, renderFilename)
+        await EditsService.deletePreviousRender(photo)
+        await repositories.photoFilters.deleteByPhotoId(photo.id)
+
+        const { autoOrient } = await sharp(originalBuffer).metadata()
+        await releaseStorage(photo.user_id, photo.file_size)
+
+        return {
+          processed_path: null,
+          thumbnail_path: thumbnailResult.url || photo.original_path,
+          file_size: originalBuffer.length,
+          width: autoOrient.width,
+          height: autoOrient.height
+        }
+      } catch (error) {
+        await releaseStorage(photo.user_id, originalBuffer.length)
+        throw error
+      }
+    }
+
+    const filters = new Map<number, any>()
+    for (const step of recipe.steps) {
+      if (filters.has(step.filterId)) continue
+
+      const filter = await repositories.filters.findActiveById(step.filterId)
+      if (!filter) {
+        throw Errors.FilterNotFound(step.filterId)
+      }
+      filters.set(step.filterId, filter)
+    }
+
+    const tempFilePath = `/tmp/edit-${Date.now()}-${photo.filename}`
+    await Bun.write(tempFilePath, originalBuffer)
+    let reservedBytes = 0
+
+    try {
+      if (recipe.geometry) {
+        const { width = 0, height = 0 } = await imageProcessor.getImageInfo(tempFilePath)
+        try {
+          resolveGeometry(width, height, recipe.geometry)
+        } catch (error) {
+          throw Errors.InvalidParameters(error instanceof Error ? error.message : String(error))
+        }
+      }
+
+      const result = await imageProcessor.applyFilterStack(
+        tempFilePath,
+        recipe.steps.map(step => ({
+          filter: FiltersService.formatFilterForProcessor(filters.get(step.filterId)),
+          intensity: step.intensity,
+          customParams: step.customParameters
+        })),
+        { geometry: recipe.geometry }
+      )
+
+      const processedBuffer = Buffer.from(await Bun.file(result.processedPath).arrayBuffer())
+      await Bun.$`rm -f ${result.processedPath}`
+
+      await reserveStorage(photo.user_id, processedBuffer.length)
+      reservedBytes = processedBuffer.length
+
+      const uploadResult = await uploadImage(processedBuffer, renderFilename, 'processed')
+      if (!uploadResult.success) {
+        throw new Error('Failed to upload processed image')
+      }
+
+      const thumbnailResult = await createThumbnail(processedBuffer, renderFilename)
+      if (!thumbnailResult.success) {
+        console.error('Edit thumbnail creation failed:', thumbnailResult.error)
+      }
+
+      await EditsService.deletePreviousRender(photo)
+
+      await repositories.photoFilters.deleteByPhotoId(photo.id)
+      for (const [position, step] of recipe.steps.entries()) {
+        await repositories.photoFilters.create({
+          photo_id: photo.id,
+          filter_id: step.filterId,
+          position,
+          processing_time_ms: result.stepTimesMs[position],
+          filter_intensity: step.intensity,
+          custom_parameters: step.customParameters
+        })
+      }
+
+      await releaseStorage(photo.user_id, photo.file_size)
+      reservedBytes = 0
+
+      return {
+        processed_path: uploadResult.url!,
+        thumbnail_path: thumbnailResult.url || uploadResult.url!,
+        file_size: processedBuffer.length,
+        width: result.width,
+        height: result.height
+      }
+    } catch (error) {
+      await releaseStorage(photo.user_id, reservedBytes)
+      throw error
+    } finally {
+      await Bun.$`rm -f ${tempFilePath}`.nothrow()
+    }
+  }
+
+  // Remove the processed and thumbnail objects the photo row points at, leaving
+  // its original alone (thumbnails fall back to it)
+  private static async deletePreviousRender(photo: PhotoTable) {
+    const driver = getStorageDriver()
+    const originalKey = driver.keyFromUrl(photo.original_path)
+    const keys = [photo.processed_path, photo.thumbnail_path]
+      .map(url => url ? driver.keyFromUrl(url) : null)
+      .filter((key): key is string => Boolean(key) && key !== originalKey)
+
+    if (keys.length > 0 && !await driver.remove(keys)) {
+      console.error(`Failed to remove previous render of photo ${photo.id}:`, keys)
+    }
+  }
+
+  static formatHistoryResponse(photo: PhotoTable, versions: EditVersion[]) {
+    const latest = versions[versions.length - 1]!.version
+
+    return {
+      photo: PhotosService.formatPhotoResponse(photo),
+      currentVersion: photo.edit_version,
+      canUndo: photo.edit_version > 0,
+      canRedo: photo.edit_version < latest,
+      versions: versions.map(entry => ({
+        version: entry.version,
+        recipe: entry.recipe,
+        createdAt: entry.created_at,
+        isCurrent: entry.version === photo.edit_version
+      }))
+    }
+  }
+}
@@ -164,6 +164,187 @@ export const filtersModule = new Elysia({ prefix: '/api/filters' })
       201: 'applyFilterResponse',
       400: 'errorResponse',
       404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Render a downscaled preview of a filter on a photo (requires authentication).
+  // Nothing is stored; the JPEG is returned directly.
+  .post('/preview', async ({ body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const { image, cached } = await FiltersService.previewFilter(
+        body.photoId,
+        body.filterId,
+        user.id,
+        body.intensity,
+        body.customParameters,
+        body.size
+      )
+
+      set.headers = {
+        'Content-Type': 'image/jpeg',
+        'Content-Length': image.byteLength.toString(),
+        'Cache-Control': 'private, no-store',
+        'X-Preview-Cache': cached ? 'hit' : 'miss'
+      }
+
+      return new Response(image)
+
+    } catch (error) {
+      console.error('Filter preview error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'previewFilterBody',
+    response: {
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Regenerate catalog preview images (requires an admin session)
+  .post('/previews/refresh', async ({ body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      await AuthService.validateAdminSession(sessionToken)
+
+      const report = await FiltersService.refreshPreviews({
+        force: body.force,
+        filterIds: body.filterIds
+      })
+
+      return createSuccessResponse(report, `Generated ${report.generated.length} filter preview(s)`)
+
+    } catch (error) {
+      console.error('Refresh filter previews error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'refreshPreviewsBody',
+    response: {
+      200: 'refreshPreviewsResponse',
+      403: 'errorResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Apply an ordered stack of filters in one pass (requires authentication)
+  .post('/apply-stack', async ({ body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const result = await FiltersService.applyFilterStack(body.photoId, user.id, body.steps)
+
+      set.status = 201
+      return createSuccessResponse(result, 'Filter stack applied successfully')
+
+    } catch (error) {
+      console.error('Apply filter stack error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'applyFilterStackBody',
+    response: {
+      201: 'applyFilterStackResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse',
+      507: 'errorResponse'
+    }
+  })
+
+  // Bind a library texture to a filter (requires an admin session)
+  .put('/:id/texture', async ({ params, body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      await AuthService.validateAdminSession(sessionToken)
+
+      const filterId = parseInt(params.id)
+      if (isNaN(filterId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid filter ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const filter = await FiltersService.bindTexture(filterId, body)
+
+      return createSuccessResponse(
+        { filter },
+        filter.textureImage ? 'Texture bound successfully' : 'Texture removed successfully'
+      )
+
+    } catch (error) {
+      console.error('Bind texture error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    body: 'bindTextureBody',
+    response: {
+      200: 'bindTextureResponse',
+      400: 'errorResponse',
+      403: 'errorResponse',
+      404: 'errorResponse',
       500: 'errorResponse'
     }
   })
\ No newline at end of file
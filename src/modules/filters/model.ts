@@ -96,6 +96,101 @@ export const FiltersModel = {
     timestamp: t.String()
   }),
 
+  previewFilterBody: t.Object({
+    photoId: t.Number(),
+    filterId: t.Number(),
+    intensity: t.Optional(t.Number({ minimum: 0, maximum: 1 })),
+    customParameters: t.Optional(t.Record(t.String(), t.Any())),
+    // Longest edge of the preview in pixels
+    size: t.Optional(t.Integer({ minimum: 64, maximum: 1024 }))
+  }),
+
+  refreshPreviewsBody: t.Object({
+    force: t.Optional(t.Boolean()),
+    filterIds: t.Optional(t.Array(t.Number()))
+  }),
+
+  refreshPreviewsResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      generated: t.Array(t.Object({ id: t.Number(), name: t.String(), previewImage: t.String() })),
+      upToDate: t.Array(t.Object({ id: t.Number(), name: t.String() })),
+      custom: t.Array(t.Object({ id: t.Number(), name: t.String() })),
+      failed: t.Array(t.Object({ id: t.Number(), name: t.String(), error: t.String() }))
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  applyFilterStackBody: t.Object({
+    photoId: t.Number(),
+    steps: t.Array(t.Object({
+      filterId: t.Number(),
+      intensity: t.Optional(t.Number({ minimum: 0, maximum: 1 })),
+      customParameters: t.Optional(t.Record(t.String(), t.Any()))
+    }), { minItems: 1, maxItems: 10 })
+  }),
+
+  applyFilterStackResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      processedPhoto: t.Object({
+        id: t.Number(),
+        filename: t.String(),
+        originalFilename: t.String(),
+        displayName: t.String(),
+        fileSize: t.Number(),
+        mimeType: t.String(),
+        width: t.Number(),
+        height: t.Number(),
+        originalPath: t.String(),
+        thumbnailPath: t.String(),
+        processedPath: t.String(),
+        isFavorite: t.Boolean(),
+        viewCount: t.Number(),
+        processingStatus: t.String(),
+        createdAt: t.String(),
+        updatedAt: t.String(),
+        originalPhotoId: t.Number(),
+        processingTimeMs: t.Number(),
+        appliedFilters: t.Array(t.Object({
+          position: t.Number(),
+          id: t.Number(),
+          name: t.String(),
+          displayName: t.String(),
+          filterType: t.String(),
+          intensity: t.Number(),
+          processingTimeMs: t.Number()
+        }))
+      })
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  bindTextureBody: t.Object({
+    texture: t.Nullable(t.String()),
+    blendMode: t.Optional(t.String()),
+    scale: t.Optional(t.Number({ exclusiveMinimum: 0, maximum: 10 })),
+    opacity: t.Optional(t.Number({ minimum: 0, maximum: 1 }))
+  }),
+
+  bindTextureResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      filter: t.Object({
+        id: t.Number(),
+        name: t.String(),
+        displayName: t.String(),
+        filterType: t.String(),
+        parameters: t.Record(t.String(), t.Any()),
+        textureImage: t.Nullable(t.String())
+      })
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
   popularFiltersResponse: t.Object({
     success: t.Boolean(),
     data: t.Array(t.Object({
@@ -1,16 +1,33 @@
-import { db } from '../../database/supabase'
-import { uploadImage, createThumbnail } from '../../utils/storage'
+import { getRepositories } from '../../database/repositories'
+import { uploadImage, createThumbnail, downloadImage } from '../../utils/storage'
+import { reserveStorage, releaseStorage, adjustStorage } from '../../utils/quota'
 import { ImageProcessor } from '../../services/ImageProcessor'
+import { Errors } from '../../utils/errors'
+import { parseToneCurves } from '../../utils/curves'
+import { parseHslMixer, parseSplitToning } from '../../utils/hsl'
+import { DEFAULT_PREVIEW_SIZE, getPreview, getPreviewSource, previewKey } from '../../utils/previews'
+import {
+  composePreviewGrid,
+  FILTER_PREVIEW_FOLDER,
+  getFilterPreviewKey,
+  loadReferenceImages,
+  PREVIEW_TILE_SIZE
+} from '../../utils/catalog'
+import { getStorageDriver } from '../../storage'
+import { scheduleVariants } from '../../utils/variants'
+import { findTextureKey, isTextureBlendMode, TEXTURE_BLEND_MODES } from '../../utils/textures'
 
 const imageProcessor = new ImageProcessor()
 
 export abstract class FiltersService {
   static async getAllFilters() {
+    const repositories = getRepositories()
+
     // Get all active filter categories
-    const categories = await db.select('filter_categories', '*', { is_active: true })
+    const categories = await repositories.filters.listCategories()
 
     // Get all active filters
-    const filters = await db.select('filters', '*', { is_active: true })
+    const filters = await repositories.filters.listActive()
 
     // Group filters by category
     const result = (categories || []).map((category: any) => ({
@@ -30,30 +47,20 @@ export abstract class FiltersService {
   }
 
   static async getFilterById(filterId: number) {
-    const filters = await db.select('filters', '*', {
-      id: filterId,
-      is_active: true
-    })
+    const filter = await getRepositories().filters.findActiveById(filterId)
 
-    if (!filters || filters.length === 0) {
+    if (!filter) {
       throw new Error('Filter not found')
     }
 
-    return filters[0]
+    return filter
   }
 
   static async getPopularFilters(limit: number = 10) {
     // Get filters ordered by usage count
-    const { data: filters, error } = await db.client
-      .from('filters')
-      .select('*')
-      .eq('is_active', true)
-      .order('usage_count', { ascending: false })
-      .limit(limit)
-
-    if (error) throw error
+    const filters = await getRepositories().filters.listPopular(limit)
 
-    return (filters || []).map((filter: any) => ({
+    return filters.map((filter: any) => ({
       id: filter.id,
       name: filter.name,
       displayName: filter.display_name,
@@ -75,37 +82,38 @@ export abstract class FiltersService {
     customParameters: Record<string, any> = {}
   ) {
     let tempFilePath: string | null = null
+    let reservedBytes = 0
+    const repositories = getRepositories()
 
     try {
+      FiltersService.validateParameters(customParameters)
+
       // Check if photo exists and belongs to user
-      const photos = await db.select('photos', '*', { id: photoId, user_id: userId })
-      if (!photos || photos.length === 0) {
+      const photo = await repositories.photos.findById(photoId, userId)
+      if (!photo || photo.deleted_at) {
         throw new Error('Photo not found')
       }
 
-      const photo = photos[0] as any
-
       // Check if filter exists
-      const filters = await db.select('filters', '*', { id: filterId, is_active: true })
-      if (!filters || filters.length === 0) {
+      const filter = await repositories.filters.findActiveById(filterId)
+      if (!filter) {
         throw new Error('Filter not found')
       }
 
-      const filter = filters[0] as any
-
-      // Download the original image from Supabase to apply filter
+      // Download the original image from storage to apply filter
       if (!photo.original_path) {
         throw new Error('Original photo path not found')
       }
 
-      // Download the image from Supabase
-      const response = await fetch(photo.original_path)
-      if (!response.ok) {
-        throw new Error('Failed to download original photo from storage')
-      }
+      // The result's size is unknown until it's rendered, so reserve the source's
+      // size up front and settle the difference afterwards
+      await reserveStorage(userId, photo.file_size)
+      reservedBytes = photo.file_size
+
+      // Download the original from storage
+      const imageBuffer = await downloadImage(photo.original_path)
 
       // Save temporarily to local file system for ImageProcessor
-      const imageBuffer = await response.arrayBuffer()
       const tempDir = '/tmp'
       const tempFileName = `temp-${Date.now()}-${photo.filename}`
       tempFilePath = `${tempDir}/${tempFileName}`
@@ -123,9 +131,10 @@ export abstract class FiltersService {
 
       // Generate filename for processed image
       const timestamp = Date.now()
-      const processedFilename = `${timestamp}-${filter.name}-${photo.filename}`
+      // Filter output is always encoded as JPEG, whatever the original's format
+      const processedFilename = `${timestamp}-${filter.name}-${photo.filename.replace(/\.[^.]*$/, '')}.jpg`
 
-      // Read the processed file and upload to Supabase processed/ folder
+      // Read the processed file and upload to the processed/ folder
       const processedImageBuffer = await Bun.file(filterResult.processedPath).arrayBuffer()
       const uploadResult = await uploadImage(Buffer.from(processedImageBuffer), processedFilename, 'processed')
 
@@ -141,15 +150,15 @@ export abstract class FiltersService {
       }
 
       // Create new processed photo record
-      const processedPhoto = await db.insert('photos', {
+      const processedPhoto = await repositories.photos.create({
         user_id: userId,
         filename: processedFilename,
         original_filename: photo.original_filename,
         display_name: `${photo.display_name || photo.original_filename} (${filter.display_name})`,
         file_size: filterResult.fileSize,
-        mime_type: photo.mime_type,
-        width: photo.width,
-        height: photo.height,
+        mime_type: 'image/jpeg',
+        width: filterResult.width,
+        height: filterResult.height,
         original_path: photo.original_path,
         thumbnail_path: thumbnailResult.url || uploadResult.url,
         processed_path: uploadResult.url,
@@ -157,13 +166,15 @@ export abstract class FiltersService {
         camera_info: photo.camera_info,
         capture_settings: photo.capture_settings,
         location_data: photo.location_data,
-        exif_data: photo.exif_data
+        exif_data: photo.exif_data,
+        captured_at: photo.captured_at
       })
 
-      const newPhotoId = processedPhoto[0].id
+      const newPhotoId = processedPhoto.id
+      scheduleVariants(newPhotoId)
 
       // Record filter application
-      await db.insert('photo_filters', {
+      await repositories.photoFilters.create({
         photo_id: newPhotoId,
         filter_id: filterId,
         processing_time_ms: filterResult.processingTimeMs,
@@ -172,18 +183,11 @@ export abstract class FiltersService {
       })
 
       // Update filter usage count
-      await db.update('filters',
-        { usage_count: filter.usage_count + 1 },
-        { id: filterId }
-      )
+      await repositories.filters.incrementUsage(filterId)
 
-      // Update user storage usage
-      const users = await db.select('users', '*', { id: userId })
-      const currentUser = users[0] as any
-      await db.update('users',
-        { storage_used: currentUser.storage_used + filterResult.fileSize },
-        { id: userId }
-      )
+      // Settle the reservation against the processed file's real size
+      await adjustStorage(userId, filterResult.fileSize - reservedBytes)
+      reservedBytes = 0
 
       // Cleanup temporary files
       try {
@@ -194,8 +198,7 @@ export abstract class FiltersService {
       }
 
       // Get the complete processed photo record for response
-      const completePhotos = await db.select('photos', '*', { id: newPhotoId })
-      const completePhoto = completePhotos[0] as any
+      const completePhoto = await repositories.photos.findById(newPhotoId)
 
       return {
         processedPhoto: {
@@ -221,10 +224,353 @@ export abstract class FiltersService {
         console.warn('Failed to cleanup temporary files in error handler:', cleanupError)
       }
 
+      await releaseStorage(userId, reservedBytes)
+      throw error
+    }
+  }
+
+  // Render a filter over a downscaled copy of the photo without storing anything:
+  // no photo row, no upload, no usage count. Results are cached in memory.
+  static async previewFilter(
+    photoId: number,
+    filterId: number,
+    userId: number,
+    intensity: number = 1.0,
+    customParameters: Record<string, any> = {},
+    size: number = DEFAULT_PREVIEW_SIZE
+  ) {
+    FiltersService.validateParameters(customParameters)
+
+    const repositories = getRepositories()
+    const photo = await repositories.photos.findById(photoId, userId)
+    if (!photo || photo.deleted_at) {
+      throw Errors.PhotoNotFound(photoId)
+    }
+
+    const filter = await repositories.filters.findActiveById(filterId)
+    if (!filter) {
+      throw Errors.FilterNotFound(filterId)
+    }
+
+    const processorFilter = FiltersService.formatFilterForProcessor(filter)
+    const sourceKey = previewKey([photo.id, photo.original_path, size])
+    const key = previewKey([
+      sourceKey,
+      filter.id,
+      filter.filter_type,
+      filter.parameters,
+      filter.texture_image,
+      filter.lut_file,
+      intensity,
+      customParameters
+    ])
+
+    const preview = getPreview(key, async () => {
+      const source = await getPreviewSource(sourceKey, async () =>
+        imageProcessor.createPreviewSource(await downloadImage(photo.original_path), size)
+      )
+      return imageProcessor.renderPreview(source, processorFilter, intensity, customParameters, size)
+    })
+
+    return { image: await preview.value, cached: preview.cached }
+  }
+
+  // Render catalog previews (filters.preview_image) against the reference images.
+  // Filters whose preview already matches their current look are skipped, and so
+  // are previews that weren't generated here, unless `force` is set.
+  static async refreshPreviews(options: { force?: boolean, filterIds?: number[] } = {}) {
+    const { force = false, filterIds } = options
+    const repositories = getRepositories()
+    const driver = getStorageDriver()
+    const report = {
+      generated: [] as Array<{ id: number, name: string, previewImage: string }>,
+      upToDate: [] as Array<{ id: number, name: string }>,
+      custom: [] as Array<{ id: number, name: string }>,
+      failed: [] as Array<{ id: number, name: string, error: string }>
+    }
+
+    const filters = (await repositories.filters.listActive())
+      .filter(filter => !filterIds || filterIds.includes(filter.id))
+    if (filters.length === 0) return report
+
+    const references = await loadReferenceImages()
+    const sources = await Promise.all(references.map(reference =>
+      imageProcessor.createPreviewSource(reference.data, PREVIEW_TILE_SIZE * 2)
+    ))
+
+    for (const filter of filters) {
+      const key = getFilterPreviewKey(filter, references)
+      const currentKey = filter.preview_image ? driver.keyFromUrl(filter.preview_image) : null
+      const generatedHere = Boolean(currentKey?.startsWith(`${FILTER_PREVIEW_FOLDER}/`))
+
+      if (!force && filter.preview_image && !generatedHere) {
+        report.custom.push({ id: filter.id, name: filter.name })
+        continue
+      }
+      if (!force && currentKey === key) {
+        report.upToDate.push({ id: filter.id, name: filter.name })
+        continue
+      }
+
+      try {
+        // One reference at a time keeps memory flat for large catalogs
+        const tiles: Buffer[] = []
+        for (const source of sources) {
+          tiles.push(await imageProcessor.renderPreview(
+            source,
+            FiltersService.formatFilterForProcessor(filter),
+            1.0,
+            {},
+            PREVIEW_TILE_SIZE * 2
+          ))
+        }
+
+        const url = await driver.upload(key, await composePreviewGrid(tiles), 'image/jpeg')
+        await repositories.filters.update(filter.id, { preview_image: url })
+
+        if (generatedHere && currentKey !== key) {
+          await driver.remove([currentKey!])
+        }
+
+        report.generated.push({ id: filter.id, name: filter.name, previewImage: url })
+      } catch (error) {
+        console.error(`Preview generation failed for filter ${filter.name}:`, error)
+        report.failed.push({ id: filter.id, name: filter.name, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    return report
+  }
+
+  // Render an ordered list of filters into one processed photo. Every step is
+  // recorded in photo_filters with its position so the stack can be replayed.
+  static async applyFilterStack(
+    photoId: number,
+    userId: number,
+    steps: Array<{ filterId: number, intensity?: number, customParameters?: Record<string, any> }>
+  ) {
+    let tempFilePath: string | null = null
+    let reservedBytes = 0
+    const repositories = getRepositories()
+
+    try {
+      if (steps.length === 0) {
+        throw Errors.InvalidParameters('A filter stack needs at least one step')
+      }
+      for (const step of steps) {
+        FiltersService.validateParameters(step.customParameters || {})
+      }
+
+      const photo = await repositories.photos.findById(photoId, userId)
+      if (!photo || photo.deleted_at) {
+        throw Errors.PhotoNotFound(photoId)
+      }
+
+      if (!photo.original_path) {
+        throw new Error('Original photo path not found')
+      }
+
+      // Resolve every filter before rendering anything; the same filter may appear more than once
+      const filters = new Map<number, any>()
+      for (const step of steps) {
+        if (filters.has(step.filterId)) continue
+
+        const filter = await repositories.filters.findActiveById(step.filterId)
+        if (!filter) {
+          throw Errors.FilterNotFound(step.filterId)
+        }
+        filters.set(step.filterId, filter)
+      }
+
+      const stack = steps.map(step => ({
+        filter: filters.get(step.filterId),
+        intensity: step.intensity ?? 1.0,
+        customParameters: step.customParameters || {}
+      }))
+
+      await reserveStorage(userId, photo.file_size)
+      reservedBytes = photo.file_size
+
+      const imageBuffer = await downloadImage(photo.original_path)
+      tempFilePath = `/tmp/temp-${Date.now()}-${photo.filename}`
+      await Bun.write(tempFilePath, imageBuffer)
+
+      const stackResult = await imageProcessor.applyFilterStack(
+        tempFilePath,
+        stack.map(step => ({
+          filter: FiltersService.formatFilterForProcessor(step.filter),
+          intensity: step.intensity,
+          customParams: step.customParameters
+        }))
+      )
+
+      // Stacks are always encoded as JPEG
+      const processedFilename = `${Date.now()}-stack-${photo.filename.replace(/\.[^.]*$/, '')}.jpg`
+      const processedImageBuffer = Buffer.from(await Bun.file(stackResult.processedPath).arrayBuffer())
+      const uploadResult = await uploadImage(processedImageBuffer, processedFilename, 'processed')
+
+      if (!uploadResult.success) {
+        throw new Error('Failed to upload processed image')
+      }
+
+      const thumbnailResult = await createThumbnail(processedImageBuffer, processedFilename)
+
+      if (!thumbnailResult.success) {
+        console.error('Processed thumbnail creation failed:', thumbnailResult.error)
+      }
+
+      const processedPhoto = await repositories.photos.create({
+        user_id: userId,
+        filename: processedFilename,
+        original_filename: photo.original_filename,
+        display_name: `${photo.display_name || photo.original_filename} (${stack.map(step => step.filter.display_name).join(' + ')})`,
+        file_size: stackResult.fileSize,
+        mime_type: 'image/jpeg',
+        width: stackResult.width,
+        height: stackResult.height,
+        original_path: photo.original_path,
+        thumbnail_path: thumbnailResult.url || uploadResult.url,
+        processed_path: uploadResult.url,
+        processing_status: 'completed',
+        camera_info: photo.camera_info,
+        capture_settings: photo.capture_settings,
+        location_data: photo.location_data,
+        exif_data: photo.exif_data,
+        captured_at: photo.captured_at
+      })
+      scheduleVariants(processedPhoto.id)
+
+      for (const [position, step] of stack.entries()) {
+        await repositories.photoFilters.create({
+          photo_id: processedPhoto.id,
+          filter_id: step.filter.id,
+          position,
+          processing_time_ms: stackResult.stepTimesMs[position],
+          filter_intensity: step.intensity,
+          custom_parameters: step.customParameters
+        })
+
+        await repositories.filters.incrementUsage(step.filter.id)
+      }
+
+      await adjustStorage(userId, stackResult.fileSize - reservedBytes)
+      reservedBytes = 0
+
+      try {
+        await Bun.$`rm -f ${tempFilePath}`
+        await Bun.$`rm -f ${stackResult.processedPath}`
+      } catch (cleanupError) {
+        console.warn('Failed to cleanup temporary files:', cleanupError)
+      }
+
+      const completePhoto = await repositories.photos.findById(processedPhoto.id)
+
+      return {
+        processedPhoto: {
+          ...FiltersService.formatProcessedPhotoResponse(completePhoto),
+          originalPhotoId: photoId,
+          processingTimeMs: stackResult.processingTimeMs,
+          appliedFilters: stack.map((step, position) => ({
+            position,
+            id: step.filter.id,
+            name: step.filter.name,
+            displayName: step.filter.display_name,
+            filterType: step.filter.filter_type,
+            intensity: step.intensity,
+            processingTimeMs: stackResult.stepTimesMs[position]!
+          }))
+        }
+      }
+
+    } catch (error) {
+      try {
+        if (tempFilePath) {
+          await Bun.$`rm -f ${tempFilePath}`
+        }
+      } catch (cleanupError) {
+        console.warn('Failed to cleanup temporary files in error handler:', cleanupError)
+      }
+
+      await releaseStorage(userId, reservedBytes)
       throw error
     }
   }
 
+  // Reject custom parameters the renderer can't use before any work is done
+  static validateParameters(parameters: Record<string, any>) {
+    try {
+      if (parameters.curves !== undefined) parseToneCurves(parameters.curves)
+      if (parameters.hsl !== undefined) parseHslMixer(parameters.hsl)
+      parseSplitToning(parameters)
+    } catch (error) {
+      throw Errors.InvalidParameters(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // Point a filter at a library texture (or clear it with `texture: null`). Blend
+  // options are stored in the filter's parameters next to the rest of its look.
+  static async bindTexture(
+    filterId: number,
+    options: { texture: string | null, blendMode?: string, scale?: number, opacity?: number }
+  ) {
+    const repositories = getRepositories()
+    const filter = await repositories.filters.findActiveById(filterId)
+    if (!filter) {
+      throw Errors.FilterNotFound(filterId)
+    }
+
+    const { texture_blend, texture_scale, texture_opacity, texture, ...parameters } = filter.parameters || {}
+
+    if (options.texture === null) {
+      const updated = await repositories.filters.update(filterId, { texture_image: null, parameters })
+      await FiltersService.refreshChangedPreview(filterId)
+      return FiltersService.formatFilterTextureResponse(updated!)
+    }
+
+    if (options.blendMode !== undefined && !isTextureBlendMode(options.blendMode)) {
+      throw Errors.InvalidParameters(`Unknown blend mode: ${options.blendMode}. Use one of ${TEXTURE_BLEND_MODES.join(', ')}`)
+    }
+
+    const key = await findTextureKey(options.texture)
+    if (!key) {
+      throw Errors.InvalidParameters(`Texture not found in library: ${options.texture}`)
+    }
+
+    const updated = await repositories.filters.update(filterId, {
+      texture_image: key.split('/').pop()!,
+      parameters: {
+        ...parameters,
+        texture_blend: options.blendMode ?? texture_blend,
+        texture_scale: options.scale ?? texture_scale,
+        texture_opacity: options.opacity ?? texture_opacity
+      }
+    })
+
+    await FiltersService.refreshChangedPreview(filterId)
+    return FiltersService.formatFilterTextureResponse(updated!)
+  }
+
+  // Bring a filter's catalog preview in line after its look changed. A failed
+  // render only leaves the old preview in place, so it doesn't fail the change.
+  private static async refreshChangedPreview(filterId: number) {
+    try {
+      await FiltersService.refreshPreviews({ filterIds: [filterId] })
+    } catch (error) {
+      console.error(`Preview refresh failed for filter ${filterId}:`, error)
+    }
+  }
+
+  static formatFilterTextureResponse(filter: any) {
+    return {
+      id: filter.id,
+      name: filter.name,
+      displayName: filter.display_name,
+      filterType: filter.filter_type,
+      parameters: filter.parameters || {},
+      textureImage: filter.texture_image
+    }
+  }
+
   static formatFilterResponse(filter: any) {
     return {
       id: filter.id,
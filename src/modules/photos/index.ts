@@ -3,7 +3,6 @@ import { PhotosService } from './service'
 import { PhotosModel } from './model'
 import { AuthService } from '../auth/service'
 import { createSuccessResponse, handleError } from '../../utils/errors'
-import { db } from '../../database/supabase'
 
 // Authentication plugin for photos module
 const authPlugin = new Elysia({ name: 'photos.auth' })
@@ -92,16 +91,9 @@ export const photosModule = new Elysia({ prefix: '/api/photos' })
 
       console.log('Processing upload for user:', userId, 'file:', file.name)
 
+      // Storage usage is reserved against the quota inside processAndUploadPhoto
       const photo = await PhotosService.processAndUploadPhoto(file, displayName, userId)
 
-      // Update user storage usage
-      const users = await db.select('users', '*', { id: userId })
-      const currentUser = users[0] as any
-      await db.update('users',
-        { storage_used: currentUser.storage_used + photo.file_size },
-        { id: userId }
-      )
-
       set.status = 201
       return createSuccessResponse({
         photo: PhotosService.formatPhotoResponse(photo)
@@ -117,7 +109,8 @@ export const photosModule = new Elysia({ prefix: '/api/photos' })
     response: {
       201: 'uploadResponse',
       400: 'errorResponse',
-      500: 'errorResponse'
+      500: 'errorResponse',
+      507: 'errorResponse'
     }
   })
 
@@ -16,9 +16,15 @@ export const PhotosModel = {
         originalPath: t.String(),
         thumbnailPath: t.String(),
         processedPath: t.Optional(t.Nullable(t.String())),
+        variants: t.Optional(t.Nullable(t.Record(t.String(), t.String()))),
         isFavorite: t.Boolean(),
         viewCount: t.Number(),
         processingStatus: t.String(),
+        cameraInfo: t.Optional(t.Record(t.String(), t.Any())),
+        captureSettings: t.Optional(t.Record(t.String(), t.Any())),
+        locationData: t.Optional(t.Record(t.String(), t.Any())),
+        exifData: t.Optional(t.Record(t.String(), t.Any())),
+        capturedAt: t.Optional(t.Nullable(t.String())),
         createdAt: t.String()
       })
     }),
@@ -36,11 +42,13 @@ export const PhotosModel = {
         thumbnailPath: t.String(),
         originalPath: t.String(),
         processedPath: t.Optional(t.Nullable(t.String())),
+        variants: t.Optional(t.Nullable(t.Record(t.String(), t.String()))),
         width: t.Number(),
         height: t.Number(),
         fileSize: t.Number(),
         isFavorite: t.Boolean(),
         viewCount: t.Number(),
+        capturedAt: t.Optional(t.Nullable(t.String())),
         createdAt: t.String()
       })),
       pagination: t.Object({
@@ -69,12 +77,18 @@ export const PhotosModel = {
         thumbnailPath: t.String(),
         originalPath: t.String(),
         processedPath: t.Optional(t.Nullable(t.String())),
+        variants: t.Optional(t.Nullable(t.Record(t.String(), t.String()))),
         fileSize: t.Number(),
         mimeType: t.String(),
         width: t.Number(),
         height: t.Number(),
         isFavorite: t.Boolean(),
         viewCount: t.Number(),
+        cameraInfo: t.Optional(t.Record(t.String(), t.Any())),
+        captureSettings: t.Optional(t.Record(t.String(), t.Any())),
+        locationData: t.Optional(t.Record(t.String(), t.Any())),
+        exifData: t.Optional(t.Record(t.String(), t.Any())),
+        capturedAt: t.Optional(t.Nullable(t.String())),
         createdAt: t.String()
       })
     }),
@@ -1,27 +1,62 @@
-import { db } from '../../database/supabase'
+import { getRepositories, getAppSettings } from '../../database/repositories'
 import { uploadImage, createThumbnail } from '../../utils/storage'
-import sharp from 'sharp'
+import { reserveStorage, releaseStorage, adjustStorage } from '../../utils/quota'
+import { parseExif } from '../../utils/exif'
+import { DEFAULT_ALLOWED_MIME_TYPES, IMAGE_FORMATS, detectImageFormat, normalizeUpload } from '../../utils/formats'
+import { Errors } from '../../utils/errors'
+import { formatVariants, scheduleVariants } from '../../utils/variants'
 
 export abstract class PhotosService {
+  // Go by the file's bytes, not the name or the type the client sent, and check
+  // them against the allowed_mime_types setting
+  static async detectAllowedFormat(data: Buffer) {
+    const format = detectImageFormat(data)
+    if (!format) {
+      throw Errors.InvalidFileType('unrecognised image data')
+    }
+
+    const mimeType = IMAGE_FORMATS[format].mimeType
+    const { allowed_mime_types: allowedTypes } = await getAppSettings()
+    if (!(Array.isArray(allowedTypes) ? allowedTypes : DEFAULT_ALLOWED_MIME_TYPES).includes(mimeType)) {
+      throw Errors.InvalidFileType(mimeType)
+    }
+
+    return format
+  }
+
   static async processAndUploadPhoto(file: File, displayName: string, userId: number) {
+    // Claim the space first so an over-quota upload is rejected before any processing
+    await reserveStorage(userId, file.size)
+    let reserved = file.size
+
     try {
-      // Convert File to Buffer
-      const fileBuffer = Buffer.from(await file.arrayBuffer())
+      const uploaded = Buffer.from(await file.arrayBuffer())
       const originalFilename = file.name
 
-      // Get image metadata using Sharp
-      const metadata = await sharp(fileBuffer).metadata()
+      await PhotosService.detectAllowedFormat(uploaded)
+
+      // Rotate sideways phone photos upright once, so every later step sees them as
+      // displayed, and convert formats browsers can't show
+      const { data: fileBuffer, metadata, format } = await normalizeUpload(uploaded)
+      const exif = parseExif(metadata.exif)
+
+      // Re-encoding changes the size; charge for what is actually stored
+      if (fileBuffer.length !== reserved) {
+        await adjustStorage(userId, fileBuffer.length - reserved)
+        reserved = fileBuffer.length
+      }
 
       // Generate unique filename
       const timestamp = Date.now()
-      const fileExtension = originalFilename.split('.').pop() || 'jpg'
-      const filename = `${timestamp}-${originalFilename.replace(/[^a-zA-Z0-9.-]/g, '_')}`
+      const baseName = originalFilename.replace(/\.[^.]*$/, '') || 'photo'
+      const filename = `${timestamp}-${baseName.replace(/[^a-zA-Z0-9.-]/g, '_')}.${IMAGE_FORMATS[format].extension}`
 
       console.log('Processing photo:', {
         originalFilename,
         filename,
         size: fileBuffer.length,
-        dimensions: `${metadata.width}x${metadata.height}`
+        dimensions: `${metadata.autoOrient.width}x${metadata.autoOrient.height}`,
+        capturedAt: exif.capturedAt
       })
 
       // Upload original image
@@ -37,112 +72,95 @@ export abstract class PhotosService {
       }
 
       // Insert into database
-      const photo = await db.insert('photos', {
+      const photo = await getRepositories().photos.create({
         user_id: userId,
         filename,
         original_filename: originalFilename,
         display_name: displayName || originalFilename,
         file_size: fileBuffer.length,
-        mime_type: file.type || 'image/jpeg',
-        width: metadata.width || 0,
-        height: metadata.height || 0,
+        mime_type: IMAGE_FORMATS[format].mimeType,
+        width: metadata.autoOrient.width || 0,
+        height: metadata.autoOrient.height || 0,
         original_path: originalUpload.url,
         thumbnail_path: thumbnailResult.success ? thumbnailResult.url : originalUpload.url,
+        camera_info: exif.cameraInfo,
+        capture_settings: exif.captureSettings,
+        location_data: exif.locationData,
+        exif_data: exif.exifData,
+        captured_at: exif.capturedAt,
         processing_status: 'completed'
       })
 
-      return photo[0]
+      // Responsive variants follow in the background; until then clients use the thumbnail
+      scheduleVariants(photo.id)
+
+      return photo
     } catch (error) {
       console.error('Photo processing error:', error)
+      await releaseStorage(userId, reserved)
       throw error
     }
   }
 
   static async getUserPhotos(userId: number, page: number = 1, limit: number = 50) {
     const offset = (page - 1) * limit
+    const repositories = getRepositories()
 
     // Get photos with pagination
-    const { data: photos, error } = await db.client
-      .from('photos')
-      .select('*')
-      .eq('user_id', userId)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1)
-
-    if (error) throw error
+    const photos = await repositories.photos.listByUser(userId, { offset, limit })
 
     // Get total count
-    const { count } = await db.client
-      .from('photos')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .is('deleted_at', null)
+    const count = await repositories.photos.countByUser(userId)
 
-    const totalPages = Math.ceil((count || 0) / limit)
+    const totalPages = Math.ceil(count / limit)
 
     return {
-      photos: photos || [],
+      photos,
       pagination: {
         page,
         limit,
-        total: count || 0,
+        total: count,
         totalPages
       }
     }
   }
 
   static async getPhotoById(photoId: number, userId: number) {
-    const photos = await db.select('photos', '*', {
-      id: photoId,
-      user_id: userId,
-          })
+    const repositories = getRepositories()
+    const photo = await repositories.photos.findById(photoId, userId)
 
-    if (!photos || photos.length === 0) {
+    // Trashed photos only exist for the trash bin
+    if (!photo || photo.deleted_at) {
       throw new Error('Photo not found')
     }
 
     // Increment view count
-    const photo = photos[0] as any
-    await db.update('photos',
-      { view_count: photo.view_count + 1 },
-      { id: photoId }
-    )
+    await repositories.photos.update(photoId, { view_count: photo.view_count + 1 })
 
     return { ...photo, view_count: photo.view_count + 1 }
   }
 
   static async updatePhoto(photoId: number, userId: number, updates: any) {
-    const photos = await db.select('photos', '*', {
-      id: photoId,
-      user_id: userId,
-          })
+    const repositories = getRepositories()
+    const photo = await repositories.photos.findById(photoId, userId)
 
-    if (!photos || photos.length === 0) {
+    if (!photo || photo.deleted_at) {
       throw new Error('Photo not found')
     }
 
-    await db.update('photos', updates, { id: photoId })
-
-    const updatedPhotos = await db.select('photos', '*', { id: photoId })
-    return updatedPhotos[0]
+    return repositories.photos.update(photoId, updates)
   }
 
   static async deletePhoto(photoId: number, userId: number) {
-    const photos = await db.select('photos', '*', {
-      id: photoId,
-      user_id: userId,
-          })
+    const repositories = getRepositories()
+    const photo = await repositories.photos.findById(photoId, userId)
 
-    if (!photos || photos.length === 0) {
+    if (!photo || photo.deleted_at) {
       throw new Error('Photo not found')
     }
 
     // Soft delete
-    await db.update('photos',
-      { deleted_at: new Date().toISOString() },
-      { id: photoId }
-    )
+    await repositories.photos.update(photoId, { deleted_at: new Date().toISOString() })
 
     return true
   }
@@ -151,10 +169,7 @@ export abstract class PhotosService {
     const photo = await PhotosService.getPhotoById(photoId, userId)
     const newFavoriteStatus = !photo.is_favorite
 
-    await db.update('photos',
-      { is_favorite: newFavoriteStatus },
-      { id: photoId }
-    )
+    await getRepositories().photos.update(photoId, { is_favorite: newFavoriteStatus })
 
     return { ...photo, is_favorite: newFavoriteStatus }
   }
@@ -172,9 +187,16 @@ export abstract class PhotosService {
       originalPath: photo.original_path,
       thumbnailPath: photo.thumbnail_path,
       processedPath: photo.processed_path,
+      variants: formatVariants(photo.variants),
+      editVersion: photo.edit_version ?? 0,
       isFavorite: photo.is_favorite,
       viewCount: photo.view_count,
       processingStatus: photo.processing_status,
+      cameraInfo: photo.camera_info || {},
+      captureSettings: photo.capture_settings || {},
+      locationData: photo.location_data || {},
+      exifData: photo.exif_data || {},
+      capturedAt: photo.captured_at ?? null,
       createdAt: photo.created_at
     }
   }
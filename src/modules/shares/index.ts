@@ -29,7 +29,7 @@ export const sharesModule = new Elysia({ prefix: '/api/shares' })
 
       console.log('🔗 CREATE SHARE - Authenticated userId:', userId)
 
-      const { photoIds, title, description, downloadType = 'original', expiresAt } = body
+      const { photoIds, title, description, downloadType = 'original', metadataPrivacy, expiresAt } = body
 
       if (!photoIds || photoIds.length === 0) {
         set.status = 400
@@ -47,6 +47,7 @@ export const sharesModule = new Elysia({ prefix: '/api/shares' })
         title,
         description,
         downloadType,
+        metadataPrivacy,
         expiresAt
       })
 
@@ -60,6 +61,7 @@ export const sharesModule = new Elysia({ prefix: '/api/shares' })
         description: shareData.description,
         photoCount: shareData.photoCount,
         downloadType: shareData.downloadType,
+        metadataPrivacy: shareData.metadataPrivacy,
         expiresAt: shareData.expiresAt,
         createdAt: shareData.createdAt
       }, 'Public share created successfully')
@@ -207,6 +209,7 @@ export const publicSharesModule = new Elysia({ prefix: '/api/share' })
         description: shareInfo.description,
         photoCount: shareInfo.photoCount,
         downloadType: shareInfo.downloadType,
+        metadataPrivacy: shareInfo.metadataPrivacy,
         viewCount: shareInfo.viewCount,
         downloadCount: shareInfo.downloadCount,
         expiresAt: shareInfo.expiresAt,
@@ -7,6 +7,13 @@ export const SharesModel = {
     title: t.Optional(t.String()),
     description: t.Optional(t.String()),
     downloadType: t.Optional(t.Union([t.Literal('original'), t.Literal('processed'), t.Literal('thumbnail')])),
+    // Overrides the owner's metadataPrivacy preference for this share's downloads
+    metadataPrivacy: t.Optional(t.Union([
+      t.Literal('keep'),
+      t.Literal('strip_all'),
+      t.Literal('strip_gps'),
+      t.Literal('coarse_location')
+    ])),
     expiresAt: t.Optional(t.String()) // ISO date string
   }),
 
@@ -20,6 +27,7 @@ export const SharesModel = {
       description: t.Optional(t.String()),
       photoCount: t.Number(),
       downloadType: t.String(),
+      metadataPrivacy: t.Optional(t.Nullable(t.String())),
       expiresAt: t.Optional(t.String()),
       createdAt: t.String()
     }),
@@ -32,10 +40,11 @@ export const SharesModel = {
     success: t.Boolean(),
     data: t.Object({
       shareToken: t.String(),
-      title: t.Optional(t.String()),
-      description: t.Optional(t.String()),
+      title: t.Optional(t.Union([t.String(), t.Null()])),
+      description: t.Optional(t.Union([t.String(), t.Null()])),
       photoCount: t.Number(),
       downloadType: t.String(),
+      metadataPrivacy: t.Optional(t.Nullable(t.String())),
       viewCount: t.Number(),
       downloadCount: t.Number(),
       expiresAt: t.Optional(t.Union([t.String(), t.Null()])),
@@ -46,6 +55,7 @@ export const SharesModel = {
         filename: t.String(),
         displayName: t.String(),
         thumbnailPath: t.String(),
+        variants: t.Optional(t.Nullable(t.Record(t.String(), t.String()))),
         width: t.Number(),
         height: t.Number()
       }))
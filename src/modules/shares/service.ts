@@ -1,5 +1,7 @@
-import { db } from '../../database/supabase'
+import { getRepositories } from '../../database/repositories'
 import { DownloadsService } from '../downloads/service'
+import { getMetadataPrivacy, type MetadataPrivacy } from '../../utils/privacy'
+import { formatVariants } from '../../utils/variants'
 
 export abstract class SharesService {
 
@@ -20,21 +22,15 @@ export abstract class SharesService {
       title?: string
       description?: string
       downloadType?: 'original' | 'processed' | 'thumbnail'
+      // Leave unset to follow the owner's metadataPrivacy preference
+      metadataPrivacy?: MetadataPrivacy
       expiresAt?: string
     } = {}
   ) {
+    const repositories = getRepositories()
+
     // Verify all photos belong to the user
-    const photos = await Promise.all(
-      photoIds.map(async (id) => {
-        const result = await db.select('photos', '*', {
-          id,
-          user_id: userId
-        })
-        return result?.[0]
-      })
-    )
-
-    const validPhotos = photos.filter(photo => photo) as any[]
+    const validPhotos = (await repositories.photos.findByIds(photoIds, userId)).filter(photo => !photo.deleted_at)
 
     if (validPhotos.length === 0) {
       throw new Error('No valid photos found')
@@ -48,10 +44,10 @@ export abstract class SharesService {
     let shareToken = this.generateShareToken()
 
     // Ensure token is unique
-    let existing = await db.select('public_shares', '*', { share_token: shareToken })
-    while (existing && existing.length > 0) {
+    let existing = await repositories.shares.findByToken(shareToken)
+    while (existing) {
       shareToken = this.generateShareToken()
-      existing = await db.select('public_shares', '*', { share_token: shareToken })
+      existing = await repositories.shares.findByToken(shareToken)
     }
 
     const shareType = validPhotos.length === 1 ? 'single' : 'batch'
@@ -61,17 +57,17 @@ export abstract class SharesService {
     const shareData = {
       share_token: shareToken,
       user_id: userId,
-      share_type: shareType,
+      share_type: shareType as 'single' | 'batch',
       photo_ids: photoIds,
       title: options.title || `Shared ${validPhotos.length} photo${validPhotos.length > 1 ? 's' : ''}`,
       description: options.description,
       download_type: options.downloadType || 'original',
-      expires_at: expiresAt,
+      metadata_privacy: options.metadataPrivacy || null,
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
       is_active: true
     }
 
-    const result = await db.insert('public_shares', shareData)
-    const share = Array.isArray(result) ? result[0] : result
+    const share = await repositories.shares.create(shareData)
 
     return {
       id: share.id,
@@ -81,6 +77,7 @@ export abstract class SharesService {
       description: shareData.description,
       photoCount: validPhotos.length,
       downloadType: shareData.download_type,
+      metadataPrivacy: shareData.metadata_privacy,
       expiresAt: expiresAt?.toISOString(),
       createdAt: new Date().toISOString(),
       photos: validPhotos
@@ -88,14 +85,13 @@ export abstract class SharesService {
   }
 
   static async getPublicShareInfo(shareToken: string) {
-    const shares = await db.select('public_shares', '*', { share_token: shareToken })
+    const repositories = getRepositories()
+    const share = await repositories.shares.findByToken(shareToken)
 
-    if (!shares || shares.length === 0) {
+    if (!share) {
       throw new Error('Share not found')
     }
 
-    const share = shares[0] as any
-
     // Check if share is active and not expired
     if (!share.is_active) {
       throw new Error('Share is no longer active')
@@ -106,32 +102,21 @@ export abstract class SharesService {
     }
 
     // Increment view count
-    await db.update('public_shares',
-      { view_count: share.view_count + 1 },
-      { share_token: shareToken }
-    )
+    await repositories.shares.update(shareToken, { view_count: share.view_count + 1 })
 
     // Get photos for preview (limit to first 6 for performance)
     const previewPhotoIds = share.photo_ids.slice(0, 6)
-    const previewPhotos = await Promise.all(
-      previewPhotoIds.map(async (id: number) => {
-        const result = await db.select('photos', '*', { id })
-        const photo = result?.[0] as any
-        if (photo) {
-          return {
-            id: photo.id,
-            filename: photo.filename,
-            displayName: photo.display_name,
-            thumbnailPath: photo.thumbnail_path,
-            width: photo.width,
-            height: photo.height
-          }
-        }
-        return null
-      })
-    )
-
-    const validPreviewPhotos = previewPhotos.filter(photo => photo)
+    const previewPhotos = (await repositories.photos.findByIds(previewPhotoIds)).filter(photo => !photo.deleted_at)
+
+    const validPreviewPhotos = previewPhotos.map(photo => ({
+      id: photo.id,
+      filename: photo.filename,
+      displayName: photo.display_name,
+      thumbnailPath: photo.thumbnail_path,
+      variants: formatVariants(photo.variants),
+      width: photo.width,
+      height: photo.height
+    }))
 
     return {
       shareToken: share.share_token,
@@ -139,6 +124,7 @@ export abstract class SharesService {
       description: share.description,
       photoCount: share.photo_ids.length,
       downloadType: share.download_type,
+      metadataPrivacy: share.metadata_privacy,
       viewCount: share.view_count + 1,
       downloadCount: share.download_count,
       expiresAt: share.expires_at,
@@ -152,29 +138,24 @@ export abstract class SharesService {
   static async downloadPublicShare(shareToken: string) {
     const shareInfo = await this.getPublicShareInfo(shareToken)
 
-    // Get photos that are included in the share
-    const photos = await Promise.all(
-      shareInfo.photoIds.map(async (id: number) => {
-        const result = await db.select('photos', '*', { id })
-        return result?.[0]
-      })
-    )
+    const repositories = getRepositories()
 
-    const validPhotos = photos.filter(photo => photo) as any[]
+    // Get photos that are included in the share
+    const validPhotos = (await repositories.photos.findByIds(shareInfo.photoIds)).filter(photo => !photo.deleted_at)
 
     if (validPhotos.length === 0) {
       throw new Error('No photos found for this share')
     }
 
     // Increment download count
-    await db.update('public_shares',
-      { download_count: shareInfo.downloadCount + 1 },
-      { share_token: shareToken }
-    )
+    await repositories.shares.update(shareToken, { download_count: shareInfo.downloadCount + 1 })
 
-    if (validPhotos.length === 1) {
+    const privacy = await this.getShareMetadataPrivacy(shareToken)
+
+    const [photo] = validPhotos
+
+    if (photo && validPhotos.length === 1) {
       // Single photo download
-      const photo = validPhotos[0]
       let downloadUrl: string
 
       switch (shareInfo.downloadType) {
@@ -195,7 +176,7 @@ export abstract class SharesService {
         throw new Error(`${shareInfo.downloadType} version not available`)
       }
 
-      const imageBuffer = await DownloadsService.downloadPhotoFromStorage(downloadUrl)
+      const imageBuffer = await DownloadsService.downloadPhotoFromStorage(downloadUrl, privacy)
 
       return {
         type: 'single',
@@ -205,7 +186,7 @@ export abstract class SharesService {
       }
     } else {
       // Multiple photos - create ZIP
-      const zipBuffer = await DownloadsService.createZipFromPhotos(validPhotos, shareInfo.downloadType as any)
+      const zipBuffer = await DownloadsService.createZipFromPhotos(validPhotos, shareInfo.downloadType as any, privacy)
       const zipFilename = `${shareInfo.title?.replace(/[^a-zA-Z0-9]/g, '_') || 'shared_photos'}-${Date.now()}.zip`
 
       return {
@@ -217,23 +198,29 @@ export abstract class SharesService {
     }
   }
 
+  // The share's own setting, or its owner's preference when it has none
+  static async getShareMetadataPrivacy(shareToken: string): Promise<MetadataPrivacy> {
+    const repositories = getRepositories()
+    const share = await repositories.shares.findByToken(shareToken)
+    if (share?.metadata_privacy) return share.metadata_privacy
+
+    const owner = share ? await repositories.users.findById(share.user_id) : null
+    return getMetadataPrivacy(owner?.preferences)
+  }
+
   static async getUserShares(userId: number, page: number = 1, limit: number = 20) {
     const offset = (page - 1) * limit
 
+    const repositories = getRepositories()
+
     // Get total count
-    const countResult = await db.select('public_shares', 'COUNT(*) as total', { user_id: userId })
-    const total = parseInt(countResult[0]?.total || '0')
+    const total = await repositories.shares.countByUser(userId)
 
     // Get paginated shares
-    const shares = await db.query(`
-      SELECT * FROM public_shares
-      WHERE user_id = $1
-      ORDER BY created_at DESC
-      LIMIT $2 OFFSET $3
-    `, [userId, limit, offset])
+    const shares = await repositories.shares.listByUser(userId, { offset, limit })
 
     return {
-      shares: shares.map((share: any) => ({
+      shares: shares.map(share => ({
         id: share.id,
         shareToken: share.share_token,
         shareUrl: `/share/${share.share_token}`,
@@ -241,6 +228,7 @@ export abstract class SharesService {
         description: share.description,
         photoCount: share.photo_ids.length,
         downloadType: share.download_type,
+        metadataPrivacy: share.metadata_privacy,
         viewCount: share.view_count,
         downloadCount: share.download_count,
         isActive: share.is_active,
@@ -257,43 +245,29 @@ export abstract class SharesService {
   }
 
   static async deleteShare(shareToken: string, userId: number) {
-    const shares = await db.select('public_shares', '*', {
-      share_token: shareToken,
-      user_id: userId
-    })
+    const repositories = getRepositories()
+    const share = await repositories.shares.findByToken(shareToken, userId)
 
-    if (!shares || shares.length === 0) {
+    if (!share) {
       throw new Error('Share not found or does not belong to you')
     }
 
-    await db.delete('public_shares', {
-      share_token: shareToken,
-      user_id: userId
-    })
+    await repositories.shares.delete(shareToken, userId)
 
     return { success: true }
   }
 
   static async toggleShareStatus(shareToken: string, userId: number) {
-    const shares = await db.select('public_shares', '*', {
-      share_token: shareToken,
-      user_id: userId
-    })
+    const repositories = getRepositories()
+    const share = await repositories.shares.findByToken(shareToken, userId)
 
-    if (!shares || shares.length === 0) {
+    if (!share) {
       throw new Error('Share not found or does not belong to you')
     }
 
-    const share = shares[0] as any
     const newStatus = !share.is_active
 
-    await db.update('public_shares',
-      { is_active: newStatus },
-      {
-        share_token: shareToken,
-        user_id: userId
-      }
-    )
+    await repositories.shares.update(shareToken, { is_active: newStatus })
 
     return {
       shareToken,
@@ -1,63 +1,34 @@
-import { db } from '../../database/supabase'
+import { getRepositories } from '../../database/repositories'
 
 export abstract class StatsService {
   static async getUserStats(userId: number) {
+    const repositories = getRepositories()
+
     // Get basic user info
-    const users = await db.select('users', '*', { id: userId })
-    const user = users[0] as any
+    const user = await repositories.users.findById(userId)
 
     // Count total photos
-    const { count: totalPhotos } = await db.client
-      .from('photos')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .is('deleted_at', null)
+    const totalPhotos = await repositories.photos.countByUser(userId)
 
     // Count processed photos (photos with processed_path)
-    const { count: totalProcessedPhotos } = await db.client
-      .from('photos')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .is('deleted_at', null)
-      .not('processed_path', 'is', null)
+    const totalProcessedPhotos = await repositories.photos.countByUser(userId, { processed: true })
 
     // Count favorites
-    const { count: totalFavorites } = await db.client
-      .from('photos')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .is('deleted_at', null)
-      .eq('is_favorite', true)
+    const totalFavorites = await repositories.photos.countByUser(userId, { favorite: true })
 
     // Count filters used (from photo_filters table)
     // First get user photo IDs
-    const { data: userPhotos } = await db.client
-      .from('photos')
-      .select('id')
-      .eq('user_id', userId)
-      .is('deleted_at', null)
-
-    const photoIds = (userPhotos || []).map((photo: any) => photo.id)
-
-    let filtersUsed = 0
-    if (photoIds.length > 0) {
-      const { count } = await db.client
-        .from('photo_filters')
-        .select('*', { count: 'exact', head: true })
-        .in('photo_id', photoIds)
-      filtersUsed = count || 0
-    }
+    const userPhotos = totalPhotos > 0
+      ? await repositories.photos.listByUser(userId, { offset: 0, limit: totalPhotos })
+      : []
+
+    const photoIds = userPhotos.map(photo => photo.id)
+    const filtersUsed = await repositories.photoFilters.countByPhotoIds(photoIds)
 
     // Get recent activity (last 10 photos)
-    const { data: recentPhotos } = await db.client
-      .from('photos')
-      .select('display_name, created_at, processed_path')
-      .eq('user_id', userId)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false })
-      .limit(10)
-
-    const recentActivity = (recentPhotos || []).map((photo: any) => ({
+    const recentPhotos = userPhotos.slice(0, 10)
+
+    const recentActivity = recentPhotos.map(photo => ({
       type: photo.processed_path ? 'filter_applied' : 'photo_uploaded',
       description: photo.processed_path
         ? `Applied filter to "${photo.display_name}"`
@@ -74,22 +45,8 @@ export abstract class StatsService {
       const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
       const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
 
-      const weekResult = await db.client
-        .from('photos')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .is('deleted_at', null)
-        .gte('created_at', oneWeekAgo.toISOString())
-
-      const monthResult = await db.client
-        .from('photos')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .is('deleted_at', null)
-        .gte('created_at', oneMonthAgo.toISOString())
-
-      uploadsThisWeek = weekResult.count || 0
-      uploadsThisMonth = monthResult.count || 0
+      uploadsThisWeek = await repositories.photos.countByUser(userId, { createdAfter: oneWeekAgo.toISOString() })
+      uploadsThisMonth = await repositories.photos.countByUser(userId, { createdAfter: oneMonthAgo.toISOString() })
     } catch (error) {
       console.error('Upload stats calculation error:', error)
       // Continue with default values
@@ -114,46 +71,36 @@ export abstract class StatsService {
   }
 
   static async getFilterStats() {
+    const repositories = getRepositories()
+
+    const categories = await repositories.filters.listCategories()
+    const filters = await repositories.filters.listActive()
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]))
+
     // Get top filters by usage
-    const { data: topFilters } = await db.client
-      .from('filters')
-      .select(`
-        id,
-        name,
-        display_name,
-        usage_count,
-        filter_categories(name)
-      `)
-      .eq('is_active', true)
-      .order('usage_count', { ascending: false })
-      .limit(10)
+    const topFilters = [...filters]
+      .sort((a, b) => b.usage_count - a.usage_count)
+      .slice(0, 10)
 
     // Get filter category stats
-    const { data: categoryStats } = await db.client
-      .from('filter_categories')
-      .select(`
-        id,
-        name,
-        filters(usage_count)
-      `)
-      .eq('is_active', true)
-
-    const filterCategoryStats = (categoryStats || []).map((category: any) => ({
+    const filterCategoryStats = categories.map(category => ({
       categoryId: category.id,
       categoryName: category.name,
-      usageCount: category.filters.reduce((sum: number, filter: any) => sum + filter.usage_count, 0)
+      usageCount: filters
+        .filter(filter => filter.category_id === category.id)
+        .reduce((sum, filter) => sum + filter.usage_count, 0)
     }))
 
     // Calculate total filters used across all users
-    const totalFiltersUsed = (topFilters || []).reduce((sum, filter: any) => sum + filter.usage_count, 0)
+    const totalFiltersUsed = topFilters.reduce((sum, filter) => sum + filter.usage_count, 0)
 
     return {
-      topFilters: (topFilters || []).map((filter: any) => ({
+      topFilters: topFilters.map(filter => ({
         id: filter.id,
         name: filter.name,
         displayName: filter.display_name,
         usageCount: filter.usage_count,
-        categoryName: filter.filter_categories?.name || 'Unknown'
+        categoryName: (filter.category_id && categoryNames.get(filter.category_id)) || 'Unknown'
       })),
       totalFiltersUsed,
       filterCategoryStats
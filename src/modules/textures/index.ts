@@ -0,0 +1,78 @@
+import { Elysia } from 'elysia'
+import { TexturesService } from './service'
+import { TexturesModel } from './model'
+import { AuthService } from '../auth/service'
+import { createSuccessResponse, handleError } from '../../utils/errors'
+
+export const texturesModule = new Elysia({ prefix: '/api/textures' })
+  .model(TexturesModel)
+
+  // List the texture library (public endpoint)
+  .get('/', async ({ set }) => {
+    try {
+      const textures = await TexturesService.listTextures()
+
+      return createSuccessResponse({ textures }, 'Textures retrieved successfully')
+
+    } catch (error) {
+      console.error('Get textures error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'texturesListResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Upload a texture to the library (requires an admin session)
+  .post('/', async ({ body, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      await AuthService.validateAdminSession(sessionToken)
+
+      const file = (body as any)?.file
+      const name = (body as any)?.name
+
+      if (!file || typeof file.arrayBuffer !== 'function') {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'No file field found' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const texture = await TexturesService.uploadTexture(file, typeof name === 'string' ? name : undefined)
+
+      set.status = 201
+      return createSuccessResponse({ texture }, 'Texture uploaded successfully')
+
+    } catch (error) {
+      console.error('Upload texture error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      201: 'textureUploadResponse',
+      400: 'errorResponse',
+      403: 'errorResponse',
+      413: 'errorResponse',
+      500: 'errorResponse'
+    }
+  })
@@ -0,0 +1,44 @@
+import { t } from 'elysia'
+
+export const TexturesModel = {
+  texturesListResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      textures: t.Array(t.Object({
+        name: t.String(),
+        url: t.String(),
+        filters: t.Array(t.Object({
+          id: t.Number(),
+          name: t.String()
+        }))
+      }))
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  textureUploadResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      texture: t.Object({
+        name: t.String(),
+        url: t.String(),
+        width: t.Number(),
+        height: t.Number(),
+        fileSize: t.Number()
+      })
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  errorResponse: t.Object({
+    success: t.Boolean(),
+    error: t.Object({
+      code: t.String(),
+      message: t.String(),
+      details: t.Optional(t.String())
+    }),
+    timestamp: t.String()
+  })
+}
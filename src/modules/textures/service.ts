@@ -0,0 +1,91 @@
+import sharp from 'sharp'
+import { getRepositories } from '../../database/repositories'
+import { getStorageDriver } from '../../storage'
+import { Errors } from '../../utils/errors'
+import {
+  clearTextureCache,
+  getTexturePath,
+  getTextureStem,
+  listTextureNames
+} from '../../utils/textures'
+import { clearPreviewCache } from '../../utils/previews'
+
+const MAX_TEXTURE_SIZE = 10 * 1024 * 1024
+const TEXTURE_FORMATS: Record<string, { extension: string, contentType: string }> = {
+  png: { extension: 'png', contentType: 'image/png' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' },
+  webp: { extension: 'webp', contentType: 'image/webp' }
+}
+
+export abstract class TexturesService {
+  static async listTextures() {
+    const driver = getStorageDriver()
+    const names = await listTextureNames()
+    const filters = await getRepositories().filters.listActive()
+
+    return names.map(name => ({
+      name,
+      url: driver.getPublicUrl(getTexturePath(name)),
+      // Filters bound to this texture, directly or through the `texture` parameter
+      filters: filters
+        .filter(filter => {
+          const reference = filter.texture_image || filter.parameters?.texture
+          return typeof reference === 'string' && getTextureStem(reference.split('/').pop()!) === getTextureStem(name)
+        })
+        .map(filter => ({ id: filter.id, name: filter.name }))
+    }))
+  }
+
+  // Store a texture in the library. Uploading a name that already exists (in any
+  // format) replaces it, so filters referencing it pick up the new image.
+  static async uploadTexture(file: File, name?: string) {
+    if (file.size > MAX_TEXTURE_SIZE) {
+      throw Errors.FileTooLarge(`${MAX_TEXTURE_SIZE / 1024 / 1024}MB`)
+    }
+
+    const data = Buffer.from(await file.arrayBuffer())
+    const metadata = await sharp(data).metadata().catch(() => null)
+    const format = metadata?.format ? TEXTURE_FORMATS[metadata.format] : undefined
+
+    if (!metadata || !format) {
+      throw Errors.InvalidFileType(file.type || 'unknown')
+    }
+
+    const stem = TexturesService.sanitizeName(name || file.name)
+    if (!stem) {
+      throw Errors.InvalidParameters('Texture name must contain letters or numbers')
+    }
+
+    const driver = getStorageDriver()
+    const textureName = `${stem}.${format.extension}`
+
+    // Drop other formats of the same texture so lookups by stem stay unambiguous
+    const replaced = (await listTextureNames())
+      .filter(existing => existing !== textureName && getTextureStem(existing) === stem)
+    if (replaced.length > 0) {
+      await driver.remove(replaced.map(getTexturePath))
+    }
+
+    const url = await driver.upload(getTexturePath(textureName), data, format.contentType)
+    clearTextureCache()
+    // Cached filter previews may show the old texture
+    clearPreviewCache()
+
+    return {
+      name: textureName,
+      url,
+      width: metadata.width || 0,
+      height: metadata.height || 0,
+      fileSize: data.length
+    }
+  }
+
+  // `Vintage Paper.PNG` -> `vintage_paper`
+  static sanitizeName(name: string) {
+    return getTextureStem(name.split(/[\\/]/).pop() || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 100)
+  }
+}
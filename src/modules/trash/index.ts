@@ -0,0 +1,175 @@
+import { Elysia } from 'elysia'
+import { TrashService } from './service'
+import { TrashModel } from './model'
+import { AuthService } from '../auth/service'
+import { PhotosService } from '../photos/service'
+import { createSuccessResponse, handleError } from '../../utils/errors'
+
+export const trashModule = new Elysia({ prefix: '/api/trash' })
+  .model(TrashModel)
+
+  // List photos in the trash
+  .get('/', async ({ query, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const page = parseInt(query.page as string) || 1
+      const limit = parseInt(query.limit as string) || 50
+
+      const result = await TrashService.getTrashedPhotos(user.id, page, limit)
+
+      return createSuccessResponse({
+        photos: result.photos.map(photo => ({
+          ...PhotosService.formatPhotoResponse(photo),
+          deletedAt: photo.deleted_at!,
+          purgeAt: TrashService.getPurgeDate(photo.deleted_at!, result.retentionDays)
+        })),
+        retentionDays: result.retentionDays,
+        pagination: result.pagination
+      }, 'Trash retrieved successfully')
+
+    } catch (error) {
+      console.error('Get trash error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'trashListResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Restore a photo from the trash
+  .post('/:id/restore', async ({ params, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const photo = await TrashService.restorePhoto(photoId, user.id)
+
+      return createSuccessResponse({
+        photo: PhotosService.formatPhotoResponse(photo)
+      }, 'Photo restored successfully')
+
+    } catch (error) {
+      console.error('Restore photo error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  })
+
+  // Permanently delete a single photo from the trash
+  .delete('/:id', async ({ params, headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const photoId = parseInt(params.id)
+      if (isNaN(photoId)) {
+        set.status = 400
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid photo ID' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const result = await TrashService.deletePermanently(photoId, user.id)
+
+      return createSuccessResponse(result, 'Photo permanently deleted')
+
+    } catch (error) {
+      console.error('Permanent delete error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'purgeResponse',
+      400: 'errorResponse',
+      404: 'errorResponse',
+      500: 'errorResponse'
+    }
+  })
+
+  // Empty the trash
+  .delete('/', async ({ headers, set }) => {
+    try {
+      // Manual authentication
+      const authHeader = headers.authorization
+      if (!authHeader?.startsWith('Bearer ')) {
+        set.status = 401
+        return {
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'No token provided' },
+          timestamp: new Date().toISOString()
+        }
+      }
+
+      const sessionToken = authHeader.substring(7)
+      const { user } = await AuthService.validateSession(sessionToken)
+
+      const result = await TrashService.emptyTrash(user.id)
+
+      return createSuccessResponse(result, `Permanently deleted ${result.purgedCount} photo${result.purgedCount === 1 ? '' : 's'}`)
+
+    } catch (error) {
+      console.error('Empty trash error:', error)
+      const { response, status } = handleError(error)
+      set.status = status
+      return response
+    }
+  }, {
+    response: {
+      200: 'purgeResponse',
+      500: 'errorResponse'
+    }
+  })
@@ -0,0 +1,54 @@
+import { t } from 'elysia'
+
+export const TrashModel = {
+  trashListResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      photos: t.Array(t.Object({
+        id: t.Number(),
+        filename: t.String(),
+        displayName: t.String(),
+        thumbnailPath: t.String(),
+        originalPath: t.String(),
+        processedPath: t.Optional(t.Nullable(t.String())),
+        width: t.Number(),
+        height: t.Number(),
+        fileSize: t.Number(),
+        isFavorite: t.Boolean(),
+        viewCount: t.Number(),
+        createdAt: t.String(),
+        deletedAt: t.String(),
+        purgeAt: t.String()
+      })),
+      retentionDays: t.Number(),
+      pagination: t.Object({
+        page: t.Number(),
+        limit: t.Number(),
+        total: t.Number(),
+        totalPages: t.Number()
+      })
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  purgeResponse: t.Object({
+    success: t.Boolean(),
+    data: t.Object({
+      purgedCount: t.Number(),
+      freedBytes: t.Number()
+    }),
+    message: t.String(),
+    timestamp: t.String()
+  }),
+
+  errorResponse: t.Object({
+    success: t.Boolean(),
+    error: t.Object({
+      code: t.String(),
+      message: t.String(),
+      details: t.Optional(t.String())
+    }),
+    timestamp: t.String()
+  })
+}
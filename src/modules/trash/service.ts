@@ -0,0 +1,159 @@
+import { getRepositories } from '../../database/repositories'
+import { deleteAllImageVariants, deleteImage, getImagePath } from '../../utils/storage'
+import { releaseStorage } from '../../utils/quota'
+import { getStorageDriver } from '../../storage'
+import { Errors } from '../../utils/errors'
+import { deleteVariants } from '../../utils/variants'
+import type { PhotoTable } from '../../types/database'
+
+const DEFAULT_RETENTION_DAYS = 30
+const PURGE_BATCH_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export abstract class TrashService {
+  // Days a deleted photo stays restorable, from the trash_retention_days setting
+  static async getRetentionDays() {
+    const setting = await getRepositories().settings.get('trash_retention_days')
+    const days = Number(setting?.value)
+    return setting && Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS
+  }
+
+  static getPurgeDate(deletedAt: string, retentionDays: number) {
+    return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString()
+  }
+
+  static async getTrashedPhotos(userId: number, page: number = 1, limit: number = 50) {
+    const offset = (page - 1) * limit
+    const repositories = getRepositories()
+
+    const photos = await repositories.photos.listByUser(userId, { offset, limit }, { trashed: true })
+    const count = await repositories.photos.countByUser(userId, { trashed: true })
+    const retentionDays = await TrashService.getRetentionDays()
+
+    return {
+      photos,
+      retentionDays,
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit)
+      }
+    }
+  }
+
+  static async restorePhoto(photoId: number, userId: number) {
+    const repositories = getRepositories()
+    const photo = await repositories.photos.findById(photoId, userId)
+
+    if (!photo || !photo.deleted_at) {
+      throw Errors.PhotoNotFound(photoId)
+    }
+
+    return repositories.photos.update(photoId, { deleted_at: null })
+  }
+
+  static async deletePermanently(photoId: number, userId: number) {
+    const photo = await getRepositories().photos.findById(photoId, userId)
+
+    if (!photo || !photo.deleted_at) {
+      throw Errors.PhotoNotFound(photoId)
+    }
+
+    await TrashService.purgePhoto(photo)
+    return { purgedCount: 1, freedBytes: photo.file_size }
+  }
+
+  static async emptyTrash(userId: number) {
+    const { photos } = getRepositories()
+    let purgedCount = 0
+    let freedBytes = 0
+
+    // Purged rows drop out of the listing, so always read the first page
+    while (true) {
+      const batch = await photos.listByUser(userId, { offset: 0, limit: PURGE_BATCH_SIZE }, { trashed: true })
+      if (batch.length === 0) break
+
+      for (const photo of batch) {
+        await TrashService.purgePhoto(photo)
+        purgedCount++
+        freedBytes += photo.file_size
+      }
+    }
+
+    return { purgedCount, freedBytes }
+  }
+
+  // Hard-delete every photo that has been in the trash longer than the retention period
+  static async purgeExpired(now: Date = new Date()) {
+    const retentionDays = await TrashService.getRetentionDays()
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString()
+    const { photos } = getRepositories()
+
+    let purgedCount = 0
+    let failedCount = 0
+    let freedBytes = 0
+
+    while (true) {
+      const batch = await photos.listTrashedBefore(cutoff, PURGE_BATCH_SIZE)
+      let batchPurged = 0
+
+      for (const photo of batch) {
+        try {
+          await TrashService.purgePhoto(photo)
+          batchPurged++
+          freedBytes += photo.file_size
+        } catch (error) {
+          console.error(`Failed to purge photo ${photo.id}:`, error)
+          failedCount++
+        }
+      }
+
+      purgedCount += batchPurged
+
+      // Stop when the backlog is drained or a whole batch keeps failing
+      if (batch.length < PURGE_BATCH_SIZE || batchPurged === 0) break
+    }
+
+    return { purgedCount, failedCount, freedBytes, cutoff }
+  }
+
+  // Remove a trashed photo's storage objects and rows, then return its bytes to the owner's quota
+  private static async purgePhoto(photo: PhotoTable) {
+    const repositories = getRepositories()
+    const driver = getStorageDriver()
+    const originalKey = driver.keyFromUrl(photo.original_path)
+
+    // Filtered copies point at their source's original, so it stays while any other row uses it
+    const originalShared = await repositories.photos.countByOriginalPath(photo.original_path, photo.id) > 0
+
+    if (originalShared) {
+      await Promise.all([
+        deleteImage(photo.filename, 'thumbnail'),
+        deleteImage(photo.filename, 'processed')
+      ])
+    } else {
+      await deleteAllImageVariants(photo.filename)
+
+      // The last copy referencing an already purged source also takes that original with it
+      if (originalKey && originalKey !== getImagePath(photo.filename, 'original')) {
+        await deleteImage(originalKey)
+      }
+    }
+
+    // Edits render under their own names (see EditsService.render); like variants,
+    // renders are always the row's own, even for filtered copies
+    const renderKeys = [photo.processed_path, photo.thumbnail_path]
+      .map(url => url ? driver.keyFromUrl(url) : null)
+      .filter((key): key is string => Boolean(key) && key !== originalKey)
+    if (renderKeys.length > 0) {
+      await driver.remove(renderKeys)
+    }
+    await deleteVariants(photo.variants)
+
+    await repositories.photoFilters.deleteByPhotoId(photo.id)
+    await repositories.photoEdits.deleteByPhotoId(photo.id)
+    await repositories.photos.delete(photo.id)
+    await releaseStorage(photo.user_id, photo.file_size)
+  }
+}
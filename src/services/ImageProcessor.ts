@@ -2,6 +2,12 @@ import sharp from 'sharp';
 import { join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 import type { Filter } from '../types/api';
+import { loadWorkingImage, WORKING_PROFILE } from '../utils/colorspace';
+import { applyToneTablesToPixels, buildToneTables, parseToneCurves, shadowHighlightCurve, type ToneCurves } from '../utils/curves';
+import { resolveGeometry, isIdentityGeometry, type Geometry } from '../utils/geometry';
+import { buildColorGradeLut, parseHslMixer, parseSplitToning, type HslMixer, type SplitToning } from '../utils/hsl';
+import { applyLutToPixels, loadLut, type LutInterpolation } from '../utils/lut';
+import { isTextureBlendMode, loadTexture, type TextureBlendMode } from '../utils/textures';
 import { storageService, type UploadResult } from './StorageService';
 
 export interface ProcessingOptions {
@@ -12,12 +18,32 @@ export interface ProcessingOptions {
   fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
 }
 
+// Effects that can be given their own strength through `effect_intensity`
+export type FilterEffect =
+  | 'lut'
+  | 'color'
+  | 'vignette'
+  | 'grain'
+  | 'color_shift'
+  | 'blue_shadows'
+  | 'blur_edges'
+  | 'frame'
+  | 'texture';
+
+export type EffectStrength = (effect: FilterEffect) => number;
+
+// Filter output is JPEG, so anything still transparent at the end is laid on this
+const PAPER_WHITE = '#ffffff';
+
 export interface FilterParameters {
   // Paper effects
   borderWidth?: number;
   borderColor?: string;
   shadow?: boolean;
   texture?: string;
+  texture_blend?: TextureBlendMode;
+  texture_scale?: number;
+  texture_opacity?: number;
 
   // Color effects
   brightness?: number;
@@ -29,9 +55,11 @@ export interface FilterParameters {
   vignette?: number;
   grain?: number;
 
-  // Advanced color adjustments
+  // Advanced color adjustments. `shadows` and `highlights` (-1 to 1) move the
+  // quarter tones of a master curve; `curves` gives full control points.
   shadows?: number;
   highlights?: number;
+  curves?: ToneCurves;
   clarity?: number;
   soft_light?: number;
 
@@ -41,11 +69,25 @@ export interface FilterParameters {
   green_boost?: number;
   orange_boost?: number;
 
+  // HSL mixer: per-band hue/saturation/luminance, each -1 to 1
+  hsl?: HslMixer;
+
+  // Split toning: hues 0-360, saturations 0-1, balance -1 (shadows) to 1 (highlights)
+  split_shadow_hue?: number;
+  split_shadow_saturation?: number;
+  split_highlight_hue?: number;
+  split_highlight_saturation?: number;
+  split_balance?: number;
+
   // Tint effects
   yellow_tint?: number;
   red_leak?: number;
   fade?: number;
 
+  // 3D LUT grading (filters.lut_file)
+  lut_intensity?: number;
+  lut_interpolation?: LutInterpolation;
+
   // Artistic effects
   color_shift?: number;
   blue_shadows?: number;
@@ -58,10 +100,28 @@ export interface FilterParameters {
   tape_effect?: boolean;
   corners?: boolean;
 
+  // Per-effect strength (0-1, default 1) used when rendering the full effect,
+  // before the result is mixed over the source by the apply intensity
+  effect_intensity?: Partial<Record<FilterEffect, number>>;
+
   // Custom parameters
   [key: string]: any;
 }
 
+// Downscaled photo kept as raw sRGB pixels, so previews skip decoding the original
+export interface PreviewSource {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+export interface FilterStackStep {
+  filter: Filter;
+  intensity: number;
+  customParams: FilterParameters;
+}
+
 export class ImageProcessor {
   private uploadsDir: string;
   private originalsDir: string;
@@ -100,8 +160,7 @@ export class ImageProcessor {
 
     try {
       // Get image metadata
-      const image = sharp(file);
-      const metadata = await image.metadata();
+      const metadata = await sharp(file).metadata();
 
       console.log('Sharp metadata from uploaded file:', {
         width: metadata.width,
@@ -110,8 +169,10 @@ export class ImageProcessor {
         size: file.length || 'unknown'
       });
 
-      // Save original
-      await image
+      // Save original upright, keeping its colour profile
+      await sharp(file)
+        .autoOrient()
+        .keepIccProfile()
         .jpeg({ quality: options.quality || 95 })
         .toFile(originalPath);
 
@@ -121,7 +182,7 @@ export class ImageProcessor {
       return {
         originalPath: this.getRelativePath(originalPath),
         thumbnailPath: this.getRelativePath(thumbnailPath),
-        metadata
+        metadata: { ...metadata, ...metadata.autoOrient }
       };
 
     } catch (error) {
@@ -135,7 +196,7 @@ export class ImageProcessor {
     outputPath: string,
     size: number = 300
   ): Promise<void> {
-    await sharp(input)
+    await this.toOutput(loadWorkingImage(input))
       .resize(size, size, {
         fit: 'cover',
         withoutEnlargement: true
@@ -153,6 +214,8 @@ export class ImageProcessor {
     processedPath: string;
     processingTimeMs: number;
     fileSize: number;
+    width: number;
+    height: number;
   }> {
     const startTime = Date.now();
     const absoluteInputPath = this.getAbsolutePath(inputPath);
@@ -161,38 +224,17 @@ export class ImageProcessor {
     const inputFilename = inputPath.split('/').pop()!;
     const ext = inputFilename.split('.').pop();
     const baseName = inputFilename.replace(`.${ext}`, '');
-    const outputFilename = `${baseName}_${filter.name}.${ext}`;
+    const outputFilename = `${baseName}_${filter.name}.jpg`;
     const outputPath = join(this.processedDir, outputFilename);
 
     try {
-      let image = sharp(absoluteInputPath);
-
-      // Parse filter parameters
-      const parameters = { ...filter.parameters, ...customParams };
-      console.log('=== FILTER APPLICATION START ===');
-      console.log('Filter name:', filter.name);
-      console.log('Filter type:', filter.filterType);
-      console.log('Raw filter.parameters:', filter.parameters);
-      console.log('Merged parameters:', parameters);
-      console.log('Intensity:', intensity);
-      console.log('Input path:', inputPath);
-
-      // Apply filter based on type
-      switch (filter.filterType) {
-        case 'paper':
-          image = await this.applyPaperFilter(image, parameters, intensity);
-          break;
-        case 'color':
-          image = await this.applyColorFilter(image, parameters, intensity);
-          break;
-        case 'composite':
-          image = await this.applyCompositeFilter(image, parameters, intensity);
-          break;
-      }
+      const image = await this.renderFilter(() => loadWorkingImage(absoluteInputPath), filter, intensity, customParams);
+      const load = await this.materialize(image);
 
       // Save processed image
       console.log('Saving processed image to:', outputPath);
-      await image.jpeg({ quality: 85 }).toFile(outputPath);
+      // Frames change the canvas, so report the size actually written
+      const { width, height } = await this.toOutput(load()).jpeg({ quality: 85 }).toFile(outputPath);
 
       const stats = await Bun.file(outputPath).exists() ?
         await Bun.file(outputPath).size : 0;
@@ -208,7 +250,9 @@ export class ImageProcessor {
       return {
         processedPath: this.getRelativePath(outputPath),
         processingTimeMs,
-        fileSize: stats
+        fileSize: stats,
+        width,
+        height
       };
 
     } catch (error) {
@@ -217,13 +261,231 @@ export class ImageProcessor {
     }
   }
 
+  // Apply several filters in order and encode once. Each step renders from the
+  // previous step's pixels, so only the final output is compressed.
+  async applyFilterStack(
+    inputPath: string,
+    steps: FilterStackStep[],
+    options: { geometry?: Geometry | null } = {}
+  ): Promise<{
+    processedPath: string;
+    processingTimeMs: number;
+    stepTimesMs: number[];
+    fileSize: number;
+    width: number;
+    height: number;
+  }> {
+    const startTime = Date.now();
+    const absoluteInputPath = this.getAbsolutePath(inputPath);
+
+    const inputFilename = inputPath.split('/').pop()!;
+    const ext = inputFilename.split('.').pop();
+    const baseName = inputFilename.replace(`.${ext}`, '');
+    const outputPath = join(this.processedDir, `${baseName}_stack.${ext}`);
+
+    try {
+      let load = () => loadWorkingImage(absoluteInputPath);
+      const stepTimesMs: number[] = [];
+
+      // Reshape up front; filters read their canvas size from the image they're given
+      if (!isIdentityGeometry(options.geometry)) {
+        load = await this.materialize(await this.applyGeometry(loadWorkingImage(absoluteInputPath), options.geometry!));
+      }
+
+      for (const step of steps) {
+        const stepStart = Date.now();
+        const image = await this.renderFilter(load, step.filter, step.intensity, step.customParams);
+
+        // Keep the intermediate result as raw pixels for the next step
+        load = await this.materialize(image);
+        stepTimesMs.push(Date.now() - stepStart);
+      }
+
+      // Geometry and frames change the canvas, so report the size actually written
+      const { width, height } = await this.toOutput(load()).jpeg({ quality: 85 }).toFile(outputPath);
+
+      const fileSize = await Bun.file(outputPath).exists() ?
+        await Bun.file(outputPath).size : 0;
+
+      return {
+        processedPath: this.getRelativePath(outputPath),
+        processingTimeMs: Date.now() - startTime,
+        stepTimesMs,
+        fileSize,
+        width,
+        height
+      };
+
+    } catch (error) {
+      console.error('Error applying filter stack:', error);
+      throw new Error(`Failed to apply filter stack: ${error}`);
+    }
+  }
+
+  async createPreviewSource(input: Buffer, size: number): Promise<PreviewSource> {
+    const { data, info } = await loadWorkingImage(input)
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height, channels: info.channels };
+  }
+
+  // Render a filter over a preview source in memory, without touching the file system.
+  // Paper filters render at print size, so the result is scaled back down to `size`.
+  async renderPreview(
+    source: PreviewSource,
+    filter: Filter,
+    intensity: number = 1.0,
+    customParams: FilterParameters = {},
+    size: number = Math.max(source.width, source.height)
+  ): Promise<Buffer> {
+    const { data, ...raw } = source;
+    const image = await this.renderFilter(() => sharp(data, { raw }), filter, intensity, customParams);
+    const load = await this.materialize(image);
+
+    return this.toOutput(load())
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  }
+
+  // Final touches before a JPEG encode: rounded corners, torn edges and cut-out photos
+  // become paper white instead of black, and the pixels are tagged as sRGB. sharp
+  // flattens before it composites, so renders must be materialized first.
+  private toOutput(image: sharp.Sharp): sharp.Sharp {
+    return image.flatten({ background: PAPER_WHITE }).withIccProfile(WORKING_PROFILE);
+  }
+
+  // Rotate, mirror, straighten and crop as described by `geometry` (see utils/geometry)
+  async applyGeometry(image: sharp.Sharp, geometry: Geometry): Promise<sharp.Sharp> {
+    // autoOrient holds the size after EXIF orientation, which is what the user sees
+    const { autoOrient } = await image.metadata();
+    const plan = resolveGeometry(autoOrient.width, autoOrient.height, geometry);
+
+    // Each stage is materialized so sharp can't reorder it (it mirrors before rotating)
+    let load = await this.materialize(image.rotate(plan.rotate));
+
+    if (plan.flipHorizontal || plan.flipVertical) {
+      load = await this.materialize(load().flop(plan.flipHorizontal).flip(plan.flipVertical));
+    }
+
+    if (plan.straighten) {
+      const rotated = await load()
+        .rotate(plan.straighten.angle, { background: { r: 255, g: 255, b: 255, alpha: 1 } })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      const { width: cropWidth, height: cropHeight } = plan.straighten.extract;
+
+      // Centre the window on the canvas sharp actually produced
+      load = await this.materialize(
+        sharp(rotated.data, { raw: { width: rotated.info.width, height: rotated.info.height, channels: rotated.info.channels } })
+          .extract({
+            left: Math.floor((rotated.info.width - cropWidth) / 2),
+            top: Math.floor((rotated.info.height - cropHeight) / 2),
+            width: cropWidth,
+            height: cropHeight
+          })
+      );
+    }
+
+    return plan.extract ? load().extract(plan.extract) : load();
+  }
+
+  // Render the pipeline to raw sRGB pixels and return a loader for them
+  private async materialize(image: sharp.Sharp): Promise<() => sharp.Sharp> {
+    const { data, info } = await image.toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
+    return () => sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+  }
+
+  // Render one filter over the image produced by `load`. The loader is called again
+  // when the source is needed for the intensity mix.
+  private async renderFilter(
+    load: () => sharp.Sharp,
+    filter: Filter,
+    intensity: number,
+    customParams: FilterParameters
+  ): Promise<sharp.Sharp> {
+    let image = load();
+
+    // Parse filter parameters
+    const parameters: FilterParameters = {
+      ...filter.parameters,
+      ...customParams,
+      effect_intensity: { ...filter.parameters.effect_intensity, ...customParams.effect_intensity }
+    };
+    const strength = this.getEffectStrength(parameters);
+    console.log('=== FILTER APPLICATION START ===');
+    console.log('Filter name:', filter.name);
+    console.log('Filter type:', filter.filterType);
+    console.log('Raw filter.parameters:', filter.parameters);
+    console.log('Merged parameters:', parameters);
+    console.log('Intensity:', intensity);
+
+    // Effects render at full strength (or their effect_intensity override) and
+    // `intensity` then mixes that result over the source, so 0.5 is half the look
+
+    // Grade with the filter's LUT first so parametric adjustments apply on top of the look
+    if (filter.lutFile) {
+      image = await this.applyLut(image, filter.lutFile, parameters, strength('lut'));
+    }
+
+    // A texture passed in customParameters wins over the one bound to the filter.
+    // Either way it only names a library texture (see loadTexture).
+    const customTexture = typeof customParams.texture === 'string' ? customParams.texture : null;
+    const texture = customTexture || filter.textureImage || filter.parameters.texture;
+
+    // Apply filter based on type
+    switch (filter.filterType) {
+      case 'paper':
+        image = await this.applyPaperFilter(image, parameters, strength, texture);
+        break;
+      case 'color':
+        image = await this.applyColorFilter(image, parameters, strength('color'));
+        break;
+      case 'composite':
+        image = await this.applyCompositeFilter(image, parameters, strength, texture);
+        break;
+    }
+
+    if (intensity < 1) {
+      // Frames change the canvas, so the source gets the same frame (without its
+      // decorations) and the frame itself always shows at full size
+      const source = filter.filterType === 'color'
+        ? load()
+        : await this.applyPaperFilter(load(), parameters, strength, texture, false);
+
+      image = await this.mixImages(source, image, intensity);
+    }
+
+    return image;
+  }
+
+  // `decorate: false` builds only the frame geometry (borders, crop, rounded_corners)
+  // and skips textures, tape, torn edges and the Instax corner rounding
   private async applyPaperFilter(
     image: sharp.Sharp,
     params: FilterParameters,
-    intensity: number
+    strength: EffectStrength,
+    texture?: string,
+    decorate: boolean = true
   ): Promise<sharp.Sharp> {
     const metadata = await image.metadata();
     const { width = 1000, height = 1000 } = metadata;
+    const intensity = strength('frame');
+
+    // A transparent photo (a cut-out or sticker) sits on the paper of its frame
+    if (metadata.hasAlpha) {
+      image = image.flatten({ background: params.borderColor || params.border_color || PAPER_WHITE });
+    }
+    const textureIntensity = strength('texture');
+
+    // Textures that aren't in the library fall back to the generated noise below
+    const textureImage = texture && decorate ? await loadTexture(texture) : null;
+    if (texture && decorate && !textureImage) {
+      console.log('Texture not found in library:', texture);
+    }
 
     console.log('=== PAPER FILTER START ===');
     console.log('Image dimensions:', { width, height });
@@ -276,25 +538,27 @@ export class ImageProcessor {
 
       // Add subtle rounded corners effect
       const cornerRadius = 8;
-      image = image.composite([{
-        input: Buffer.from(`
-          <svg width="${targetFrameWidth}" height="${targetFrameHeight}">
-            <defs>
-              <mask id="rounded">
-                <rect width="100%" height="100%" fill="white" rx="${cornerRadius}" ry="${cornerRadius}"/>
-              </mask>
-            </defs>
-            <rect width="100%" height="100%" fill="transparent" mask="url(#rounded)"/>
-          </svg>
-        `),
-        top: 0,
-        left: 0,
-        blend: 'dest-in'
-      }]);
+      if (decorate) {
+        image = image.composite([{
+          input: Buffer.from(`
+            <svg width="${targetFrameWidth}" height="${targetFrameHeight}">
+              <defs>
+                <mask id="rounded">
+                  <rect width="100%" height="100%" fill="white" rx="${cornerRadius}" ry="${cornerRadius}"/>
+                </mask>
+              </defs>
+              <rect width="100%" height="100%" fill="white" mask="url(#rounded)"/>
+            </svg>
+          `),
+          top: 0,
+          left: 0,
+          blend: 'dest-in'
+        }]);
+      }
 
       // Add subtle texture to the border if specified
-      if (params.texture && intensity > 0.3) {
-        const textureOpacity = Math.min(0.1, intensity * 0.15);
+      if (texture && decorate && !textureImage && textureIntensity > 0.3) {
+        const textureOpacity = Math.min(0.1, textureIntensity * 0.15);
         image = image.composite([{
           input: Buffer.from(`
             <svg width="${targetFrameWidth}" height="${targetFrameHeight}">
@@ -390,7 +654,7 @@ export class ImageProcessor {
       }
 
       // Add tape effect for corners
-      if (params.tape_effect && params.corners) {
+      if (decorate && params.tape_effect && params.corners) {
         const totalWidth = width + leftBorder + rightBorder;
         const totalHeight = height + topBorder + bottomBorder;
         const tapeSize = Math.min(totalWidth, totalHeight) * 0.08;
@@ -449,7 +713,7 @@ export class ImageProcessor {
       }
 
       // Add torn edges effect
-      if (params.torn_effect) {
+      if (decorate && params.torn_effect) {
         const totalWidth = width + leftBorder + rightBorder;
         const totalHeight = height + topBorder + bottomBorder;
 
@@ -499,6 +763,10 @@ export class ImageProcessor {
       });
     }
 
+    if (textureImage) {
+      image = await this.applyTexture(image, textureImage, params, textureIntensity);
+    }
+
     // Add shadow effect
     if (params.shadow && intensity > 0.5) {
       console.log('Adding shadow effect');
@@ -510,6 +778,177 @@ export class ImageProcessor {
     return image;
   }
 
+  private getEffectStrength(params: FilterParameters): EffectStrength {
+    const overrides = params.effect_intensity || {};
+
+    return effect => {
+      const value = Number(overrides[effect]);
+      return overrides[effect] !== undefined && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 1;
+    };
+  }
+
+  // Opacity mix of `overlay` over `base`; both must render to the same size
+  private async mixImages(base: sharp.Sharp, overlay: sharp.Sharp, opacity: number): Promise<sharp.Sharp> {
+    const toRaw = (image: sharp.Sharp) => image.toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
+    const [{ data: underData, info: under }, { data: overData, info: over }] = await Promise.all([toRaw(base), toRaw(overlay)]);
+
+    if (under.width !== over.width || under.height !== over.height) {
+      throw new Error(`Cannot mix ${over.width}x${over.height} result over ${under.width}x${under.height} source`);
+    }
+
+    // Rounded or torn frames add alpha to only one side
+    const channels = Math.max(under.channels, over.channels) as sharp.Channels;
+    const from = this.withChannels(underData, under.channels, channels);
+    const to = this.withChannels(overData, over.channels, channels);
+    const mix = Math.max(0, Math.min(1, opacity));
+
+    const mixed = Buffer.alloc(to.length);
+    for (let index = 0; index < to.length; index++) {
+      mixed[index] = Math.round(from[index]! + (to[index]! - from[index]!) * mix);
+    }
+
+    return sharp(mixed, { raw: { width: over.width, height: over.height, channels } });
+  }
+
+  // Pad RGB pixels to RGBA with an opaque alpha channel
+  private withChannels(data: Buffer, channels: number, target: number): Buffer {
+    if (channels === target) {
+      return data;
+    }
+
+    const padded = Buffer.alloc((data.length / channels) * target, 255);
+    for (let source = 0, destination = 0; source < data.length; source += channels, destination += target) {
+      data.copy(padded, destination, source, source + channels);
+    }
+    return padded;
+  }
+
+  private async applyTexture(
+    image: sharp.Sharp,
+    texture: Buffer,
+    params: FilterParameters,
+    intensity: number
+  ): Promise<sharp.Sharp> {
+    const opacity = Math.max(0, Math.min(1, (params.texture_opacity !== undefined ? params.texture_opacity : 0.35) * intensity));
+    const scale = params.texture_scale !== undefined && params.texture_scale > 0 ? params.texture_scale : 1;
+    const blend = isTextureBlendMode(params.texture_blend) ? params.texture_blend : 'multiply';
+
+    if (opacity === 0) {
+      return image;
+    }
+
+    // Flatten the pipeline so the overlay is laid over the final frame (borders included)
+    const { data, info } = await image.toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
+    const raw = { width: info.width, height: info.height, channels: info.channels };
+
+    // Scale the texture, then crop it to the frame since sharp can't tile a larger image
+    const textureMetadata = await sharp(texture).metadata();
+    const tileWidth = Math.max(1, Math.round((textureMetadata.width || info.width) * scale));
+    const tileHeight = Math.max(1, Math.round((textureMetadata.height || info.height) * scale));
+
+    const tile = await sharp(texture)
+      .resize(tileWidth, tileHeight, { fit: 'fill' })
+      .extract({ left: 0, top: 0, width: Math.min(tileWidth, info.width), height: Math.min(tileHeight, info.height) })
+      .toColourspace('srgb')
+      .ensureAlpha()
+      .png()
+      .toBuffer();
+
+    const overlay = await sharp(tile)
+      .linear([1, 1, 1, opacity], [0, 0, 0, 0])
+      .png()
+      .toBuffer();
+
+    console.log('Applying texture:', { blend, scale, opacity, tile: `${tileWidth}x${tileHeight}` });
+
+    // Compositing always yields RGBA
+    const blended = await sharp(data, { raw })
+      .composite([{ input: overlay, tile: true, blend }])
+      .raw()
+      .toBuffer();
+
+    if (info.channels !== 4) {
+      return sharp(blended, { raw: { ...raw, channels: 4 } }).removeAlpha();
+    }
+
+    // Blending would paint the texture into transparent areas such as rounded corners
+    for (let index = 3; index < data.length; index += 4) {
+      blended[index] = data[index]!;
+    }
+
+    return sharp(blended, { raw });
+  }
+
+  private async applyLut(
+    image: sharp.Sharp,
+    lutFile: string,
+    params: FilterParameters,
+    intensity: number
+  ): Promise<sharp.Sharp> {
+    const lut = await loadLut(lutFile);
+    const lutIntensity = params.lut_intensity !== undefined ? params.lut_intensity : 1;
+
+    const { data, info } = await image
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    console.log('Applying LUT:', {
+      lutFile,
+      size: lut.size,
+      interpolation: params.lut_interpolation || 'tetrahedral',
+      intensity: intensity * lutIntensity
+    });
+
+    const graded = applyLutToPixels(data, info.channels, lut, {
+      interpolation: params.lut_interpolation,
+      intensity: intensity * lutIntensity
+    });
+
+    return sharp(graded, {
+      raw: { width: info.width, height: info.height, channels: info.channels }
+    });
+  }
+
+  private async applyToneCurves(
+    image: sharp.Sharp,
+    curveSets: ToneCurves[],
+    intensity: number
+  ): Promise<sharp.Sharp> {
+    const tables = buildToneTables(curveSets, intensity);
+
+    const { data, info } = await image
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    console.log('Applying tone curves:', { curves: curveSets, intensity });
+
+    return sharp(applyToneTablesToPixels(data, info.channels, tables), {
+      raw: { width: info.width, height: info.height, channels: info.channels }
+    });
+  }
+
+  private async applyColorGrade(
+    image: sharp.Sharp,
+    mixer: HslMixer | null,
+    splitToning: SplitToning | null,
+    intensity: number
+  ): Promise<sharp.Sharp> {
+    const lut = buildColorGradeLut(mixer, splitToning);
+
+    const { data, info } = await image
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    console.log('Applying HSL mixer and split toning:', { hsl: mixer, splitToning, intensity });
+
+    return sharp(applyLutToPixels(data, info.channels, lut, { intensity }), {
+      raw: { width: info.width, height: info.height, channels: info.channels }
+    });
+  }
+
   private async applyColorFilter(
     image: sharp.Sharp,
     params: FilterParameters,
@@ -543,23 +982,23 @@ export class ImageProcessor {
       image = image.modulate(operations);
     }
 
-    // Advanced color adjustments using curves (simulated with multiple operations)
-    if (params.shadows !== undefined) {
-      const shadowAdjust = params.shadows * intensity;
-      if (shadowAdjust !== 0) {
-        // Simulate shadow adjustment by modifying darker areas
-        const adjustment = 1 + (shadowAdjust * 0.3);
-        image = image.linear([adjustment, adjustment, adjustment], [0, 0, 0]);
-      }
+    // Tone curves: shadows/highlights first, then the filter's own curves
+    const curveSets: ToneCurves[] = [];
+    if (params.shadows || params.highlights) {
+      curveSets.push({ master: shadowHighlightCurve(params.shadows, params.highlights) });
+    }
+    if (params.curves) {
+      curveSets.push(parseToneCurves(params.curves));
+    }
+    if (curveSets.length > 0) {
+      image = await this.applyToneCurves(image, curveSets, intensity);
     }
 
-    if (params.highlights !== undefined) {
-      const highlightAdjust = params.highlights * intensity;
-      if (highlightAdjust !== 0) {
-        // Simulate highlight adjustment
-        const adjustment = 1 + (highlightAdjust * 0.2);
-        image = image.gamma(adjustment);
-      }
+    // Per-hue mixing and split toning are baked into one LUT pass
+    const mixer = params.hsl ? parseHslMixer(params.hsl) : null;
+    const splitToning = parseSplitToning(params);
+    if ((mixer && Object.keys(mixer).length > 0) || splitToning) {
+      image = await this.applyColorGrade(image, mixer, splitToning, intensity);
     }
 
     // Clarity effect (simplified unsharp mask)
@@ -681,17 +1120,18 @@ export class ImageProcessor {
   private async applyCompositeFilter(
     image: sharp.Sharp,
     params: FilterParameters,
-    intensity: number
+    strength: EffectStrength,
+    texture?: string
   ): Promise<sharp.Sharp> {
     const metadata = await image.metadata();
     const { width = 1000, height = 1000 } = metadata;
 
     // Apply color effects first
-    image = await this.applyColorFilter(image, params, intensity);
+    image = await this.applyColorFilter(image, params, strength('color'));
 
     // Vignette effect
     if (params.vignette !== undefined && params.vignette > 0) {
-      const vignetteAmount = params.vignette * intensity;
+      const vignetteAmount = params.vignette * strength('vignette');
       if (vignetteAmount > 0.1) {
         const centerX = Math.round(width / 2);
         const centerY = Math.round(height / 2);
@@ -722,7 +1162,7 @@ export class ImageProcessor {
 
     // Film grain effect
     if (params.grain !== undefined && params.grain > 0) {
-      const grainAmount = params.grain * intensity;
+      const grainAmount = params.grain * strength('grain');
       if (grainAmount > 0.1) {
         const grainOverlay = Buffer.from(`
           <svg width="${width}" height="${height}">
@@ -748,21 +1188,21 @@ export class ImageProcessor {
 
     // Color shift effect (for artistic filters)
     if (params.color_shift !== undefined && params.color_shift > 0) {
-      const shift = params.color_shift * intensity;
+      const shift = params.color_shift * strength('color_shift');
       // Simple color channel shift
       image = image.linear([1 + shift * 0.2, 1, 1 - shift * 0.1], [0, 0, 0]);
     }
 
     // Blue shadows effect
     if (params.blue_shadows !== undefined && params.blue_shadows > 0) {
-      const blueAmount = params.blue_shadows * intensity;
+      const blueAmount = params.blue_shadows * strength('blue_shadows');
       // Add blue tint to shadow areas (simplified)
       image = image.tint({ r: 255 - Math.round(blueAmount * 30), g: 255 - Math.round(blueAmount * 20), b: 255 + Math.round(blueAmount * 40) });
     }
 
     // Blur edges effect (toy camera style)
     if (params.blur_edges !== undefined && params.blur_edges > 0) {
-      const blurAmount = params.blur_edges * intensity;
+      const blurAmount = params.blur_edges * strength('blur_edges');
       if (blurAmount > 0.05) {
         // Create a mask that's sharp in center, blurred at edges
         const edgeMask = Buffer.from(`
@@ -784,7 +1224,7 @@ export class ImageProcessor {
     }
 
     // Apply paper effects last (borders, frames)
-    image = await this.applyPaperFilter(image, params, intensity);
+    image = await this.applyPaperFilter(image, params, strength, texture);
 
     return image;
   }
@@ -797,7 +1237,7 @@ export class ImageProcessor {
     const dimensions = this.getPrintDimensions(paperSize);
     const absoluteInputPath = this.getAbsolutePath(inputPath);
 
-    await sharp(absoluteInputPath)
+    await this.toOutput(loadWorkingImage(absoluteInputPath))
       .resize(dimensions.width, dimensions.height, {
         fit: 'contain',
         background: { r: 255, g: 255, b: 255, alpha: 1 }
@@ -833,9 +1273,11 @@ export class ImageProcessor {
     return join(process.cwd(), relativePath);
   }
 
+  // Width and height are reported upright, after EXIF orientation
   async getImageInfo(path: string): Promise<sharp.Metadata> {
     const absolutePath = this.getAbsolutePath(path);
-    return await sharp(absolutePath).metadata();
+    const metadata = await sharp(absolutePath).metadata();
+    return { ...metadata, ...metadata.autoOrient };
   }
 
   async deleteFile(path: string): Promise<void> {
@@ -1,5 +1,6 @@
-import { supabase, STORAGE_BUCKET } from '../config/supabase';
+import { getStorageDriver } from '../storage';
 import { randomUUID } from 'crypto';
+import { IMAGE_FORMATS, detectImageFormat } from '../utils/formats';
 
 export interface UploadResult {
   publicUrl: string;
@@ -9,7 +10,7 @@ export interface UploadResult {
 
 export class StorageService {
   /**
-   * Upload file to Supabase Storage
+   * Upload file to the configured storage driver
    */
   async uploadFile(
     file: Buffer,
@@ -24,34 +25,21 @@ export class StorageService {
       const fileName = `${timestamp}_${randomId}.${fileExt}`;
       const filePath = `${folder}/${fileName}`;
 
-      console.log(`Uploading to Supabase Storage: ${filePath}`);
+      const driver = getStorageDriver();
+      console.log(`Uploading to ${driver.name} storage: ${filePath}`);
 
-      // Upload to Supabase Storage
-      const { data, error } = await supabase.storage
-        .from(STORAGE_BUCKET)
-        .upload(filePath, file, {
-          contentType: this.getMimeType(fileExt),
-          cacheControl: '3600'
-        });
+      const format = detectImageFormat(file);
+      const contentType = format ? IMAGE_FORMATS[format].mimeType : this.getMimeType(fileExt);
+      const publicUrl = await driver.upload(filePath, file, contentType);
 
-      if (error) {
-        console.error('Supabase upload error:', error);
-        throw new Error(`Upload failed: ${error.message}`);
-      }
-
-      // Get public URL
-      const { data: publicData } = supabase.storage
-        .from(STORAGE_BUCKET)
-        .getPublicUrl(filePath);
-
-      if (!publicData.publicUrl) {
+      if (!publicUrl) {
         throw new Error('Failed to get public URL');
       }
 
-      console.log(`Upload successful: ${publicData.publicUrl}`);
+      console.log(`Upload successful: ${publicUrl}`);
 
       return {
-        publicUrl: publicData.publicUrl,
+        publicUrl,
         filePath: filePath,
         fileName: fileName
       };
@@ -63,17 +51,14 @@ export class StorageService {
   }
 
   /**
-   * Delete file from Supabase Storage
+   * Delete file from the configured storage driver
    */
   async deleteFile(filePath: string): Promise<void> {
     try {
-      const { error } = await supabase.storage
-        .from(STORAGE_BUCKET)
-        .remove([filePath]);
+      const removed = await getStorageDriver().remove([filePath]);
 
-      if (error) {
-        console.error('Supabase delete error:', error);
-        throw new Error(`Delete failed: ${error.message}`);
+      if (!removed) {
+        throw new Error(`Delete failed: ${filePath}`);
       }
 
       console.log(`File deleted: ${filePath}`);
@@ -87,11 +72,7 @@ export class StorageService {
    * Get public URL for existing file
    */
   getPublicUrl(filePath: string): string {
-    const { data } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(filePath);
-
-    return data.publicUrl;
+    return getStorageDriver().getPublicUrl(filePath);
   }
 
   /**
@@ -103,7 +84,12 @@ export class StorageService {
       'jpeg': 'image/jpeg',
       'png': 'image/png',
       'webp': 'image/webp',
-      'gif': 'image/gif'
+      'gif': 'image/gif',
+      'avif': 'image/avif',
+      'tif': 'image/tiff',
+      'tiff': 'image/tiff',
+      'heic': 'image/heic',
+      'heif': 'image/heif'
     };
 
     return mimeTypes[extension.toLowerCase()] || 'image/jpeg';
@@ -113,19 +99,7 @@ export class StorageService {
    * Extract file path from public URL
    */
   extractFilePathFromUrl(publicUrl: string): string {
-    try {
-      const url = new URL(publicUrl);
-      const pathParts = url.pathname.split('/');
-      // Remove /storage/v1/object/public/images/ from path
-      const bucketIndex = pathParts.indexOf(STORAGE_BUCKET);
-      if (bucketIndex >= 0 && bucketIndex < pathParts.length - 1) {
-        return pathParts.slice(bucketIndex + 1).join('/');
-      }
-      return '';
-    } catch (error) {
-      console.error('Error extracting file path:', error);
-      return '';
-    }
+    return getStorageDriver().keyFromUrl(publicUrl) || '';
   }
 }
 
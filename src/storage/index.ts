@@ -0,0 +1,45 @@
+import { SupabaseStorageDriver } from './supabase'
+import { LocalStorageDriver } from './local'
+import { S3StorageDriver } from './s3'
+import type { StorageDriver, StorageDriverName } from './types'
+
+export type { StorageDriver, StorageDriverName } from './types'
+export { SupabaseStorageDriver } from './supabase'
+export { LocalStorageDriver, getLocalUploadRoot, resolveLocalPath } from './local'
+export { S3StorageDriver, getS3ConfigFromEnv } from './s3'
+
+let driver: StorageDriver | null = null
+
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  switch (name) {
+    case 'supabase':
+      return new SupabaseStorageDriver()
+    case 'local':
+      return new LocalStorageDriver()
+    case 's3':
+      return new S3StorageDriver()
+    default:
+      throw new Error(`Unknown storage driver: ${name}`)
+  }
+}
+
+// STORAGE_DRIVER picks the backend; without it we fall back to Supabase when
+// it is configured and to the local filesystem otherwise
+export function getStorageDriverName(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER
+  if (configured) return configured as StorageDriverName
+  return process.env.SUPABASE_URL ? 'supabase' : 'local'
+}
+
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createStorageDriver(getStorageDriverName())
+    console.log(`🗂️ Using ${driver.name} storage driver`)
+  }
+  return driver
+}
+
+// Swap the active driver (maintenance scripts and tests)
+export function setStorageDriver(next: StorageDriver) {
+  driver = next
+}
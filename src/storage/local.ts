@@ -0,0 +1,105 @@
+import { mkdir, readdir, unlink } from 'fs/promises'
+import { dirname, join, resolve, sep } from 'path'
+import type { StorageDriver } from './types'
+
+// Root directory for locally stored images, served under /uploads/*
+export function getLocalUploadRoot(): string {
+  return resolve(process.cwd(), process.env.UPLOAD_DIR || 'uploads')
+}
+
+// Resolve a key to an absolute path, refusing anything outside the root
+export function resolveLocalPath(key: string, root: string = getLocalUploadRoot()): string | null {
+  const fullPath = resolve(root, key.replace(/^\/+/, ''))
+  return fullPath.startsWith(root + sep) ? fullPath : null
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local'
+
+  constructor(
+    private root: string = getLocalUploadRoot(),
+    private publicBaseUrl: string = process.env.STORAGE_PUBLIC_URL || '/uploads'
+  ) {}
+
+  private pathFor(key: string): string {
+    const fullPath = resolveLocalPath(key, this.root)
+    if (!fullPath) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return fullPath
+  }
+
+  async upload(key: string, data: Buffer, contentType: string): Promise<string> {
+    const fullPath = this.pathFor(key)
+    await mkdir(dirname(fullPath), { recursive: true })
+    await Bun.write(fullPath, data)
+
+    return this.getPublicUrl(key)
+  }
+
+  async download(key: string): Promise<Buffer> {
+    const file = Bun.file(this.pathFor(key))
+
+    if (!(await file.exists())) {
+      throw new Error(`File not found in storage: ${key}`)
+    }
+
+    return Buffer.from(await file.arrayBuffer())
+  }
+
+  async remove(keys: string[]): Promise<boolean> {
+    try {
+      await Promise.all(keys.map(async key => {
+        try {
+          await unlink(this.pathFor(key))
+        } catch (error: any) {
+          // Missing files count as removed, same as the Supabase bucket
+          if (error?.code !== 'ENOENT') throw error
+        }
+      }))
+      return true
+    } catch (error) {
+      console.error('Local storage delete error:', error)
+      return false
+    }
+  }
+
+  async list(folder?: string): Promise<string[]> {
+    try {
+      const directory = folder ? this.pathFor(folder) : this.root
+      const entries = await readdir(directory, { withFileTypes: true })
+
+      return entries
+        .filter(entry => entry.isFile())
+        .map(entry => entry.name)
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl.replace(/\/+$/, '')}/${key}`
+  }
+
+  keyFromUrl(url: string): string | null {
+    const base = this.publicBaseUrl.replace(/\/+$/, '')
+
+    if (url.startsWith(`${base}/`)) {
+      return decodeURIComponent(url.slice(base.length + 1))
+    }
+
+    // Absolute URLs pointing at this server's /uploads/ route
+    try {
+      const basePath = new URL(base, 'http://localhost').pathname
+      const pathname = new URL(url, 'http://localhost').pathname
+      if (pathname.startsWith(`${basePath}/`)) {
+        return decodeURIComponent(pathname.slice(basePath.length + 1))
+      }
+    } catch {
+      // Not a URL we recognise
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,153 @@
+import { S3Client, type S3Options } from 'bun'
+import type { StorageDriver } from './types'
+
+export interface S3DriverConfig {
+  endpoint?: string
+  bucket: string
+  region?: string
+  accessKeyId?: string
+  secretAccessKey?: string
+  virtualHostedStyle?: boolean
+  acl?: S3Options['acl']
+  // Base URL objects are publicly reachable under (CDN or bucket URL)
+  publicUrl: string
+  // Objects at least this large are sent with a multipart upload
+  multipartThreshold: number
+  partSize: number
+  queueSize: number
+}
+
+const MiB = 1024 * 1024
+
+export function getS3ConfigFromEnv(): S3DriverConfig {
+  const endpoint = process.env.S3_ENDPOINT
+  const bucket = process.env.S3_BUCKET || 'images'
+  const virtualHostedStyle = process.env.S3_VIRTUAL_HOSTED_STYLE === 'true'
+
+  // MinIO and most S3 clones serve objects path-style: <endpoint>/<bucket>/<key>
+  const defaultPublicUrl = endpoint
+    ? (virtualHostedStyle ? endpoint : `${endpoint.replace(/\/+$/, '')}/${bucket}`)
+    : `https://${bucket}.s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`
+
+  return {
+    endpoint,
+    bucket,
+    region: process.env.S3_REGION,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    virtualHostedStyle,
+    acl: process.env.S3_ACL as S3Options['acl'],
+    publicUrl: (process.env.S3_PUBLIC_URL || defaultPublicUrl).replace(/\/+$/, ''),
+    multipartThreshold: parseInt(process.env.S3_MULTIPART_THRESHOLD || String(8 * MiB)),
+    partSize: Math.max(5 * MiB, parseInt(process.env.S3_PART_SIZE || String(5 * MiB))),
+    queueSize: parseInt(process.env.S3_QUEUE_SIZE || '4')
+  }
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3'
+  private client: S3Client
+
+  constructor(private config: S3DriverConfig = getS3ConfigFromEnv()) {
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      bucket: config.bucket,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      virtualHostedStyle: config.virtualHostedStyle
+    })
+  }
+
+  async upload(key: string, data: Buffer, contentType: string): Promise<string> {
+    if (data.length >= this.config.multipartThreshold) {
+      await this.multipartUpload(key, data, contentType)
+    } else {
+      await this.client.write(key, data, {
+        type: contentType,
+        acl: this.config.acl
+      })
+    }
+
+    return this.getPublicUrl(key)
+  }
+
+  // Stream large originals in parts so a failed chunk is retried on its own
+  // instead of re-sending the whole file
+  private async multipartUpload(key: string, data: Buffer, contentType: string) {
+    const writer = this.client.file(key).writer({
+      type: contentType,
+      acl: this.config.acl,
+      partSize: this.config.partSize,
+      queueSize: this.config.queueSize,
+      retry: 3
+    })
+
+    try {
+      for (let offset = 0; offset < data.length; offset += this.config.partSize) {
+        await writer.write(data.subarray(offset, offset + this.config.partSize))
+      }
+      await writer.end()
+    } catch (error) {
+      console.error(`S3 multipart upload failed for ${key}:`, error)
+      throw error
+    }
+  }
+
+  async download(key: string): Promise<Buffer> {
+    const file = this.client.file(key)
+
+    if (!(await file.exists())) {
+      throw new Error(`File not found in storage: ${key}`)
+    }
+
+    return Buffer.from(await file.arrayBuffer())
+  }
+
+  async remove(keys: string[]): Promise<boolean> {
+    try {
+      await Promise.all(keys.map(key => this.client.delete(key)))
+      return true
+    } catch (error) {
+      console.error('S3 delete error:', error)
+      return false
+    }
+  }
+
+  async list(folder?: string): Promise<string[]> {
+    const prefix = folder ? `${folder.replace(/\/+$/, '')}/` : ''
+    const names: string[] = []
+    let continuationToken: string | undefined
+
+    try {
+      // S3 returns at most 1000 keys per page
+      do {
+        const page = await this.client.list({
+          prefix,
+          delimiter: '/',
+          continuationToken
+        })
+
+        for (const object of page.contents || []) {
+          names.push(object.key.slice(prefix.length))
+        }
+
+        continuationToken = page.isTruncated ? page.nextContinuationToken : undefined
+      } while (continuationToken)
+
+      return names
+    } catch (error) {
+      console.error('S3 list error:', error)
+      throw error
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.config.publicUrl}/${key}`
+  }
+
+  keyFromUrl(url: string): string | null {
+    const base = `${this.config.publicUrl}/`
+    return url.startsWith(base) ? decodeURIComponent(url.slice(base.length)) : null
+  }
+}
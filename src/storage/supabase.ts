@@ -0,0 +1,99 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { StorageDriver } from './types'
+
+export class SupabaseStorageDriver implements StorageDriver {
+  readonly name = 'supabase'
+  private supabaseClient: SupabaseClient | null = null
+
+  constructor(private bucket: string = process.env.STORAGE_BUCKET || 'images') {}
+
+  // Create the client on first use so the app can boot without Supabase
+  // credentials when another driver is configured
+  private get client(): SupabaseClient {
+    if (!this.supabaseClient) {
+      const supabaseUrl = process.env.SUPABASE_URL
+      const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+      if (!supabaseUrl || !supabaseServiceKey) {
+        throw new Error('Missing Supabase environment variables. Please add SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to your .env file')
+      }
+
+      this.supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    }
+
+    return this.supabaseClient
+  }
+
+  async upload(key: string, data: Buffer, contentType: string): Promise<string> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .upload(key, data, {
+        contentType,
+        upsert: true
+      })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return this.getPublicUrl(key)
+  }
+
+  async download(key: string): Promise<Buffer> {
+    const { data, error } = await this.client.storage
+      .from(this.bucket)
+      .download(key)
+
+    if (error || !data) {
+      throw new Error(`File not found in storage: ${key}`)
+    }
+
+    return Buffer.from(await data.arrayBuffer())
+  }
+
+  async remove(keys: string[]): Promise<boolean> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .remove(keys)
+
+    return !error
+  }
+
+  async list(folder?: string): Promise<string[]> {
+    const names: string[] = []
+    const limit = 1000
+
+    // The storage API pages results (100 per call by default)
+    for (let offset = 0; ; offset += limit) {
+      const { data, error } = await this.client.storage
+        .from(this.bucket)
+        .list(folder, { limit, offset, sortBy: { column: 'name', order: 'asc' } })
+
+      if (error) throw new Error(`Failed to list ${folder || 'bucket root'}: ${error.message}`)
+
+      names.push(...data.map(file => file.name))
+      if (data.length < limit) return names
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    const { data: { publicUrl } } = this.client.storage
+      .from(this.bucket)
+      .getPublicUrl(key)
+
+    return publicUrl
+  }
+
+  keyFromUrl(url: string): string | null {
+    try {
+      // Public URLs look like <project>/storage/v1/object/public/<bucket>/<key>
+      const marker = `/object/public/${this.bucket}/`
+      const pathname = decodeURIComponent(new URL(url).pathname)
+      const index = pathname.indexOf(marker)
+
+      return index >= 0 ? pathname.slice(index + marker.length) : null
+    } catch {
+      return null
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// Common contract for every storage backend (Supabase bucket, local disk, S3)
+// Keys are bucket-relative paths such as `originals/123-photo.jpg`.
+export interface StorageDriver {
+  readonly name: string
+
+  // Store an object and return the URL clients should use to fetch it
+  upload(key: string, data: Buffer, contentType: string): Promise<string>
+
+  // Read an object back into memory
+  download(key: string): Promise<Buffer>
+
+  // Remove objects; resolves false when the backend reported an error
+  remove(keys: string[]): Promise<boolean>
+
+  // List object names directly inside a folder (non-recursive). A folder that
+  // doesn't exist is empty; backend errors throw rather than look like one.
+  list(folder?: string): Promise<string[]>
+
+  getPublicUrl(key: string): string
+
+  // Map a URL previously returned by upload() back to its key, or null if
+  // the URL does not belong to this backend
+  keyFromUrl(url: string): string | null
+}
+
+export type StorageDriverName = 'supabase' | 'local' | 's3'
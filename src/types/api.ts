@@ -39,6 +39,7 @@ export interface UserPreferences {
   language?: 'en' | 'id';
   autoSave?: boolean;
   quality?: 'normal' | 'high';
+  metadataPrivacy?: 'keep' | 'strip_all' | 'strip_gps' | 'coarse_location';
 }
 
 export interface UserSession {
@@ -70,10 +71,14 @@ export interface Photo {
   originalPath: string;
   thumbnailPath?: string;
   processedPath?: string;
+  // srcset strings per format, e.g. { avif: '/uploads/variants/x-320w.avif 320w, ...' }
+  variants?: Partial<Record<'avif' | 'webp', string>> | null;
+  editVersion: number;
   cameraInfo: CameraInfo;
   captureSettings: CaptureSettings;
   locationData: LocationData;
   exifData: Record<string, any>;
+  capturedAt?: string;
   processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
   processingError?: string;
   isFavorite: boolean;
@@ -88,17 +93,32 @@ export interface CameraInfo {
   deviceType?: 'mobile' | 'desktop';
   cameraType?: 'front' | 'back' | 'external';
   resolution?: string;
+  // From EXIF
+  make?: string;
+  model?: string;
+  lensMake?: string;
+  lensModel?: string;
+  software?: string;
 }
 
 export interface CaptureSettings {
   quality?: 'normal' | 'high';
   format?: 'jpeg' | 'png' | 'webp';
+  // From EXIF
+  exposureTime?: string;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  focalLength35mm?: number;
+  exposureBias?: number;
+  flash?: boolean;
 }
 
 export interface LocationData {
   latitude?: number;
   longitude?: number;
   accuracy?: number;
+  altitude?: number;
 }
 
 // Filter Types
@@ -138,6 +158,7 @@ export interface PhotoFilter {
   id: number;
   photoId: number;
   filterId: number;
+  position: number;
   appliedAt: string;
   processingTimeMs?: number;
   filterIntensity: number;
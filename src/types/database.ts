@@ -1,53 +1,68 @@
 // Database Table Types
+// Rows as returned by the repositories: booleans are real booleans, JSON
+// columns are parsed and timestamps are ISO strings on every database.
+export type JsonObject = Record<string, any>;
+
+export interface PhotoVariant {
+  format: 'webp' | 'avif';
+  width: number;
+  height: number;
+  url: string;
+}
+
 export interface UserTable {
   id: number;
-  session_token: string;
-  device_id?: string;
-  user_agent?: string;
-  ip_address?: string;
-  preferences: string; // JSON string
+  device_id: string | null;
+  device_pin: string | null;
+  pin_set_at: string | null;
+  is_pin_required: boolean;
+  preferences: JsonObject;
   storage_quota: number;
   storage_used: number;
   created_at: string;
-  last_active_at: string;
-  is_active: number; // SQLite boolean (0/1)
+  updated_at: string;
+  is_active: boolean;
 }
 
 export interface PhotoTable {
   id: number;
   user_id: number;
   filename: string;
-  original_filename?: string;
-  display_name?: string;
+  original_filename: string | null;
+  display_name: string | null;
   file_size: number;
   mime_type: string;
   width: number;
   height: number;
   original_path: string;
-  thumbnail_path?: string;
-  processed_path?: string;
-  camera_info: string; // JSON string
-  capture_settings: string; // JSON string
-  location_data: string; // JSON string
-  exif_data: string; // JSON string
-  processing_status: string;
-  processing_error?: string;
-  is_favorite: number; // SQLite boolean (0/1)
+  thumbnail_path: string | null;
+  processed_path: string | null;
+  // Resized copies of the image as displayed (processed, else original), see utils/variants
+  variants: PhotoVariant[] | null;
+  edit_version: number;
+  camera_info: JsonObject;
+  capture_settings: JsonObject;
+  location_data: JsonObject;
+  exif_data: JsonObject;
+  captured_at: string | null;
+  processing_status: 'pending' | 'processing' | 'completed' | 'failed';
+  processing_error: string | null;
+  is_favorite: boolean;
   view_count: number;
-  last_viewed_at?: string;
+  last_viewed_at: string | null;
   created_at: string;
   updated_at: string;
-  deleted_at?: string;
+  deleted_at: string | null;
 }
 
 export interface FilterCategoryTable {
   id: number;
   name: string;
   display_name: string;
-  description?: string;
-  icon?: string;
+  description: string | null;
+  icon: string | null;
   sort_order: number;
-  is_active: number; // SQLite boolean (0/1)
+  is_active: boolean;
   created_at: string;
 }
 
@@ -56,16 +71,16 @@ export interface FilterTable {
   category_id: number;
   name: string;
   display_name: string;
-  description?: string;
-  filter_type: string;
-  parameters: string; // JSON string
-  css_class?: string;
-  preview_image?: string;
-  texture_image?: string;
-  lut_file?: string;
-  processing_complexity: string;
-  is_premium: number; // SQLite boolean (0/1)
-  is_active: number; // SQLite boolean (0/1)
+  description: string | null;
+  filter_type: 'paper' | 'color' | 'composite';
+  parameters: JsonObject;
+  css_class: string | null;
+  preview_image: string | null;
+  texture_image: string | null;
+  lut_file: string | null;
+  processing_complexity: 'low' | 'medium' | 'high';
+  is_premium: boolean;
+  is_active: boolean;
   usage_count: number;
   sort_order: number;
   created_at: string;
@@ -76,36 +91,63 @@ export interface PhotoFilterTable {
   id: number;
   photo_id: number;
   filter_id: number;
+  position: number;
   applied_at: string;
-  processing_time_ms?: number;
+  processing_time_ms: number | null;
   filter_intensity: number;
-  custom_parameters: string; // JSON string
-  result_file_path?: string;
-  file_size?: number;
+  custom_parameters: JsonObject;
+  result_file_path: string | null;
+  file_size: number | null;
+}
+
+export interface PhotoEditTable {
+  id: number;
+  photo_id: number;
+  version: number;
+  recipe: JsonObject;
+  created_at: string;
 }
 
 export interface UserSessionTable {
   id: number;
   user_id: number;
   session_token: string;
-  device_info: string; // JSON string
-  ip_address?: string;
-  user_agent?: string;
+  device_info: JsonObject;
+  ip_address: string | null;
+  user_agent: string | null;
   created_at: string;
   last_activity_at: string;
-  expires_at?: string;
-  is_active: number; // SQLite boolean (0/1)
+  expires_at: string | null;
+  is_active: boolean;
   login_method: string;
-  security_flags: string; // JSON string
+  security_flags: JsonObject;
 }
 
 export interface AppSettingTable {
   id: number;
   key: string;
   value: string;
-  data_type: string;
-  description?: string;
-  is_public: number; // SQLite boolean (0/1)
+  data_type: 'string' | 'number' | 'boolean' | 'json';
+  description: string | null;
+  is_public: boolean;
+  updated_at: string;
+}
+
+export interface PublicShareTable {
+  id: number;
+  share_token: string;
+  user_id: number;
+  share_type: 'single' | 'batch';
+  photo_ids: number[];
+  title: string | null;
+  description: string | null;
+  download_type: 'original' | 'processed' | 'thumbnail';
+  metadata_privacy: 'keep' | 'strip_all' | 'strip_gps' | 'coarse_location' | null;
+  is_active: boolean;
+  view_count: number;
+  download_count: number;
+  expires_at: string | null;
+  created_at: string;
   updated_at: string;
 }
 
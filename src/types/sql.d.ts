@@ -0,0 +1,5 @@
+// SQL scripts are bundled as text via `import ... with { type: 'text' }`
+declare module '*.sql' {
+  const content: string;
+  export default content;
+}
@@ -0,0 +1,131 @@
+import sharp from 'sharp'
+import { getStorageDriver } from '../storage'
+import { listImages } from './storage'
+import { previewKey } from './previews'
+import type { FilterTable } from '../types/database'
+
+// Catalog previews (filters.preview_image) are written here, named after the
+// filter and a fingerprint of everything that affects how it looks
+export const FILTER_PREVIEW_FOLDER = 'filter-previews'
+
+// Upload reference photos here to render previews against them instead of the built-in scenes
+export const REFERENCE_FOLDER = 'filter-references'
+
+export const PREVIEW_TILE_SIZE = 160
+const MAX_REFERENCES = 4
+
+// Bump to regenerate every preview after a rendering change
+const PREVIEW_VERSION = 1
+
+export interface ReferenceImage {
+  name: string
+  data: Buffer
+}
+
+// Simple scenes covering skies, skin, saturated colours and shadows
+const BUILT_IN_REFERENCES: Record<string, string> = {
+  landscape: `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400">
+    <defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="#3a78c2"/><stop offset="1" stop-color="#cfe4f5"/>
+    </linearGradient></defs>
+    <rect width="400" height="400" fill="url(#sky)"/>
+    <circle cx="300" cy="110" r="45" fill="#ffd977"/>
+    <path d="M0 260 Q120 190 240 250 T400 230 V400 H0 Z" fill="#5f9e48"/>
+    <path d="M0 320 Q160 280 400 330 V400 H0 Z" fill="#2f5a27"/>
+  </svg>`,
+  portrait: `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400">
+    <rect width="400" height="400" fill="#c9b8a6"/>
+    <ellipse cx="200" cy="430" rx="150" ry="110" fill="#7a2f2f"/>
+    <ellipse cx="200" cy="190" rx="95" ry="115" fill="#4a3326"/>
+    <ellipse cx="200" cy="215" rx="78" ry="98" fill="#e8b896"/>
+    <circle cx="172" cy="200" r="8" fill="#3b2a20"/>
+    <circle cx="228" cy="200" r="8" fill="#3b2a20"/>
+    <path d="M175 262 Q200 278 225 262" stroke="#b5544f" stroke-width="6" fill="none"/>
+  </svg>`,
+  swatches: `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400">
+    <rect width="400" height="400" fill="#808080"/>
+    ${['#735244', '#c29682', '#627a9d', '#576c43', '#8580b1', '#67bdaa',
+       '#d67e2c', '#505ba6', '#c15a63', '#5e3c6c', '#9dbc40', '#e0a32e',
+       '#383d96', '#469449', '#af363c', '#e7c71f', '#bb5695', '#0885a1']
+      .map((color, index) => `<rect x="${10 + (index % 6) * 65}" y="${10 + Math.floor(index / 6) * 95}" width="55" height="85" fill="${color}"/>`)
+      .join('')}
+    ${[245, 200, 160, 122, 85, 52]
+      .map((level, index) => `<rect x="${10 + index * 65}" y="295" width="55" height="95" fill="rgb(${level},${level},${level})"/>`)
+      .join('')}
+  </svg>`,
+  night: `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400">
+    <rect width="400" height="400" fill="#10142a"/>
+    <rect x="30" y="180" width="80" height="220" fill="#23263a"/>
+    <rect x="130" y="120" width="100" height="280" fill="#1b1e30"/>
+    <rect x="250" y="210" width="110" height="190" fill="#262a40"/>
+    ${Array.from({ length: 24 }, (_, index) =>
+      `<rect x="${45 + (index % 8) * 40}" y="${200 + Math.floor(index / 8) * 50}" width="12" height="16" fill="${index % 3 ? '#f7c95c' : '#9fd3ff'}"/>`
+    ).join('')}
+    <circle cx="80" cy="70" r="25" fill="#f1efe2"/>
+  </svg>`
+}
+
+// Reference photos from storage, or the built-in scenes when none were uploaded
+export async function loadReferenceImages(): Promise<ReferenceImage[]> {
+  const driver = getStorageDriver()
+  const names = (await listImages(REFERENCE_FOLDER))
+    .filter(name => !name.startsWith('.'))
+    .sort()
+    .slice(0, MAX_REFERENCES)
+
+  if (names.length > 0) {
+    return Promise.all(names.map(async name => ({
+      name,
+      data: await driver.download(`${REFERENCE_FOLDER}/${name}`)
+    })))
+  }
+
+  return Promise.all(Object.entries(BUILT_IN_REFERENCES).map(async ([name, svg]) => ({
+    name,
+    data: await sharp(Buffer.from(svg)).png().toBuffer()
+  })))
+}
+
+// Storage key a filter's preview should have for the current references. A filter
+// whose preview_image points at a different key in the folder is out of date.
+export function getFilterPreviewKey(filter: FilterTable, references: ReferenceImage[]): string {
+  const fingerprint = previewKey([
+    PREVIEW_VERSION,
+    filter.filter_type,
+    filter.parameters,
+    filter.texture_image,
+    filter.lut_file,
+    references.map(reference => reference.name)
+  ])
+
+  return `${FILTER_PREVIEW_FOLDER}/${filter.name}-${fingerprint}.jpg`
+}
+
+// Lay rendered tiles out in a square grid (one tile stays on its own)
+export async function composePreviewGrid(tiles: Buffer[]): Promise<Buffer> {
+  const columns = Math.ceil(Math.sqrt(tiles.length))
+  const rows = Math.ceil(tiles.length / columns)
+
+  const fitted = await Promise.all(tiles.map(tile =>
+    sharp(tile)
+      .resize(PREVIEW_TILE_SIZE, PREVIEW_TILE_SIZE, { fit: 'contain', background: '#eeeeee' })
+      .png()
+      .toBuffer()
+  ))
+
+  return sharp({
+    create: {
+      width: columns * PREVIEW_TILE_SIZE,
+      height: rows * PREVIEW_TILE_SIZE,
+      channels: 3,
+      background: '#eeeeee'
+    }
+  })
+    .composite(fitted.map((input, index) => ({
+      input,
+      left: (index % columns) * PREVIEW_TILE_SIZE,
+      top: Math.floor(index / columns) * PREVIEW_TILE_SIZE
+    })))
+    .jpeg({ quality: 85 })
+    .toBuffer()
+}
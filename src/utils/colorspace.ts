@@ -0,0 +1,34 @@
+import sharp from 'sharp'
+
+// Profile filters work in and every rendered image is tagged with
+export const WORKING_PROFILE = 'srgb'
+
+// Encoders a normalized original can be written back with
+const REENCODABLE_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'tiff'] as const
+
+// Open an image the way filters expect it: EXIF orientation applied and pixels
+// converted from their embedded profile (Display P3, Adobe RGB, CMYK, 16-bit...)
+// to 8-bit sRGB. Without this sharp processes 16-bit input in P3.
+export function loadWorkingImage(input: string | Buffer): sharp.Sharp {
+  return sharp(input).autoOrient().pipelineColourspace(WORKING_PROFILE)
+}
+
+// Bake EXIF orientation into an uploaded image's pixels. Upright images are
+// returned untouched; rotated ones are re-encoded once, in their own format,
+// keeping their ICC profile and the rest of their metadata.
+export async function bakeOrientation(data: Buffer): Promise<{ data: Buffer, metadata: sharp.Metadata }> {
+  const metadata = await sharp(data).metadata()
+  // sharp reports AVIF as the HEIF container it comes in
+  const format = (metadata.format === 'heif' && metadata.compression === 'av1' ? 'avif' : metadata.format) as typeof REENCODABLE_FORMATS[number]
+
+  if (!metadata.orientation || metadata.orientation === 1 || !REENCODABLE_FORMATS.includes(format)) {
+    return { data, metadata }
+  }
+
+  const image = sharp(data).autoOrient().keepMetadata()
+  const rotated = format === 'jpeg'
+    ? await image.jpeg({ quality: 95 }).toBuffer()
+    : await image.toFormat(format).toBuffer()
+
+  return { data: rotated, metadata: await sharp(rotated).metadata() }
+}
@@ -0,0 +1,187 @@
+// A control point on a tone curve: [input, output], both 0-255
+export type CurvePoint = [number, number]
+
+export const CURVE_CHANNELS = ['master', 'red', 'green', 'blue'] as const
+
+export type CurveChannel = typeof CURVE_CHANNELS[number]
+
+// Tone curves as written in filter parameters. `master` runs first and applies
+// to all three channels, then each channel goes through its own curve.
+export type ToneCurves = Partial<Record<CurveChannel, CurvePoint[]>>
+
+// One 256-entry lookup table per output channel (red, green, blue)
+export type ToneTables = [Uint8Array, Uint8Array, Uint8Array]
+
+const MAX_CURVE_POINTS = 16
+
+// Check and normalize a `curves` parameter. Points are sorted by input; throws a
+// RangeError describing the first problem found.
+export function parseToneCurves(value: unknown): ToneCurves {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RangeError('curves must be an object with master, red, green or blue point lists')
+  }
+
+  const curves: ToneCurves = {}
+
+  for (const [channel, points] of Object.entries(value)) {
+    if (!(CURVE_CHANNELS as readonly string[]).includes(channel)) {
+      throw new RangeError(`Unknown curve channel: ${channel}. Use one of ${CURVE_CHANNELS.join(', ')}`)
+    }
+    if (points === null || points === undefined) continue
+
+    if (!Array.isArray(points) || points.length < 2 || points.length > MAX_CURVE_POINTS) {
+      throw new RangeError(`The ${channel} curve needs 2 to ${MAX_CURVE_POINTS} [input, output] points`)
+    }
+
+    const parsed = points.map(point => {
+      if (!Array.isArray(point) || point.length !== 2 ||
+          point.some(coordinate => typeof coordinate !== 'number' || !Number.isFinite(coordinate) || coordinate < 0 || coordinate > 255)) {
+        throw new RangeError(`Invalid ${channel} curve point ${JSON.stringify(point)}: expected [input, output] between 0 and 255`)
+      }
+      return [point[0], point[1]] as CurvePoint
+    }).sort((a, b) => a[0] - b[0])
+
+    for (let index = 1; index < parsed.length; index++) {
+      if (parsed[index]![0] === parsed[index - 1]![0]) {
+        throw new RangeError(`The ${channel} curve has two points at input ${parsed[index]![0]}`)
+      }
+    }
+
+    curves[channel as CurveChannel] = parsed
+  }
+
+  return curves
+}
+
+// The old `shadows` / `highlights` parameters (-1 to 1) as a master curve that
+// moves the quarter and three-quarter tones
+export function shadowHighlightCurve(shadows: number = 0, highlights: number = 0): CurvePoint[] {
+  const clamp = (value: number) => Math.max(0, Math.min(255, value))
+  return [[0, 0], [64, clamp(64 + shadows * 48)], [192, clamp(192 + highlights * 48)], [255, 255]]
+}
+
+// Sample a curve at every 8-bit input. Uses a monotone cubic spline (Fritsch-Carlson),
+// so the curve is smooth but never overshoots between points; inputs outside the
+// first and last point are held at their outputs.
+export function buildCurveTable(points: CurvePoint[]): Uint8Array {
+  const table = new Uint8Array(256)
+  const count = points.length
+  const xs = points.map(point => point[0])
+  const ys = points.map(point => point[1])
+
+  const slopes: number[] = []
+  for (let index = 0; index < count - 1; index++) {
+    slopes.push((ys[index + 1]! - ys[index]!) / (xs[index + 1]! - xs[index]!))
+  }
+
+  // Tangents: average of neighbouring slopes, zero at local extrema
+  const tangents = xs.map((_, index) => {
+    if (index === 0) return slopes[0]!
+    if (index === count - 1) return slopes[count - 2]!
+    const before = slopes[index - 1]!
+    const after = slopes[index]!
+    return before * after <= 0 ? 0 : (before + after) / 2
+  })
+
+  // Limit tangents so each segment stays monotone
+  for (let index = 0; index < count - 1; index++) {
+    const slope = slopes[index]!
+    if (slope === 0) {
+      tangents[index] = 0
+      tangents[index + 1] = 0
+      continue
+    }
+
+    const alpha = tangents[index]! / slope
+    const beta = tangents[index + 1]! / slope
+    const magnitude = alpha * alpha + beta * beta
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude)
+      tangents[index] = scale * alpha * slope
+      tangents[index + 1] = scale * beta * slope
+    }
+  }
+
+  let segment = 0
+  for (let input = 0; input < 256; input++) {
+    if (input <= xs[0]!) {
+      table[input] = toByte(ys[0]!)
+      continue
+    }
+    if (input >= xs[count - 1]!) {
+      table[input] = toByte(ys[count - 1]!)
+      continue
+    }
+
+    while (input > xs[segment + 1]!) segment++
+
+    const width = xs[segment + 1]! - xs[segment]!
+    const t = (input - xs[segment]!) / width
+    const t2 = t * t
+    const t3 = t2 * t
+
+    table[input] = toByte(
+      (2 * t3 - 3 * t2 + 1) * ys[segment]! +
+      (t3 - 2 * t2 + t) * width * tangents[segment]! +
+      (-2 * t3 + 3 * t2) * ys[segment + 1]! +
+      (t3 - t2) * width * tangents[segment + 1]!
+    )
+  }
+
+  return table
+}
+
+// Combine curve sets (applied in order) into per-channel tables. `intensity` mixes
+// each output with the untouched input, so 0 gives identity tables.
+export function buildToneTables(curveSets: ToneCurves[], intensity: number = 1): ToneTables {
+  const mix = Math.max(0, Math.min(1, intensity))
+  const tables: ToneTables = [identityTable(), identityTable(), identityTable()]
+
+  for (const curves of curveSets) {
+    const master = curves.master ? buildCurveTable(curves.master) : null
+    const channels = [curves.red, curves.green, curves.blue].map(points => points ? buildCurveTable(points) : null)
+
+    tables.forEach((table, channel) => {
+      for (let input = 0; input < 256; input++) {
+        let value = table[input]!
+        if (master) value = master[value]!
+        if (channels[channel]) value = channels[channel]![value]!
+        table[input] = value
+      }
+    })
+  }
+
+  for (const table of tables) {
+    for (let input = 0; input < 256; input++) {
+      table[input] = toByte(input + (table[input]! - input) * mix)
+    }
+  }
+
+  return tables
+}
+
+// Run every pixel of a raw 8-bit buffer (3 or 4 channels, alpha untouched) through the tables
+export function applyToneTablesToPixels(pixels: Buffer, channels: number, tables: ToneTables): Buffer {
+  const output = Buffer.from(pixels)
+  const [red, green, blue] = tables
+
+  for (let index = 0; index + 2 < pixels.length; index += channels) {
+    output[index] = red[pixels[index]!]!
+    output[index + 1] = green[pixels[index + 1]!]!
+    output[index + 2] = blue[pixels[index + 2]!]!
+  }
+
+  return output
+}
+
+function identityTable(): Uint8Array {
+  const table = new Uint8Array(256)
+  for (let input = 0; input < 256; input++) {
+    table[input] = input
+  }
+  return table
+}
+
+function toByte(value: number): number {
+  return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value)
+}
@@ -76,6 +76,9 @@ export const Errors = {
   FileTooLarge: (maxSize: string) =>
     new AppError('FILE_TOO_LARGE', `File size exceeds limit: ${maxSize}`, 413),
 
+  Forbidden: (message = 'This action requires an administrator') =>
+    new AppError('FORBIDDEN', message, 403),
+
   QuotaExceeded: (message = 'Storage quota exceeded') =>
     new AppError('QUOTA_EXCEEDED', message, 507),
 
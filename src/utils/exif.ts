@@ -0,0 +1,348 @@
+import type { JsonObject } from '../types/database'
+
+// What an upload's EXIF block says about the camera, the exposure and where it
+// was taken, split the way the photos table stores it
+export interface PhotoMetadata {
+  cameraInfo: JsonObject
+  captureSettings: JsonObject
+  locationData: JsonObject
+  exifData: JsonObject
+  // ISO 8601, null when the photo carries no capture time
+  capturedAt: string | null
+}
+
+type ExifValue = string | number | number[]
+
+// Tags worth keeping, by IFD. Anything else (maker notes, thumbnails) is skipped.
+const IMAGE_TAGS: Record<number, string> = {
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime'
+}
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8822: 'ExposureProgram',
+  0x8827: 'ISOSpeedRatings',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9011: 'OffsetTimeOriginal',
+  0x9204: 'ExposureBiasValue',
+  0x9207: 'MeteringMode',
+  0x9209: 'Flash',
+  0x920a: 'FocalLength',
+  0x9291: 'SubSecTimeOriginal',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa403: 'WhiteBalance',
+  0xa405: 'FocalLengthIn35mmFilm',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel'
+}
+
+const GPS_TAGS: Record<number, string> = {
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0005: 'GPSAltitudeRef',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x001d: 'GPSDateStamp'
+}
+
+const EXIF_IFD_POINTER = 0x8769
+const GPS_IFD_POINTER = 0x8825
+
+// Bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+const MAX_ENTRIES = 512
+
+// Parse the raw EXIF block sharp returns in `metadata().exif`. Malformed or
+// truncated data never throws; whatever could be read is returned.
+export function parseExif(exif: Buffer | undefined): PhotoMetadata {
+  const tags = exif ? readTags(exif) : {}
+
+  return {
+    cameraInfo: compact({
+      make: text(tags.Make),
+      model: text(tags.Model),
+      lensMake: text(tags.LensMake),
+      lensModel: text(tags.LensModel),
+      software: text(tags.Software)
+    }),
+    captureSettings: compact({
+      exposureTime: exposureTime(tags.ExposureTime),
+      fNumber: round(number(tags.FNumber), 1),
+      iso: number(tags.ISOSpeedRatings),
+      focalLength: round(number(tags.FocalLength), 1),
+      focalLength35mm: number(tags.FocalLengthIn35mmFilm) || undefined,
+      exposureBias: round(number(tags.ExposureBiasValue), 2),
+      flash: typeof tags.Flash === 'number' ? (tags.Flash & 1) === 1 : undefined
+    }),
+    locationData: location(tags),
+    exifData: tags,
+    capturedAt: captureTime(tags)
+  }
+}
+
+function readTags(exif: Buffer): JsonObject {
+  // sharp keeps the APP1 "Exif\0\0" prefix in front of the TIFF header
+  const start = exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? 6 : 0
+  const tiff = exif.subarray(start)
+  if (tiff.length < 8) return {}
+
+  const order = tiff.subarray(0, 2).toString('latin1')
+  if (order !== 'II' && order !== 'MM') return {}
+  const little = order === 'II'
+
+  const u16 = (offset: number) => little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)
+  const u32 = (offset: number) => little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)
+  const s32 = (offset: number) => little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset)
+
+  if (u16(2) !== 42) return {}
+
+  const tags: JsonObject = {}
+  const visited = new Set<number>()
+
+  const readValue = (type: number, count: number, offset: number): ExifValue | undefined => {
+    const values: number[] = []
+    for (let index = 0; index < count; index++) {
+      const at = offset + index * TYPE_SIZES[type]!
+      switch (type) {
+        case 1: case 7: values.push(tiff[at]!); break
+        case 3: values.push(u16(at)); break
+        case 4: values.push(u32(at)); break
+        case 9: values.push(s32(at)); break
+        case 5: values.push(u32(at + 4) === 0 ? 0 : u32(at) / u32(at + 4)); break
+        case 10: values.push(s32(at + 4) === 0 ? 0 : s32(at) / s32(at + 4)); break
+      }
+    }
+    return values.length === 1 ? values[0] : values
+  }
+
+  // Read one IFD into `tags`, returning the offsets of any sub-IFDs it points at
+  const readIfd = (offset: number, names: Record<number, string>) => {
+    const pointers: Record<number, number> = {}
+    if (visited.has(offset) || offset + 2 > tiff.length) return pointers
+    visited.add(offset)
+
+    const entries = Math.min(u16(offset), MAX_ENTRIES)
+    for (let index = 0; index < entries; index++) {
+      const entry = offset + 2 + index * 12
+      if (entry + 12 > tiff.length) break
+
+      const tag = u16(entry)
+      const type = u16(entry + 2)
+      const count = u32(entry + 4)
+      const size = TYPE_SIZES[type]
+
+      if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+        pointers[tag] = u32(entry + 8)
+        continue
+      }
+
+      const name = names[tag]
+      if (!name || !size) continue
+
+      // Values that fit in four bytes are stored inline
+      const valueOffset = size * count > 4 ? u32(entry + 8) : entry + 8
+      if (valueOffset + size * count > tiff.length) continue
+
+      const value = type === 2
+        ? tiff.subarray(valueOffset, valueOffset + count).toString('utf8').replace(/\0[\s\S]*$/, '').trim()
+        : readValue(type, count, valueOffset)
+
+      if (value !== undefined && value !== '') {
+        tags[name] = value
+      }
+    }
+
+    return pointers
+  }
+
+  try {
+    const pointers = readIfd(u32(4), IMAGE_TAGS)
+    if (pointers[EXIF_IFD_POINTER]) readIfd(pointers[EXIF_IFD_POINTER], EXIF_TAGS)
+    if (pointers[GPS_IFD_POINTER]) readIfd(pointers[GPS_IFD_POINTER], GPS_TAGS)
+  } catch {
+    // Offsets pointing past the end of the block: keep what was read
+  }
+
+  return tags
+}
+
+// DateTimeOriginal is camera-local wall time. Its offset tag (or the GPS clock,
+// which is UTC) places it exactly; without either it is taken as UTC.
+function captureTime(tags: JsonObject): string | null {
+  const parsed = parseExifDate(text(tags.DateTimeOriginal) || text(tags.DateTimeDigitized) || text(tags.DateTime))
+  if (!parsed) return null
+
+  const subSeconds = text(tags.SubSecTimeOriginal)
+  const milliseconds = subSeconds && /^\d+$/.test(subSeconds) ? Number(`0.${subSeconds}`) * 1000 : 0
+  const wallTime = parsed + Math.round(milliseconds)
+
+  const offset = text(tags.OffsetTimeOriginal)?.match(/^([+-])(\d{2}):(\d{2})$/)
+  if (offset) {
+    const minutes = Number(offset[2]) * 60 + Number(offset[3])
+    return new Date(wallTime - (offset[1] === '-' ? -minutes : minutes) * 60000).toISOString()
+  }
+
+  const gpsTime = gpsTimestamp(tags)
+  if (gpsTime !== null) {
+    // The camera clock's zone is the GPS time's distance from it, to the nearest quarter hour
+    const zone = Math.round((wallTime - gpsTime) / 900000) * 900000
+    if (Math.abs(zone) <= 14 * 3600000) {
+      return new Date(wallTime - zone).toISOString()
+    }
+  }
+
+  return new Date(wallTime).toISOString()
+}
+
+// "YYYY:MM:DD HH:MM:SS" as milliseconds, reading the wall time as UTC
+function parseExifDate(value: string | undefined): number | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return null
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number) as [number, number, number, number, number, number]
+  if (!year || !month || !day) return null
+
+  const time = Date.UTC(year, month - 1, day, hour, minute, second)
+  return Number.isNaN(time) ? null : time
+}
+
+function gpsTimestamp(tags: JsonObject): number | null {
+  const date = parseExifDate(`${text(tags.GPSDateStamp)} 00:00:00`)
+  const time = tags.GPSTimeStamp
+  if (date === null || !Array.isArray(time) || time.length !== 3) return null
+
+  return date + ((time[0] * 60 + time[1]) * 60 + time[2]) * 1000
+}
+
+function location(tags: JsonObject): JsonObject {
+  const latitude = coordinate(tags.GPSLatitude, text(tags.GPSLatitudeRef), 'S')
+  const longitude = coordinate(tags.GPSLongitude, text(tags.GPSLongitudeRef), 'W')
+  if (latitude === undefined || longitude === undefined || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return {}
+  }
+
+  const altitude = number(tags.GPSAltitude)
+  return compact({
+    latitude,
+    longitude,
+    altitude: altitude === undefined ? undefined : round(tags.GPSAltitudeRef === 1 ? -altitude : altitude, 1)
+  })
+}
+
+// Degrees, minutes and seconds to signed decimal degrees
+function coordinate(value: unknown, ref: string | undefined, negative: string): number | undefined {
+  if (!Array.isArray(value) || value.length !== 3) return undefined
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600
+  return round(ref === negative ? -degrees : degrees, 6)
+}
+
+// Shutter speeds are written the way cameras show them: 1/125, 0.5, 2
+function exposureTime(value: unknown): string | undefined {
+  const seconds = number(value)
+  if (!seconds) return undefined
+  if (seconds >= 0.3) return String(round(seconds, 1))
+  return `1/${Math.round(1 / seconds)}`
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+function number(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function round(value: number | undefined, digits: number): number | undefined {
+  if (value === undefined) return undefined
+  const scale = 10 ** digits
+  return Math.round(value * scale) / scale
+}
+
+function compact(values: JsonObject): JsonObject {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined))
+}
+
+// Rewrite the GPS block of an EXIF buffer in place (a copy is returned). With
+// `coarsen` set, latitude and longitude are rounded to `precision` degrees and
+// every other GPS tag is dropped; otherwise the whole GPS block is emptied.
+// Offsets elsewhere in the block are left alone so nothing else has to move.
+export function scrubExifGps(exif: Buffer, coarsen: boolean = false, precision: number = 0.1): Buffer {
+  const output = Buffer.from(exif)
+  const start = output.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? 6 : 0
+  const tiff = output.subarray(start)
+  if (tiff.length < 8) return output
+
+  const order = tiff.subarray(0, 2).toString('latin1')
+  if (order !== 'II' && order !== 'MM') return output
+  const little = order === 'II'
+
+  const u16 = (offset: number) => little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)
+  const u32 = (offset: number) => little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)
+  const write16 = (value: number, offset: number) => little ? tiff.writeUInt16LE(value, offset) : tiff.writeUInt16BE(value, offset)
+  const write32 = (value: number, offset: number) => little ? tiff.writeUInt32LE(value, offset) : tiff.writeUInt32BE(value, offset)
+
+  try {
+    const ifd0 = u32(4)
+    let gps = 0
+    for (let index = 0; index < u16(ifd0); index++) {
+      const entry = ifd0 + 2 + index * 12
+      if (u16(entry) === GPS_IFD_POINTER) gps = u32(entry + 8)
+    }
+    if (!gps || gps + 2 > tiff.length) return output
+
+    const count = Math.min(u16(gps), MAX_ENTRIES)
+    const entries: Buffer[] = []
+    for (let index = 0; index < count; index++) {
+      const entry = gps + 2 + index * 12
+      if (entry + 12 > tiff.length) break
+
+      const tag = u16(entry)
+      const type = u16(entry + 2)
+      const valueCount = u32(entry + 4)
+      const size = (TYPE_SIZES[type] || 1) * valueCount
+      const valueOffset = size > 4 ? u32(entry + 8) : entry + 8
+      const inRange = valueOffset + size <= tiff.length
+
+      const keep = coarsen && (tag === 0x0001 || tag === 0x0003 ||
+        ((tag === 0x0002 || tag === 0x0004) && type === 5 && valueCount === 3))
+
+      if (keep && (tag === 0x0002 || tag === 0x0004) && inRange) {
+        const degrees = u32(valueOffset) / (u32(valueOffset + 4) || 1) +
+          u32(valueOffset + 8) / (u32(valueOffset + 12) || 1) / 60 +
+          u32(valueOffset + 16) / (u32(valueOffset + 20) || 1) / 3600
+        const rounded = Math.round(degrees / precision) * precision
+        const whole = Math.floor(rounded)
+        const minutes = Math.round((rounded - whole) * 60 * 100)
+
+        write32(whole, valueOffset); write32(1, valueOffset + 4)
+        write32(minutes, valueOffset + 8); write32(100, valueOffset + 12)
+        write32(0, valueOffset + 16); write32(1, valueOffset + 20)
+      }
+
+      if (keep) {
+        entries.push(Buffer.from(tiff.subarray(entry, entry + 12)))
+      } else if (size > 4 && inRange) {
+        tiff.fill(0, valueOffset, valueOffset + size)
+      }
+    }
+
+    // Compact the kept entries to the front and blank the rest of the directory
+    tiff.fill(0, gps + 2, Math.min(gps + 2 + count * 12, tiff.length))
+    write16(entries.length, gps)
+    entries.forEach((entry, index) => entry.copy(tiff, gps + 2 + index * 12))
+  } catch {
+    // Malformed block: return what was rewritten so far
+  }
+
+  return output
+}
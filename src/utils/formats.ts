@@ -0,0 +1,92 @@
+import sharp from 'sharp'
+import { bakeOrientation } from './colorspace'
+import { Errors } from './errors'
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'tiff' | 'avif' | 'heic' | 'heif'
+
+export const IMAGE_FORMATS: Record<ImageFormat, { mimeType: string, extension: string }> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  gif: { mimeType: 'image/gif', extension: 'gif' },
+  tiff: { mimeType: 'image/tiff', extension: 'tiff' },
+  avif: { mimeType: 'image/avif', extension: 'avif' },
+  heic: { mimeType: 'image/heic', extension: 'heic' },
+  heif: { mimeType: 'image/heif', extension: 'heif' }
+}
+
+// Default for the allowed_mime_types setting
+export const DEFAULT_ALLOWED_MIME_TYPES = Object.values(IMAGE_FORMATS).map(format => format.mimeType)
+
+// Formats browsers display, kept as uploaded. Everything else is converted on ingest.
+const STORED_AS_UPLOADED: ImageFormat[] = ['jpeg', 'png', 'webp', 'avif']
+
+// ISO-BMFF brands (the `ftyp` box) of the HEIF family
+const AVIF_BRANDS = ['avif', 'avis']
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx']
+const HEIF_BRANDS = ['mif1', 'msf1']
+
+// Identify an image by its leading bytes; file names and client MIME types can't be trusted
+export function detectImageFormat(data: Buffer): ImageFormat | null {
+  if (data.length < 12) return null
+
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg'
+  if (data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) return 'png'
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'webp'
+  if (['GIF87a', 'GIF89a'].includes(data.toString('latin1', 0, 6))) return 'gif'
+
+  const tiffHeader = data.toString('latin1', 0, 4)
+  if (tiffHeader === 'II*\0' || tiffHeader === 'MM\0*') return 'tiff'
+
+  if (data.toString('latin1', 4, 8) === 'ftyp') {
+    const boxEnd = Math.min(data.length, data.readUInt32BE(0))
+    const brands: string[] = [data.toString('latin1', 8, 12)]
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      brands.push(data.toString('latin1', offset, offset + 4))
+    }
+
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif'
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic'
+    if (brands.some(brand => HEIF_BRANDS.includes(brand))) return 'heif'
+  }
+
+  return null
+}
+
+// Content type to store a file under, from its bytes
+export function detectContentType(data: Buffer): string {
+  const format = detectImageFormat(data)
+  return format ? IMAGE_FORMATS[format].mimeType : 'application/octet-stream'
+}
+
+// Turn an upload into the file that gets stored: upright, and in a format browsers
+// can show. TIFF, HEIF/HEIC and GIF (first frame only) become PNG when they have
+// transparency and JPEG otherwise, keeping their ICC profile and EXIF.
+export async function normalizeUpload(data: Buffer): Promise<{ data: Buffer, metadata: sharp.Metadata, format: ImageFormat }> {
+  const format = detectImageFormat(data)
+  if (!format) {
+    throw Errors.InvalidFileType('unknown')
+  }
+
+  if (STORED_AS_UPLOADED.includes(format)) {
+    return { ...await bakeOrientation(data), format }
+  }
+
+  try {
+    const { hasAlpha } = await sharp(data).metadata()
+    const image = sharp(data).autoOrient().keepMetadata()
+    const converted = hasAlpha
+      ? await image.png().toBuffer()
+      : await image.jpeg({ quality: 95 }).toBuffer()
+
+    return {
+      data: converted,
+      metadata: await sharp(converted).metadata(),
+      format: hasAlpha ? 'png' : 'jpeg'
+    }
+  } catch (error) {
+    // libvips builds without an HEVC decoder can read AVIF but not most HEIC photos
+    console.error(`Could not decode ${format} upload:`, error)
+    throw Errors.InvalidFileType(`${IMAGE_FORMATS[format].mimeType} (cannot be decoded on this server)`)
+  }
+}
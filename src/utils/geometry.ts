@@ -0,0 +1,185 @@
+// Pixel rectangle of an image, as taken by sharp's extract()
+export interface CropRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Image areas of the formats we print, in their natural orientation (mm for Instax, inches for prints)
+export const ASPECT_PRESETS = {
+  instax_mini: { label: 'Instax Mini', width: 46, height: 62 },
+  instax_square: { label: 'Instax Square', width: 62, height: 62 },
+  instax_wide: { label: 'Instax Wide', width: 99, height: 62 },
+  '4x6': { label: '4x6', width: 4, height: 6 },
+  '5x7': { label: '5x7', width: 5, height: 7 }
+} as const
+
+export type AspectPreset = keyof typeof ASPECT_PRESETS
+
+export type AspectOrientation = 'portrait' | 'landscape'
+
+// Instax film only comes one way round; prints follow the photo unless told otherwise
+const FIXED_ORIENTATION: Partial<Record<AspectPreset, AspectOrientation>> = {
+  instax_mini: 'portrait',
+  instax_wide: 'landscape'
+}
+
+export const MAX_STRAIGHTEN_DEGREES = 45
+
+// Geometric edits, applied in this order: quarter-turn rotation, mirroring,
+// straighten (auto-cropped so no empty corners show), then crop and aspect.
+// `crop` is in the coordinates of the image after rotation and straightening.
+export interface Geometry {
+  rotate?: number
+  flipHorizontal?: boolean
+  flipVertical?: boolean
+  straighten?: number
+  crop?: CropRect | null
+  aspect?: AspectPreset | null
+  orientation?: AspectOrientation | null
+}
+
+export interface ResolvedGeometry {
+  rotate: 0 | 90 | 180 | 270
+  flipHorizontal: boolean
+  flipVertical: boolean
+  // Fine rotation and the centred window that removes its corners
+  straighten: { angle: number, extract: CropRect } | null
+  // Final crop, after aspect has been applied to `crop` (or the whole image)
+  extract: CropRect | null
+  width: number
+  height: number
+}
+
+export function isAspectPreset(value: unknown): value is AspectPreset {
+  return typeof value === 'string' && Object.hasOwn(ASPECT_PRESETS, value)
+}
+
+export function isIdentityGeometry(geometry: Geometry | null | undefined): boolean {
+  return !geometry || (
+    !normalizeQuarterTurns(geometry.rotate) &&
+    !geometry.flipHorizontal &&
+    !geometry.flipVertical &&
+    !geometry.straighten &&
+    !geometry.crop &&
+    !geometry.aspect
+  )
+}
+
+// Work out every intermediate size for an image of `width` x `height`. Throws a
+// RangeError when the crop or angle doesn't fit the image.
+export function resolveGeometry(width: number, height: number, geometry: Geometry): ResolvedGeometry {
+  const rotate = normalizeQuarterTurns(geometry.rotate)
+  let current = rotate % 180 === 0 ? { width, height } : { width: height, height: width }
+
+  let straighten: ResolvedGeometry['straighten'] = null
+  const angle = Number(geometry.straighten) || 0
+  if (Math.abs(angle) > MAX_STRAIGHTEN_DEGREES) {
+    throw new RangeError(`Straighten angle must be between -${MAX_STRAIGHTEN_DEGREES} and ${MAX_STRAIGHTEN_DEGREES} degrees`)
+  }
+  if (angle !== 0) {
+    straighten = { angle, extract: straightenWindow(current.width, current.height, angle) }
+    current = { width: straighten.extract.width, height: straighten.extract.height }
+  }
+
+  let extract: CropRect | null = null
+  if (geometry.crop) {
+    const { left, top, width: cropWidth, height: cropHeight } = geometry.crop
+    if (left < 0 || top < 0 || cropWidth < 1 || cropHeight < 1 ||
+        left + cropWidth > current.width || top + cropHeight > current.height) {
+      throw new RangeError(`Crop ${cropWidth}x${cropHeight}+${left}+${top} is outside the ${current.width}x${current.height} image`)
+    }
+    extract = { left, top, width: cropWidth, height: cropHeight }
+  }
+
+  if (geometry.aspect) {
+    if (!isAspectPreset(geometry.aspect)) {
+      throw new RangeError(`Unknown aspect preset: ${geometry.aspect}. Use one of ${Object.keys(ASPECT_PRESETS).join(', ')}`)
+    }
+
+    const region = extract || { left: 0, top: 0, ...current }
+    const ratio = aspectRatio(geometry.aspect, geometry.orientation || orientationOf(region.width, region.height))
+    const fitted = centeredRect(region.width, region.height, ratio)
+    extract = { ...fitted, left: region.left + fitted.left, top: region.top + fitted.top }
+  }
+
+  if (extract) {
+    current = { width: extract.width, height: extract.height }
+  }
+
+  return {
+    rotate,
+    flipHorizontal: Boolean(geometry.flipHorizontal),
+    flipVertical: Boolean(geometry.flipVertical),
+    straighten,
+    extract,
+    ...current
+  }
+}
+
+// Width / height of a preset. Instax Mini and Wide keep their orientation, the rest take `orientation`.
+export function aspectRatio(preset: AspectPreset, orientation: AspectOrientation): number {
+  const { width, height } = ASPECT_PRESETS[preset]
+  const wanted = FIXED_ORIENTATION[preset] || orientation
+  const long = Math.max(width, height)
+  const short = Math.min(width, height)
+  return wanted === 'landscape' ? long / short : short / long
+}
+
+// Largest rectangle of `ratio` (width / height) centred in a width x height image
+export function centeredRect(width: number, height: number, ratio: number): CropRect {
+  let cropWidth = width
+  let cropHeight = Math.round(width / ratio)
+
+  if (cropHeight > height) {
+    cropHeight = height
+    cropWidth = Math.round(height * ratio)
+  }
+
+  cropWidth = Math.max(1, Math.min(width, cropWidth))
+  cropHeight = Math.max(1, Math.min(height, cropHeight))
+
+  return {
+    left: Math.floor((width - cropWidth) / 2),
+    top: Math.floor((height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight
+  }
+}
+
+// sharp's rotate() grows the canvas to the rotated bounding box. This is the largest
+// window with the image's own aspect ratio, centred in that box, that has no corners
+// from outside the photo.
+function straightenWindow(width: number, height: number, degrees: number): CropRect {
+  const radians = Math.abs(degrees) * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+
+  const boundsWidth = Math.ceil(width * cos + height * sin)
+  const boundsHeight = Math.ceil(width * sin + height * cos)
+  const scale = Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos))
+
+  // Stay a pixel inside so anti-aliased edges of the background don't show
+  const cropWidth = Math.max(1, Math.floor(width * scale) - 2)
+  const cropHeight = Math.max(1, Math.floor(height * scale) - 2)
+
+  return {
+    left: Math.floor((boundsWidth - cropWidth) / 2),
+    top: Math.floor((boundsHeight - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight
+  }
+}
+
+function normalizeQuarterTurns(rotate: number | undefined): 0 | 90 | 180 | 270 {
+  const degrees = Number(rotate) || 0
+  if (degrees % 90 !== 0) {
+    throw new RangeError(`Rotation must be a multiple of 90 degrees, got ${degrees}`)
+  }
+  return (((degrees % 360) + 360) % 360) as 0 | 90 | 180 | 270
+}
+
+function orientationOf(width: number, height: number): AspectOrientation {
+  return width > height ? 'landscape' : 'portrait'
+}
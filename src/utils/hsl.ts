@@ -0,0 +1,225 @@
+import type { Lut3D } from './lut'
+
+// Colour bands of the HSL mixer and the hue (degrees) each one is centred on
+export const HSL_BANDS = {
+  red: 0,
+  orange: 30,
+  yellow: 60,
+  green: 120,
+  aqua: 180,
+  blue: 240,
+  purple: 270,
+  magenta: 300
+} as const
+
+export type HslBand = keyof typeof HSL_BANDS
+
+// Each value is -1 to 1: hue turns the band up to 30° either way, saturation
+// scales it from grey to double, luminance darkens or lightens it
+export interface HslAdjustment {
+  hue?: number
+  saturation?: number
+  luminance?: number
+}
+
+export type HslMixer = Partial<Record<HslBand, HslAdjustment>>
+
+// Hues in degrees, saturations 0 to 1. Balance -1 tones only the shadows,
+// 1 only the highlights.
+export interface SplitToning {
+  shadowHue: number
+  shadowSaturation: number
+  highlightHue: number
+  highlightSaturation: number
+  balance: number
+}
+
+const MAX_HUE_SHIFT = 30
+const MAX_LUMINANCE_SHIFT = 0.3
+const SPLIT_TONING_STRENGTH = 0.35
+const GRADE_LUT_SIZE = 33
+
+const BAND_ORDER = (Object.entries(HSL_BANDS) as Array<[HslBand, number]>).sort((a, b) => a[1] - b[1])
+
+// Check an `hsl` parameter. Throws a RangeError describing the first problem found.
+export function parseHslMixer(value: unknown): HslMixer {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RangeError(`hsl must be an object keyed by ${Object.keys(HSL_BANDS).join(', ')}`)
+  }
+
+  const mixer: HslMixer = {}
+
+  for (const [band, adjustment] of Object.entries(value)) {
+    if (!Object.hasOwn(HSL_BANDS, band)) {
+      throw new RangeError(`Unknown HSL band: ${band}. Use one of ${Object.keys(HSL_BANDS).join(', ')}`)
+    }
+    if (adjustment === null || adjustment === undefined) continue
+
+    if (typeof adjustment !== 'object' || Array.isArray(adjustment)) {
+      throw new RangeError(`hsl.${band} must be an object with hue, saturation and luminance`)
+    }
+
+    const parsed: HslAdjustment = {}
+    for (const [key, amount] of Object.entries(adjustment)) {
+      if (key !== 'hue' && key !== 'saturation' && key !== 'luminance') {
+        throw new RangeError(`Unknown HSL adjustment: ${band}.${key}. Use hue, saturation or luminance`)
+      }
+      if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < -1 || amount > 1) {
+        throw new RangeError(`hsl.${band}.${key} must be a number between -1 and 1`)
+      }
+      parsed[key] = amount
+    }
+
+    mixer[band as HslBand] = parsed
+  }
+
+  return mixer
+}
+
+// Read the split_* filter parameters. Returns null when neither tone has any saturation.
+export function parseSplitToning(params: Record<string, any>): SplitToning | null {
+  const read = (key: string, min: number, max: number, fallback: number) => {
+    const value = params[key]
+    if (value === undefined || value === null) return fallback
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new RangeError(`${key} must be a number between ${min} and ${max}`)
+    }
+    return value
+  }
+
+  const toning = {
+    shadowHue: read('split_shadow_hue', 0, 360, 0),
+    shadowSaturation: read('split_shadow_saturation', 0, 1, 0),
+    highlightHue: read('split_highlight_hue', 0, 360, 0),
+    highlightSaturation: read('split_highlight_saturation', 0, 1, 0),
+    balance: read('split_balance', -1, 1, 0)
+  }
+
+  return toning.shadowSaturation > 0 || toning.highlightSaturation > 0 ? toning : null
+}
+
+// Bake the mixer and split toning into a LUT for applyLutToPixels. Both are smooth
+// functions of the pixel colour, so a 33-point lattice reproduces them closely.
+export function buildColorGradeLut(mixer: HslMixer | null, splitToning: SplitToning | null): Lut3D {
+  const size = GRADE_LUT_SIZE
+  const table = new Float32Array(size ** 3 * 3)
+  const shadowTint = splitToning ? toneOffset(splitToning.shadowHue) : null
+  const highlightTint = splitToning ? toneOffset(splitToning.highlightHue) : null
+
+  let offset = 0
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        let rgb: [number, number, number] = [r / (size - 1), g / (size - 1), b / (size - 1)]
+
+        if (mixer) {
+          rgb = mixHsl(rgb, mixer)
+        }
+
+        if (splitToning) {
+          const luma = 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2]
+          const shadowWeight = (1 - luma) ** 2 * (1 - splitToning.balance) * splitToning.shadowSaturation
+          const highlightWeight = luma ** 2 * (1 + splitToning.balance) * splitToning.highlightSaturation
+
+          rgb = rgb.map((value, channel) => clamp(value + SPLIT_TONING_STRENGTH * (
+            shadowTint![channel]! * shadowWeight + highlightTint![channel]! * highlightWeight
+          ))) as [number, number, number]
+        }
+
+        table[offset++] = rgb[0]
+        table[offset++] = rgb[1]
+        table[offset++] = rgb[2]
+      }
+    }
+  }
+
+  return { title: 'color grade', size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table }
+}
+
+function mixHsl(rgb: [number, number, number], mixer: HslMixer): [number, number, number] {
+  const [hue, saturation, lightness] = rgbToHsl(rgb)
+  if (saturation === 0) return rgb
+
+  let hueShift = 0
+  let saturationShift = 0
+  let luminanceShift = 0
+
+  for (const [band, weight] of bandWeights(hue)) {
+    const adjustment = mixer[band]
+    if (!adjustment) continue
+
+    hueShift += weight * (adjustment.hue || 0)
+    saturationShift += weight * (adjustment.saturation || 0)
+    luminanceShift += weight * (adjustment.luminance || 0)
+  }
+
+  // Greys have no hue, so band adjustments fade out with saturation
+  return hslToRgb(
+    hue + hueShift * MAX_HUE_SHIFT,
+    clamp(saturation * (1 + saturationShift)),
+    clamp(lightness + luminanceShift * MAX_LUMINANCE_SHIFT * saturation)
+  )
+}
+
+// The two bands either side of `hue`, weighted with a smoothstep between their centres
+function bandWeights(hue: number): Array<[HslBand, number]> {
+  for (let index = 0; index < BAND_ORDER.length; index++) {
+    const [band, center] = BAND_ORDER[index]!
+    const [nextBand, nextCenter] = BAND_ORDER[(index + 1) % BAND_ORDER.length]!
+    const end = nextCenter <= center ? nextCenter + 360 : nextCenter
+
+    if (hue >= center && hue < end) {
+      const t = (hue - center) / (end - center)
+      const weight = t * t * (3 - 2 * t)
+      return [[band, 1 - weight], [nextBand, weight]]
+    }
+  }
+
+  return [[BAND_ORDER[0]![0], 1]]
+}
+
+// Chroma of a fully saturated hue with its luminance removed, so adding it
+// tints a pixel without making it brighter or darker
+function toneOffset(hue: number): [number, number, number] {
+  const tint = hslToRgb(hue, 1, 0.5)
+  const luma = 0.2126 * tint[0] + 0.7152 * tint[1] + 0.0722 * tint[2]
+  return tint.map(value => value - luma) as [number, number, number]
+}
+
+function rgbToHsl([r, g, b]: [number, number, number]): [number, number, number] {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2
+  const delta = max - min
+
+  if (delta === 0) return [0, 0, lightness]
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1))
+  let hue: number
+  if (max === r) hue = ((g - b) / delta) % 6
+  else if (max === g) hue = (b - r) / delta + 2
+  else hue = (r - g) / delta + 4
+
+  return [(hue * 60 + 360) % 360, clamp(saturation), lightness]
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+  const sector = (((hue % 360) + 360) % 360) / 60
+  const x = chroma * (1 - Math.abs((sector % 2) - 1))
+  const m = lightness - chroma / 2
+
+  const [r, g, b] =
+    sector < 1 ? [chroma, x, 0] :
+    sector < 2 ? [x, chroma, 0] :
+    sector < 3 ? [0, chroma, x] :
+    sector < 4 ? [0, x, chroma] :
+    sector < 5 ? [x, 0, chroma] :
+    [chroma, 0, x]
+
+  return [r + m, g + m, b + m]
+}
+
+function clamp(value: number): number {
+  return value <= 0 ? 0 : value >= 1 ? 1 : value
+}
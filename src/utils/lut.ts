@@ -0,0 +1,286 @@
+import sharp from 'sharp'
+import { getStorageDriver } from '../storage'
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral'
+
+type Vec3 = [number, number, number]
+
+// A 3D colour lookup table. Entries are RGB triples in [0, 1] with red varying
+// fastest, so the entry for lattice point (r, g, b) starts at ((b * size + g) * size + r) * 3.
+export interface Lut3D {
+  title?: string
+  size: number
+  domainMin: Vec3
+  domainMax: Vec3
+  table: Float32Array
+}
+
+export interface ApplyLutOptions {
+  interpolation?: LutInterpolation
+  // 0 keeps the source pixel, 1 uses the LUT output
+  intensity?: number
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47])
+// LUTs are read from this folder of the storage bucket and nowhere else
+export const LUT_FOLDER = 'luts'
+const MAX_CACHED_LUTS = 20
+const lutCache = new Map<string, Promise<Lut3D>>()
+
+// Parse an Adobe/Resolve .cube file. Only 3D tables are supported.
+export function parseCubeLut(text: string): Lut3D {
+  let title: string | undefined
+  let size = 0
+  let domainMin: Vec3 = [0, 0, 0]
+  let domainMax: Vec3 = [1, 1, 1]
+  const values: number[] = []
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const [keyword, ...rest] = line.split(/\s+/)
+
+    if (keyword === 'TITLE') {
+      title = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '')
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0])
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D .cube LUTs are not supported')
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriple(rest, line)
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriple(rest, line)
+    } else if (/^[-+.\d]/.test(keyword!)) {
+      values.push(...parseTriple([keyword!, ...rest], line))
+    }
+    // Other keywords (LUT_3D_INPUT_RANGE, vendor extensions) are ignored
+  }
+
+  if (!Number.isInteger(size) || size < 2 || size > 256) {
+    throw new Error(`Invalid LUT_3D_SIZE: ${size}`)
+  }
+
+  if (values.length !== size ** 3 * 3) {
+    throw new Error(`Expected ${size ** 3} LUT entries, found ${values.length / 3}`)
+  }
+
+  if (domainMin.some((min, channel) => min >= domainMax[channel]!)) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX')
+  }
+
+  return { title, size, domainMin, domainMax, table: Float32Array.from(values) }
+}
+
+// Decode a HaldCLUT image: a square of level³ × level³ pixels holding a level²-sized cube
+export async function parseHaldClut(image: Buffer): Promise<Lut3D> {
+  const { data, info } = await sharp(image)
+    .toColourspace('srgb')
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const level = Math.round(Math.cbrt(info.width))
+  if (info.width !== info.height || level ** 3 !== info.width || level < 2) {
+    throw new Error(`Not a HaldCLUT image: ${info.width}x${info.height}`)
+  }
+
+  // Pixels are laid out in the same red-fastest order as .cube entries
+  const table = new Float32Array(data.length)
+  for (let index = 0; index < data.length; index++) {
+    table[index] = data[index]! / 255
+  }
+
+  return { size: level * level, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table }
+}
+
+export async function parseLut(source: string, contents: Buffer): Promise<Lut3D> {
+  const path = source.split(/[?#]/)[0]!.toLowerCase()
+
+  if (path.endsWith('.cube')) {
+    return parseCubeLut(contents.toString('utf8'))
+  }
+
+  if (path.endsWith('.png') || contents.subarray(0, 4).equals(PNG_SIGNATURE)) {
+    return parseHaldClut(contents)
+  }
+
+  throw new Error(`Unsupported LUT format: ${source}`)
+}
+
+// Load the LUT referenced by filters.lut_file: a key under luts/ in the active
+// storage driver, or that object's storage URL. Parsed tables are cached by source.
+export function loadLut(source: string): Promise<Lut3D> {
+  const cached = lutCache.get(source)
+  if (cached) return cached
+
+  const pending = readLutFile(source).then(contents => parseLut(source, contents))
+  // Don't keep failures around, the file may be fixed or uploaded later
+  pending.catch(() => lutCache.delete(source))
+
+  if (lutCache.size >= MAX_CACHED_LUTS) {
+    lutCache.delete(lutCache.keys().next().value!)
+  }
+  lutCache.set(source, pending)
+
+  return pending
+}
+
+async function readLutFile(source: string): Promise<Buffer> {
+  const driver = getStorageDriver()
+  const key = resolveLutKey(source, driver.keyFromUrl(source))
+  if (!key) {
+    throw new Error(`LUT file must be stored under ${LUT_FOLDER}/: ${source}`)
+  }
+
+  return driver.download(key)
+}
+
+// The storage key a lut_file points at, or null when it's outside the LUT folder.
+// Anything that isn't one of the driver's URLs is taken as a key.
+export function resolveLutKey(source: string, urlKey: string | null): string | null {
+  const key = urlKey ?? source
+  const segments = key.split('/')
+
+  if (segments[0] !== LUT_FOLDER || segments.length < 2) return null
+  if (segments.slice(1).some(segment => !segment || segment === '.' || segment === '..' || segment.includes('\\'))) return null
+
+  return key
+}
+
+// Run every pixel of a raw 8-bit buffer (3 or 4 channels, alpha untouched) through the LUT
+export function applyLutToPixels(
+  pixels: Buffer,
+  channels: number,
+  lut: Lut3D,
+  options: ApplyLutOptions = {}
+): Buffer {
+  const { interpolation = 'tetrahedral', intensity = 1 } = options
+  const mix = Math.max(0, Math.min(1, intensity))
+  const output = Buffer.from(pixels)
+
+  if (mix === 0) return output
+
+  const sample = interpolation === 'trilinear' ? sampleTrilinear : sampleTetrahedral
+  const scale = lut.size - 1
+  const offsets = [0, 1, 2].map(channel => lut.domainMin[channel]!)
+  const ranges = [0, 1, 2].map(channel => lut.domainMax[channel]! - lut.domainMin[channel]!)
+  const result: Vec3 = [0, 0, 0]
+
+  // Inputs are 8-bit, so precompute each channel's lattice coordinate
+  const coordinates = [0, 1, 2].map(channel => {
+    const lookup = new Float32Array(256)
+    for (let value = 0; value < 256; value++) {
+      const normalized = (value / 255 - offsets[channel]!) / ranges[channel]!
+      lookup[value] = Math.max(0, Math.min(1, normalized)) * scale
+    }
+    return lookup
+  })
+
+  for (let index = 0; index + 2 < pixels.length; index += channels) {
+    const red = pixels[index]!
+    const green = pixels[index + 1]!
+    const blue = pixels[index + 2]!
+
+    sample(lut, coordinates[0]![red]!, coordinates[1]![green]!, coordinates[2]![blue]!, result)
+
+    output[index] = toByte(red + (result[0] * 255 - red) * mix)
+    output[index + 1] = toByte(green + (result[1] * 255 - green) * mix)
+    output[index + 2] = toByte(blue + (result[2] * 255 - blue) * mix)
+  }
+
+  return output
+}
+
+function parseTriple(parts: string[], line: string): Vec3 {
+  const values = parts.slice(0, 3).map(Number)
+  if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Invalid LUT line: ${line}`)
+  }
+  return values as Vec3
+}
+
+function toByte(value: number): number {
+  return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value)
+}
+
+function entry(lut: Lut3D, r: number, g: number, b: number): number {
+  return ((b * lut.size + g) * lut.size + r) * 3
+}
+
+function sampleTrilinear(lut: Lut3D, x: number, y: number, z: number, out: Vec3) {
+  const { table, size } = lut
+  const r0 = Math.min(Math.floor(x), size - 2)
+  const g0 = Math.min(Math.floor(y), size - 2)
+  const b0 = Math.min(Math.floor(z), size - 2)
+  const fr = x - r0
+  const fg = y - g0
+  const fb = z - b0
+
+  const c000 = entry(lut, r0, g0, b0)
+  const c100 = entry(lut, r0 + 1, g0, b0)
+  const c010 = entry(lut, r0, g0 + 1, b0)
+  const c110 = entry(lut, r0 + 1, g0 + 1, b0)
+  const c001 = entry(lut, r0, g0, b0 + 1)
+  const c101 = entry(lut, r0 + 1, g0, b0 + 1)
+  const c011 = entry(lut, r0, g0 + 1, b0 + 1)
+  const c111 = entry(lut, r0 + 1, g0 + 1, b0 + 1)
+
+  for (let channel = 0; channel < 3; channel++) {
+    const x00 = table[c000 + channel]! + (table[c100 + channel]! - table[c000 + channel]!) * fr
+    const x10 = table[c010 + channel]! + (table[c110 + channel]! - table[c010 + channel]!) * fr
+    const x01 = table[c001 + channel]! + (table[c101 + channel]! - table[c001 + channel]!) * fr
+    const x11 = table[c011 + channel]! + (table[c111 + channel]! - table[c011 + channel]!) * fr
+    const y0 = x00 + (x10 - x00) * fg
+    const y1 = x01 + (x11 - x01) * fg
+    out[channel] = y0 + (y1 - y0) * fb
+  }
+}
+
+// Split the lattice cell into six tetrahedra along its main diagonal and
+// interpolate inside the one containing the point
+function sampleTetrahedral(lut: Lut3D, x: number, y: number, z: number, out: Vec3) {
+  const { table, size } = lut
+  const r0 = Math.min(Math.floor(x), size - 2)
+  const g0 = Math.min(Math.floor(y), size - 2)
+  const b0 = Math.min(Math.floor(z), size - 2)
+  const fr = x - r0
+  const fg = y - g0
+  const fb = z - b0
+
+  const c000 = entry(lut, r0, g0, b0)
+  const c111 = entry(lut, r0 + 1, g0 + 1, b0 + 1)
+  let cA: number, cB: number, wA: number, wB: number, wC: number
+
+  if (fr > fg) {
+    if (fg > fb) {
+      cA = entry(lut, r0 + 1, g0, b0); cB = entry(lut, r0 + 1, g0 + 1, b0)
+      wA = fr - fg; wB = fg - fb; wC = fb
+    } else if (fr > fb) {
+      cA = entry(lut, r0 + 1, g0, b0); cB = entry(lut, r0 + 1, g0, b0 + 1)
+      wA = fr - fb; wB = fb - fg; wC = fg
+    } else {
+      cA = entry(lut, r0, g0, b0 + 1); cB = entry(lut, r0 + 1, g0, b0 + 1)
+      wA = fb - fr; wB = fr - fg; wC = fg
+    }
+  } else {
+    if (fb > fg) {
+      cA = entry(lut, r0, g0, b0 + 1); cB = entry(lut, r0, g0 + 1, b0 + 1)
+      wA = fb - fg; wB = fg - fr; wC = fr
+    } else if (fb > fr) {
+      cA = entry(lut, r0, g0 + 1, b0); cB = entry(lut, r0, g0 + 1, b0 + 1)
+      wA = fg - fb; wB = fb - fr; wC = fr
+    } else {
+      cA = entry(lut, r0, g0 + 1, b0); cB = entry(lut, r0 + 1, g0 + 1, b0)
+      wA = fg - fr; wB = fr - fb; wC = fb
+    }
+  }
+
+  const w0 = 1 - wA - wB - wC
+  for (let channel = 0; channel < 3; channel++) {
+    out[channel] = table[c000 + channel]! * w0
+      + table[cA + channel]! * wA
+      + table[cB + channel]! * wB
+      + table[c111 + channel]! * wC
+  }
+}
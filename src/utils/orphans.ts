@@ -0,0 +1,142 @@
+import { getRepositories } from '../database/repositories'
+import { getStorageDriver } from '../storage'
+
+// Folders written by uploadImage, see getImagePath
+export const GC_FOLDERS = ['originals', 'thumbnails', 'processed', 'exports', 'variants'] as const
+
+const PHOTO_PATH_COLUMNS = ['original_path', 'thumbnail_path', 'processed_path'] as const
+
+export interface MissingObject {
+  photoId: number
+  userId: number
+  column: typeof PHOTO_PATH_COLUMNS[number] | 'variants'
+  key: string
+}
+
+export interface OrphanReport {
+  scannedObjects: number
+  referencedObjects: number
+  orphans: string[]
+  // Orphans younger than the grace period, which may belong to an upload still in flight
+  skippedRecent: string[]
+  deletedObjects: number
+  missing: MissingObject[]
+  markedPhotos: number
+}
+
+export interface CollectOrphansOptions {
+  dryRun?: boolean
+  // Only delete objects older than this; defaults to 24 hours
+  minAgeMs?: number
+  // Set processing_status = 'failed' on rows whose objects are gone
+  markMissing?: boolean
+  now?: Date
+}
+
+// Object names start with the Date.now() of their upload (`1712345678901-photo.jpg`).
+// Names without one have an unknown age and are treated as old.
+function uploadedAt(name: string): number | null {
+  const match = name.match(/^(\d{12,})-/)
+  return match ? Number(match[1]) : null
+}
+
+// Compare every object in the photo folders with the paths stored on photo rows.
+// Objects no row points at are orphans; row paths with no object are missing.
+export async function collectOrphanedObjects(options: CollectOrphansOptions = {}): Promise<OrphanReport> {
+  const { dryRun = false, minAgeMs = 24 * 60 * 60 * 1000, markMissing = false, now = new Date() } = options
+  const driver = getStorageDriver()
+  const { photos } = getRepositories()
+
+  // Keys referenced by rows, trashed ones included since they can still be restored
+  const referenced = new Set<string>()
+  const references: MissingObject[] = []
+  const limit = 500
+
+  for (let offset = 0; ; offset += limit) {
+    const batch = await photos.listAll({ offset, limit })
+
+    for (const photo of batch) {
+      const urls = [
+        ...PHOTO_PATH_COLUMNS.map(column => ({ column, url: photo[column] })),
+        ...(photo.variants || []).map(variant => ({ column: 'variants' as const, url: variant.url }))
+      ]
+
+      for (const { column, url } of urls) {
+        const key = url ? driver.keyFromUrl(url) : null
+        if (!key) continue
+
+        referenced.add(key)
+        references.push({ photoId: photo.id, userId: photo.user_id, column, key })
+      }
+    }
+
+    if (batch.length < limit) break
+  }
+
+  // A listing that fails must abort the run: read as an empty folder it would turn
+  // every row into a missing object (and --mark-missing would fail them all)
+  const existing = new Set<string>()
+  for (const folder of GC_FOLDERS) {
+    for (const name of await driver.list(folder)) {
+      // Skip placeholders such as Supabase's .emptyFolderPlaceholder
+      if (!name.startsWith('.')) existing.add(`${folder}/${name}`)
+    }
+  }
+
+  const orphans: string[] = []
+  const skippedRecent: string[] = []
+  for (const key of existing) {
+    if (referenced.has(key)) continue
+
+    const timestamp = uploadedAt(key.slice(key.indexOf('/') + 1))
+    if (timestamp !== null && now.getTime() - timestamp < minAgeMs) {
+      skippedRecent.push(key)
+    } else {
+      orphans.push(key)
+    }
+  }
+
+  // Only keys inside the listed folders can be checked for existence
+  const missing = references.filter(reference =>
+    GC_FOLDERS.some(folder => reference.key.startsWith(`${folder}/`)) && !existing.has(reference.key)
+  )
+
+  let deletedObjects = 0
+  let markedPhotos = 0
+
+  if (!dryRun) {
+    for (let index = 0; index < orphans.length; index += 100) {
+      const chunk = orphans.slice(index, index + 100)
+      if (await driver.remove(chunk)) {
+        deletedObjects += chunk.length
+      } else {
+        console.error(`Failed to delete ${chunk.length} orphaned object(s) starting at ${chunk[0]}`)
+      }
+    }
+
+    if (markMissing) {
+      const keysByPhoto = new Map<number, string[]>()
+      for (const reference of missing) {
+        keysByPhoto.set(reference.photoId, [...(keysByPhoto.get(reference.photoId) || []), reference.key])
+      }
+
+      for (const [photoId, keys] of keysByPhoto) {
+        await photos.update(photoId, {
+          processing_status: 'failed',
+          processing_error: `Missing from storage: ${keys.join(', ')}`
+        })
+        markedPhotos++
+      }
+    }
+  }
+
+  return {
+    scannedObjects: existing.size,
+    referencedObjects: referenced.size,
+    orphans,
+    skippedRecent,
+    deletedObjects,
+    missing,
+    markedPhotos
+  }
+}
@@ -0,0 +1,57 @@
+import type { PreviewSource } from '../services/ImageProcessor'
+
+// Previews are only ever held in memory. Sources are the expensive part (downloading
+// and decoding the original), rendered previews make repeated slider positions instant.
+const MAX_CACHED_SOURCES = 20
+const MAX_CACHED_PREVIEWS = 200
+
+const sourceCache = new Map<string, Promise<PreviewSource>>()
+const previewCache = new Map<string, Promise<Buffer>>()
+
+export const DEFAULT_PREVIEW_SIZE = 512
+
+// Stable cache key for anything JSON can describe
+export function previewKey(parts: unknown[]): string {
+  return Bun.hash(JSON.stringify(parts)).toString(36)
+}
+
+export function getPreviewSource(key: string, create: () => Promise<PreviewSource>): Promise<PreviewSource> {
+  return remember(sourceCache, MAX_CACHED_SOURCES, key, create).value
+}
+
+// Resolves the cached preview for `key`, rendering it when there's none. Requests
+// for a preview that is still rendering share that render.
+export function getPreview(key: string, render: () => Promise<Buffer>): { value: Promise<Buffer>, cached: boolean } {
+  return remember(previewCache, MAX_CACHED_PREVIEWS, key, render)
+}
+
+export function clearPreviewCache() {
+  sourceCache.clear()
+  previewCache.clear()
+}
+
+function remember<T>(
+  cache: Map<string, Promise<T>>,
+  limit: number,
+  key: string,
+  create: () => Promise<T>
+): { value: Promise<T>, cached: boolean } {
+  const cached = cache.get(key)
+  if (cached) {
+    // Move to the end so the least recently used entry is evicted first
+    cache.delete(key)
+    cache.set(key, cached)
+    return { value: cached, cached: true }
+  }
+
+  const pending = create()
+  // Don't keep failures around
+  pending.catch(() => cache.delete(key))
+
+  if (cache.size >= limit) {
+    cache.delete(cache.keys().next().value!)
+  }
+  cache.set(key, pending)
+
+  return { value: pending, cached: false }
+}
@@ -0,0 +1,95 @@
+import sharp from 'sharp'
+import { scrubExifGps } from './exif'
+import type { JsonObject } from '../types/database'
+
+// How much embedded metadata a served file keeps. Stored files are never changed,
+// only the copies handed out by downloads and shares.
+export const METADATA_PRIVACY_MODES = ['keep', 'strip_all', 'strip_gps', 'coarse_location'] as const
+
+export type MetadataPrivacy = typeof METADATA_PRIVACY_MODES[number]
+
+export const DEFAULT_METADATA_PRIVACY: MetadataPrivacy = 'keep'
+
+// Rounding for coarse_location, about 11 km: enough for the city, not the street
+const COARSE_LOCATION_DEGREES = 0.1
+
+export function isMetadataPrivacy(value: unknown): value is MetadataPrivacy {
+  return typeof value === 'string' && (METADATA_PRIVACY_MODES as readonly string[]).includes(value)
+}
+
+// The user's choice from users.preferences, falling back to the default
+export function getMetadataPrivacy(preferences: JsonObject | null | undefined): MetadataPrivacy {
+  const value = preferences?.metadataPrivacy
+  return isMetadataPrivacy(value) ? value : DEFAULT_METADATA_PRIVACY
+}
+
+// Remove or coarsen metadata in an image about to be served. JPEGs are edited
+// segment by segment so the pixels are never recompressed; other formats are
+// re-encoded by sharp, which drops all of their metadata.
+export async function applyMetadataPrivacy(image: Buffer, mode: MetadataPrivacy): Promise<Buffer> {
+  if (mode === 'keep') return image
+
+  if (image[0] === 0xff && image[1] === 0xd8) {
+    return rewriteJpegMetadata(image, mode)
+  }
+
+  const { format } = await sharp(image).metadata()
+  if (!format) {
+    throw new Error('Unrecognised image format, metadata cannot be removed')
+  }
+
+  return sharp(image, { animated: true }).keepIccProfile().toFormat(format).toBuffer()
+}
+
+function rewriteJpegMetadata(image: Buffer, mode: Exclude<MetadataPrivacy, 'keep'>): Buffer {
+  const parts: Buffer[] = [image.subarray(0, 2)]
+  let offset = 2
+
+  while (offset + 4 <= image.length && image[offset] === 0xff) {
+    const marker = image[offset + 1]!
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(image.subarray(offset, offset + 2))
+      offset += 2
+      continue
+    }
+
+    // Everything from the start of scan on is image data
+    if (marker === 0xda || marker === 0xd9) break
+
+    const end = offset + 2 + image.readUInt16BE(offset + 2)
+    if (end > image.length) break
+
+    const segment = image.subarray(offset, end)
+    const payload = segment.subarray(4)
+    const kind = segmentKind(marker, payload)
+
+    if (kind === 'exif' && mode !== 'strip_all') {
+      const exif = scrubExifGps(payload, mode === 'coarse_location', COARSE_LOCATION_DEGREES)
+      parts.push(segment.subarray(0, 4), exif)
+    } else if (kind === 'other' || (mode !== 'strip_all' && (kind === 'iptc' || kind === 'comment'))) {
+      parts.push(segment)
+    }
+    // XMP can repeat the GPS position, so it goes in every mode
+
+    offset = end
+  }
+
+  parts.push(image.subarray(offset))
+  return Buffer.concat(parts)
+}
+
+function segmentKind(marker: number, payload: Buffer): 'exif' | 'xmp' | 'iptc' | 'comment' | 'other' {
+  const header = payload.subarray(0, 36).toString('latin1')
+
+  if (marker === 0xe1 && header.startsWith('Exif\0')) return 'exif'
+  if (marker === 0xe1 && header.startsWith('http://ns.adobe.com/')) return 'xmp'
+  if (marker === 0xed && header.startsWith('Photoshop 3.0')) return 'iptc'
+  if (marker === 0xfe) return 'comment'
+  return 'other'
+}
@@ -0,0 +1,56 @@
+import { getRepositories } from '../database/repositories'
+import { Errors } from './errors'
+
+export interface StorageReconciliation {
+  userId: number
+  recorded: number
+  actual: number
+}
+
+// Claim `bytes` of the user's quota before doing any work. Throws QUOTA_EXCEEDED
+// when it doesn't fit; release the reservation if the work then fails.
+export async function reserveStorage(userId: number, bytes: number): Promise<void> {
+  const { users } = getRepositories()
+
+  if (await users.reserveStorage(userId, bytes)) return
+
+  const user = await users.findById(userId)
+  if (!user) throw Errors.UserNotFound(userId)
+
+  const available = Math.max(0, user.storage_quota - user.storage_used)
+  throw Errors.QuotaExceeded(`Storage quota exceeded: ${bytes} bytes requested, ${available} of ${user.storage_quota} bytes available`)
+}
+
+export async function releaseStorage(userId: number, bytes: number): Promise<void> {
+  if (bytes > 0) await getRepositories().users.adjustStorageUsed(userId, -bytes)
+}
+
+// Settle a reservation once the real size is known (may push usage past the quota slightly)
+export async function adjustStorage(userId: number, delta: number): Promise<void> {
+  if (delta !== 0) await getRepositories().users.adjustStorageUsed(userId, delta)
+}
+
+// Recompute storage_used for every user from their photo rows and fix the ones that drifted
+export async function reconcileStorageUsage(options: { dryRun?: boolean } = {}): Promise<StorageReconciliation[]> {
+  const { users, photos } = getRepositories()
+  const drifted: StorageReconciliation[] = []
+  const limit = 100
+
+  for (let offset = 0; ; offset += limit) {
+    const batch = await users.list({ offset, limit })
+
+    for (const user of batch) {
+      const actual = await photos.sumFileSizeByUser(user.id)
+      if (actual === user.storage_used) continue
+
+      drifted.push({ userId: user.id, recorded: user.storage_used, actual })
+      if (!options.dryRun) {
+        await users.update(user.id, { storage_used: actual })
+      }
+    }
+
+    if (batch.length < limit) break
+  }
+
+  return drifted
+}
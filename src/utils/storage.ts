@@ -1,9 +1,7 @@
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
-export const supabase = createClient(supabaseUrl, supabaseServiceKey)
+import sharp from 'sharp'
+import { getStorageDriver } from '../storage'
+import { loadWorkingImage, WORKING_PROFILE } from './colorspace'
+import { detectContentType } from './formats'
 
 interface UploadResult {
   success: boolean
@@ -11,7 +9,7 @@ interface UploadResult {
   error?: string
 }
 
-export type ImageType = 'original' | 'thumbnail' | 'processed' | 'export';
+export type ImageType = 'original' | 'thumbnail' | 'processed' | 'export' | 'variant';
 
 export async function uploadImage(
   file: File | Buffer,
@@ -23,32 +21,18 @@ export async function uploadImage(
     const finalFileName = fileName || `photo-${timestamp}.jpg`
 
     // Create folder structure like local: originals/, thumbnails/, processed/, exports/
-    const folderPath = type === 'processed' ? `processed/${finalFileName}` : `${type}s/${finalFileName}`
+    const folderPath = getImagePath(finalFileName, type)
+    const driver = getStorageDriver()
 
-    console.log('Uploading to Supabase:', {
+    console.log(`Uploading to ${driver.name} storage:`, {
       fileName: finalFileName,
       folderPath,
       fileSize: Buffer.isBuffer(file) ? file.length : file.size,
       fileType: file instanceof File ? file.type : 'Buffer'
     })
 
-    const { data, error } = await supabase.storage
-      .from('images')
-      .upload(folderPath, file, {
-        contentType: 'image/jpeg',
-        upsert: true
-      })
-
-    if (error) {
-      console.error('Supabase upload error:', error)
-      return { success: false, error: error.message }
-    }
-
-    console.log('Upload success:', data)
-
-    const { data: { publicUrl } } = supabase.storage
-      .from('images')
-      .getPublicUrl(folderPath)
+    const data = Buffer.isBuffer(file) ? file : Buffer.from(await file.arrayBuffer())
+    const publicUrl = await driver.upload(folderPath, data, detectContentType(data))
 
     console.log('Public URL:', publicUrl)
 
@@ -61,13 +45,9 @@ export async function uploadImage(
 
 export async function deleteImage(fileName: string, type?: ImageType): Promise<boolean> {
   try {
-    const filePath = type ? (type === 'processed' ? `processed/${fileName}` : `${type}s/${fileName}`) : fileName
-
-    const { error } = await supabase.storage
-      .from('images')
-      .remove([filePath])
+    const filePath = type ? getImagePath(fileName, type) : fileName
 
-    return !error
+    return await getStorageDriver().remove([filePath])
   } catch (error) {
     console.error('Delete error:', error)
     return false
@@ -85,28 +65,58 @@ export async function deleteAllImageVariants(fileName: string): Promise<boolean>
   return results.some(result => result)
 }
 
+// Lenient listing for lookups (textures, reference images): a failed listing reads as
+// an empty folder. The storage GC lists through the driver so failures abort it.
 export async function listImages(folder?: string): Promise<string[]> {
   try {
-    const { data, error } = await supabase.storage
-      .from('images')
-      .list(folder)
-
-    if (error) return []
-
-    return data.map(file => file.name)
+    return await getStorageDriver().list(folder)
   } catch (error) {
     return []
   }
 }
 
-// Helper function to create thumbnail from original
+// Read an image back from storage by the URL stored on the photo row.
+// URLs that don't belong to the active driver are fetched over HTTP.
+export async function downloadImage(url: string): Promise<Buffer> {
+  const driver = getStorageDriver()
+  const key = driver.keyFromUrl(url)
+
+  if (key) {
+    return driver.download(key)
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error('File not found in storage')
+  }
+
+  return Buffer.from(await response.arrayBuffer())
+}
+
+// Longest side of a gallery thumbnail
+const THUMBNAIL_SIZE = 800
+
+// Upright, sRGB-tagged and scaled down copy of an image, stored under thumbnails/
 export async function createThumbnail(originalBuffer: Buffer, fileName: string): Promise<UploadResult> {
-  // For now, we'll upload the same image as thumbnail
-  // In a full implementation, you'd resize the image here using sharp or similar
-  return uploadImage(originalBuffer, fileName, 'thumbnail')
+  try {
+    const { hasAlpha } = await sharp(originalBuffer).metadata()
+    const image = loadWorkingImage(originalBuffer)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .withIccProfile(WORKING_PROFILE)
+
+    // Keep transparency for cut-outs and stickers
+    const thumbnail = hasAlpha
+      ? await image.png().toBuffer()
+      : await image.jpeg({ quality: 85 }).toBuffer()
+
+    return uploadImage(thumbnail, fileName, 'thumbnail')
+  } catch (error) {
+    console.error('Thumbnail error:', error)
+    return { success: false, error: 'Failed to create thumbnail' }
+  }
 }
 
 // Helper function to get the correct file path structure
 export function getImagePath(fileName: string, type: ImageType): string {
   return type === 'processed' ? `processed/${fileName}` : `${type}s/${fileName}`
-}
\ No newline at end of file
+}
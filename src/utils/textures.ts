@@ -0,0 +1,87 @@
+import { getStorageDriver } from '../storage'
+import { listImages } from './storage'
+
+// Texture assets live beside the photo folders but are shared by every filter,
+// so they're not part of the per-photo GC (see GC_FOLDERS)
+export const TEXTURE_FOLDER = 'textures'
+
+// Subset of sharp's blend modes that make sense for paper and grain overlays
+export const TEXTURE_BLEND_MODES = [
+  'multiply',
+  'screen',
+  'overlay',
+  'soft-light',
+  'hard-light',
+  'darken',
+  'lighten',
+  'colour-burn',
+  'colour-dodge',
+  'difference',
+  'exclusion',
+  'over'
+] as const
+
+export type TextureBlendMode = typeof TEXTURE_BLEND_MODES[number]
+
+const MAX_CACHED_TEXTURES = 10
+const textureCache = new Map<string, Promise<Buffer | null>>()
+
+export function isTextureBlendMode(value: unknown): value is TextureBlendMode {
+  return typeof value === 'string' && (TEXTURE_BLEND_MODES as readonly string[]).includes(value)
+}
+
+export function getTexturePath(name: string): string {
+  return `${TEXTURE_FOLDER}/${name}`
+}
+
+export function getTextureStem(name: string): string {
+  return name.replace(/\.[^.]+$/, '')
+}
+
+export async function listTextureNames(): Promise<string[]> {
+  return (await listImages(TEXTURE_FOLDER)).filter(name => !name.startsWith('.')).sort()
+}
+
+// Resolve a texture reference to a storage key. Exact names win; otherwise the
+// extension is ignored, so `paper_grain` or `vintage_paper.png` find `vintage_paper.jpg`.
+export async function findTextureKey(reference: string): Promise<string | null> {
+  const name = reference.split('/').pop()!
+  const names = await listTextureNames()
+
+  if (names.includes(name)) return getTexturePath(name)
+
+  const match = names.find(entry => getTextureStem(entry) === getTextureStem(name))
+  return match ? getTexturePath(match) : null
+}
+
+// Load the image behind filters.texture_image (or the `texture` parameter). Only
+// library textures are read: the reference can come from a request, so URLs are
+// never fetched and only their file name is looked up. Resolves null when the
+// library has no such texture.
+export function loadTexture(reference: string): Promise<Buffer | null> {
+  const cached = textureCache.get(reference)
+  if (cached) return cached
+
+  const pending = readTexture(reference)
+  pending.then(texture => {
+    // Keep misses out of the cache so a later upload is picked up
+    if (!texture) textureCache.delete(reference)
+  }, () => textureCache.delete(reference))
+
+  if (textureCache.size >= MAX_CACHED_TEXTURES) {
+    textureCache.delete(textureCache.keys().next().value!)
+  }
+  textureCache.set(reference, pending)
+
+  return pending
+}
+
+// Called after a texture is replaced so filters pick up the new image
+export function clearTextureCache() {
+  textureCache.clear()
+}
+
+async function readTexture(reference: string): Promise<Buffer | null> {
+  const key = await findTextureKey(reference)
+  return key ? getStorageDriver().download(key) : null
+}
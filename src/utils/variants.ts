@@ -0,0 +1,159 @@
+import { getRepositories } from '../database/repositories'
+import { getStorageDriver } from '../storage'
+import { loadWorkingImage, WORKING_PROFILE } from './colorspace'
+import { downloadImage, uploadImage } from './storage'
+import type { PhotoTable, PhotoVariant } from '../types/database'
+
+export type VariantFormat = PhotoVariant['format']
+
+const VARIANT_FORMATS: VariantFormat[] = ['avif', 'webp']
+const DEFAULT_WIDTHS = [320, 640, 1280, 2048]
+
+// AVIF at sharp's default effort takes tens of seconds per large image on a small
+// server; effort 2 is an order of magnitude faster for nearly the same size
+const ENCODER_OPTIONS = {
+  avif: { quality: 50, effort: 2 },
+  webp: { quality: 80 }
+}
+
+// Widths and formats to render, from IMAGE_VARIANT_WIDTHS and IMAGE_VARIANT_FORMATS
+// (comma separated). An empty format list turns variants off.
+export function getVariantLadder(): { widths: number[], formats: VariantFormat[] } {
+  const widths = (process.env.IMAGE_VARIANT_WIDTHS || '')
+    .split(',')
+    .map(Number)
+    .filter(width => Number.isInteger(width) && width > 0)
+  const formats = (process.env.IMAGE_VARIANT_FORMATS ?? VARIANT_FORMATS.join(','))
+    .split(',')
+    .map(value => value.trim())
+    .filter((value): value is VariantFormat => VARIANT_FORMATS.includes(value as VariantFormat))
+
+  return {
+    widths: [...new Set(widths.length > 0 ? widths : DEFAULT_WIDTHS)].sort((a, b) => a - b),
+    formats: [...new Set(formats)]
+  }
+}
+
+// Render and store the ladder for an image. Widths above the source's are never
+// upscaled: they collapse into one variant at the source width. Each render gets
+// new keys, since stored objects are cached for a year.
+export async function createVariants(source: Buffer, fileName: string): Promise<PhotoVariant[]> {
+  const { widths, formats } = getVariantLadder()
+  if (formats.length === 0) return []
+
+  const { autoOrient } = await loadWorkingImage(source).metadata()
+  const targets = [...new Set(widths.map(width => Math.min(width, autoOrient.width)))]
+  const stem = `${Date.now()}-${fileName.replace(/\.[^.]*$/, '')}`
+  const variants: PhotoVariant[] = []
+
+  // One at a time; each encode already keeps a core busy
+  for (const format of formats) {
+    for (const width of targets) {
+      const { data, info } = await loadWorkingImage(source)
+        .resize({ width })
+        .withIccProfile(WORKING_PROFILE)
+        .toFormat(format, ENCODER_OPTIONS[format])
+        .toBuffer({ resolveWithObject: true })
+
+      const result = await uploadImage(data, `${stem}-${width}w.${format}`, 'variant')
+      if (!result.success || !result.url) {
+        throw new Error(`Failed to store ${width}px ${format} variant of ${fileName}`)
+      }
+
+      variants.push({ format, width: info.width, height: info.height, url: result.url })
+    }
+  }
+
+  return variants
+}
+
+export async function deleteVariants(variants: PhotoVariant[] | null | undefined): Promise<void> {
+  const driver = getStorageDriver()
+  const keys = (variants || [])
+    .map(variant => driver.keyFromUrl(variant.url))
+    .filter((key): key is string => Boolean(key))
+
+  if (keys.length > 0) {
+    await driver.remove(keys)
+  }
+}
+
+// `srcset` strings per format for <picture> sources, or null before variants exist
+export function formatVariants(variants: PhotoVariant[] | null | undefined): Partial<Record<VariantFormat, string>> | null {
+  if (!variants || variants.length === 0) return null
+
+  const srcsets: Partial<Record<VariantFormat, string>> = {}
+  for (const format of VARIANT_FORMATS) {
+    const entries = variants.filter(variant => variant.format === format)
+    if (entries.length > 0) {
+      srcsets[format] = entries.map(variant => `${variant.url} ${variant.width}w`).join(', ')
+    }
+  }
+
+  return srcsets
+}
+
+// Render a photo's variants from the image as displayed (processed, else original)
+// and store them on its row, replacing the previous set. Returns null when the
+// photo is gone.
+export async function renderVariants(photoId: number): Promise<PhotoVariant[] | null> {
+  const { photos } = getRepositories()
+  const photo = await photos.findById(photoId)
+  if (!photo) return null
+
+  const variants = await createVariants(await downloadImage(photo.processed_path || photo.original_path), photo.filename)
+
+  // Drop the files of the previous render
+  const current = new Set(variants.map(variant => variant.url))
+  await deleteVariants((photo.variants || []).filter(variant => !current.has(variant.url)))
+
+  await photos.update(photoId, { variants })
+  return variants
+}
+
+// Photos waiting for a render. Only ids are queued and each job reads its image
+// back from storage, so a burst of uploads or an import doesn't hold every file
+// in memory; renders run one after another so they can't starve requests.
+const pending: number[] = []
+let draining = false
+
+// renderVariants in the background. A photo already waiting isn't queued twice:
+// its render reads whatever the row points at by then. One edited while its
+// render runs is queued again, so the latest render lands last.
+export function scheduleVariants(photoId: number): void {
+  if (pending.includes(photoId)) return
+
+  pending.push(photoId)
+  if (!draining) drainVariantQueue()
+}
+
+async function drainVariantQueue() {
+  draining = true
+
+  while (pending.length > 0) {
+    const photoId = pending.shift()!
+    try {
+      await renderVariants(photoId)
+    } catch (error) {
+      console.error(`Variant rendering failed for photo ${photoId}:`, error)
+    }
+  }
+
+  draining = false
+}
+
+// Live photos whose variants were never rendered (uploaded before variants existed
+// or while rendering failed), or every live photo with `all`
+export async function listPhotosForVariants(options: { all?: boolean } = {}): Promise<PhotoTable[]> {
+  const { photos } = getRepositories()
+  const found: PhotoTable[] = []
+  const limit = 500
+
+  for (let offset = 0; ; offset += limit) {
+    const batch = await photos.listAll({ offset, limit })
+    found.push(...batch.filter(photo => !photo.deleted_at && (options.all || !photo.variants)))
+    if (batch.length < limit) break
+  }
+
+  return found
+}
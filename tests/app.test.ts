@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import JSZip from 'jszip'
+import sharp from 'sharp'
+import { createMemoryRepositories, setRepositories } from '../src/database/repositories'
+import { LocalStorageDriver, setStorageDriver } from '../src/storage'
+
+// The whole app, offline: in-memory database seeded from supabase-seeds.sql and
+// local storage in a scratch directory. Set before the app reads its config.
+const uploadDir = await mkdtemp(join(tmpdir(), 'classic-web-fotos-test-'))
+process.env.DB_DRIVER = 'memory'
+process.env.STORAGE_DRIVER = 'local'
+process.env.UPLOAD_DIR = uploadDir
+process.env.STORAGE_PUBLIC_URL = '/uploads'
+// Variants render in the background and would outlive the tests
+process.env.IMAGE_VARIANT_FORMATS = ''
+
+const { app } = await import('../src/index')
+
+function request(path: string, init: RequestInit = {}) {
+  return app.handle(new Request(`http://localhost${path}`, init))
+}
+
+function postJson(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  })
+}
+
+async function readData(response: Response): Promise<any> {
+  const body = await response.json() as { data: unknown }
+  return body.data
+}
+
+describe('app', () => {
+  let auth: Record<string, string>
+  let photoId: number
+  let processedPhotoId: number
+
+  beforeAll(async () => {
+    // Other test files swap these out, so don't rely on the ones the config picked
+    setRepositories(createMemoryRepositories())
+    setStorageDriver(new LocalStorageDriver(uploadDir, '/uploads'))
+
+    const deviceId = 'test-device'
+
+    const first = await readData(await postJson('/api/auth/session', { deviceId }))
+    expect(first.requiresPinSetup).toBe(true)
+
+    expect((await postJson('/api/auth/set-pin', { deviceId, pin: '1234' })).status).toBe(200)
+
+    const response = await postJson('/api/auth/session', { deviceId, pin: '1234' })
+    expect(response.status).toBe(201)
+
+    const data = await readData(response)
+    auth = { Authorization: `Bearer ${data.session.sessionToken}` }
+  })
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true })
+  })
+
+  test('rejects requests without a session', async () => {
+    expect((await request('/api/photos')).status).toBe(401)
+  })
+
+  test('uploads a photo', async () => {
+    const image = await sharp({
+      create: { width: 320, height: 240, channels: 3, background: '#8a6d4f' }
+    }).jpeg().toBuffer()
+
+    const form = new FormData()
+    form.append('file', new File([image], 'beach.jpg', { type: 'image/jpeg' }))
+
+    const response = await request('/api/photos/upload', { method: 'POST', headers: auth, body: form })
+    expect(response.status).toBe(201)
+
+    const data = await readData(response)
+    expect(data.photo).toMatchObject({ originalFilename: 'beach.jpg', mimeType: 'image/jpeg', width: 320, height: 240 })
+    photoId = data.photo.id
+
+    const stored = await request(data.photo.originalPath)
+    expect(stored.status).toBe(200)
+    expect(stored.headers.get('content-type')).toBe('image/jpeg')
+  })
+
+  test('rejects files that are not images', async () => {
+    const form = new FormData()
+    form.append('file', new File(['not an image'], 'notes.jpg', { type: 'image/jpeg' }))
+
+    const response = await request('/api/photos/upload', { method: 'POST', headers: auth, body: form })
+    expect(response.status).toBe(400)
+  })
+
+  test('lists the uploaded photo', async () => {
+    const response = await request('/api/photos', { headers: auth })
+    expect(response.status).toBe(200)
+
+    const data = await readData(response)
+    expect(data.photos.map((photo: { id: number }) => photo.id)).toContain(photoId)
+  })
+
+  test('applies a filter as a new photo', async () => {
+    const data = await readData(await request('/api/filters'))
+    const filter = data.categories
+      .flatMap((category: { filters: { id: number, filterType: string }[] }) => category.filters)
+      .find((entry: { filterType: string }) => entry.filterType === 'color')
+    expect(filter).toBeDefined()
+
+    const preview = await postJson('/api/filters/preview', { photoId, filterId: filter.id, size: 128 }, auth)
+    expect(preview.status).toBe(200)
+    expect(preview.headers.get('content-type')).toBe('image/jpeg')
+
+    const response = await postJson('/api/filters/apply', { photoId, filterId: filter.id, intensity: 0.8 }, auth)
+    expect(response.status).toBe(201)
+
+    const applied = await readData(response)
+    expect(applied.processedPhoto.originalPhotoId).toBe(photoId)
+    expect(applied.processedPhoto.appliedFilter.id).toBe(filter.id)
+    processedPhotoId = applied.processedPhoto.id
+
+    expect((await request(applied.processedPhoto.processedPath)).status).toBe(200)
+  })
+
+  test('downloads a single photo', async () => {
+    const response = await request(`/api/downloads/photo/${processedPhotoId}/processed`, { headers: auth })
+    expect(response.status).toBe(200)
+
+    const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata()
+    expect(metadata.format).toBe('jpeg')
+  })
+
+  test('downloads photos as a ZIP', async () => {
+    const response = await postJson('/api/downloads/batch', { photoIds: [photoId, processedPhotoId] }, auth)
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/zip')
+
+    const zip = await JSZip.loadAsync(await response.arrayBuffer())
+    expect(Object.values(zip.files).filter(file => !file.dir)).toHaveLength(2)
+  })
+})
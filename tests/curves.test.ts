@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  applyToneTablesToPixels,
+  buildCurveTable,
+  buildToneTables,
+  parseToneCurves,
+  shadowHighlightCurve,
+  type CurvePoint
+} from '../src/utils/curves'
+
+function isNonDecreasing(table: Uint8Array) {
+  return table.every((value, index) => index === 0 || value >= table[index - 1]!)
+}
+
+describe('parseToneCurves', () => {
+  test('sorts points by input and skips empty channels', () => {
+    expect(parseToneCurves({ master: [[255, 240], [0, 10], [128, 140]], red: null })).toEqual({
+      master: [[0, 10], [128, 140], [255, 240]]
+    })
+  })
+
+  test('rejects malformed curves', () => {
+    expect(() => parseToneCurves([])).toThrow('curves must be an object')
+    expect(() => parseToneCurves({ alpha: [[0, 0], [255, 255]] })).toThrow('Unknown curve channel: alpha')
+    expect(() => parseToneCurves({ red: [[0, 0]] })).toThrow('The red curve needs 2 to 16')
+    expect(() => parseToneCurves({ red: Array.from({ length: 17 }, (_, index) => [index, index]) })).toThrow('needs 2 to 16')
+    expect(() => parseToneCurves({ green: [[0, 0], [300, 255]] })).toThrow('Invalid green curve point [300,255]')
+    expect(() => parseToneCurves({ blue: [[0, 0], [0, 255]] })).toThrow('two points at input 0')
+  })
+})
+
+describe('buildCurveTable', () => {
+  test('passes through every control point', () => {
+    const points: CurvePoint[] = [[0, 20], [64, 40], [128, 160], [200, 210], [255, 250]]
+    const table = buildCurveTable(points)
+
+    for (const [input, output] of points) {
+      expect(table[input]).toBe(output)
+    }
+  })
+
+  test('is the identity for a straight line', () => {
+    const table = buildCurveTable([[0, 0], [255, 255]])
+    expect(Array.from(table)).toEqual(Array.from({ length: 256 }, (_, index) => index))
+  })
+
+  test('never overshoots between points', () => {
+    // A steep step that a plain cubic spline would ring around
+    const table = buildCurveTable([[0, 0], [100, 10], [110, 245], [255, 255]])
+
+    expect(isNonDecreasing(table)).toBe(true)
+    expect(Math.max(...table.subarray(0, 101))).toBe(10)
+    expect(Math.min(...table.subarray(110))).toBe(245)
+  })
+
+  test('holds flat segments and local extrema flat', () => {
+    const table = buildCurveTable([[0, 0], [80, 128], [160, 128], [255, 0]])
+
+    expect(Array.from(table.subarray(80, 161)).every(value => value === 128)).toBe(true)
+    expect(Math.max(...table)).toBe(128)
+  })
+
+  test('holds the ends outside the first and last point', () => {
+    const table = buildCurveTable([[32, 50], [224, 200]])
+
+    expect(Array.from(table.subarray(0, 33)).every(value => value === 50)).toBe(true)
+    expect(Array.from(table.subarray(224)).every(value => value === 200)).toBe(true)
+  })
+})
+
+describe('buildToneTables', () => {
+  const invert: CurvePoint[] = [[0, 255], [255, 0]]
+
+  test('applies master before each channel and chains curve sets', () => {
+    const [red, green, blue] = buildToneTables([{ master: invert, red: invert }])
+    expect([red[0], green[0], blue[0]]).toEqual([0, 255, 255])
+
+    const [chained] = buildToneTables([{ master: invert }, { master: invert }])
+    expect(chained[77]).toBe(77)
+  })
+
+  test('mixes with the input by intensity', () => {
+    const [half] = buildToneTables([{ master: invert }], 0.5)
+    expect([half[0], half[255]]).toEqual([128, 128])
+
+    const [none] = buildToneTables([{ master: invert }], 0)
+    expect(none[10]).toBe(10)
+  })
+
+  test('turns shadows and highlights into a master curve', () => {
+    expect(shadowHighlightCurve()).toEqual([[0, 0], [64, 64], [192, 192], [255, 255]])
+    expect(shadowHighlightCurve(1, -1)).toEqual([[0, 0], [64, 112], [192, 144], [255, 255]])
+
+    const [lifted] = buildToneTables([{ master: shadowHighlightCurve(0.5, 0) }])
+    expect(lifted[64]).toBe(88)
+    expect(isNonDecreasing(lifted)).toBe(true)
+  })
+})
+
+describe('applyToneTablesToPixels', () => {
+  test('maps each channel through its table and leaves alpha alone', () => {
+    const tables = buildToneTables([{ red: [[0, 255], [255, 0]] }])
+    const pixels = Buffer.from([10, 20, 30, 40, 200, 100, 50, 255])
+
+    expect(applyToneTablesToPixels(pixels, 4, tables)).toEqual(Buffer.from([245, 20, 30, 40, 55, 100, 50, 255]))
+  })
+})
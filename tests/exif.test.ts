@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test'
+import sharp from 'sharp'
+import { parseExif } from '../src/utils/exif'
+import { buildExif, dms, withSegments, type ExifIfds } from './helpers/exif'
+
+const camera: ExifIfds = {
+  image: [
+    { tag: 0x010f, type: 2, value: 'FUJIFILM' },
+    { tag: 0x0110, type: 2, value: 'X100V' },
+    { tag: 0x0112, type: 3, value: [1] },
+    { tag: 0x0131, type: 2, value: 'Digital Camera X100V Ver2.00' }
+  ],
+  exif: [
+    { tag: 0x829a, type: 5, value: [[1, 250]] },
+    { tag: 0x829d, type: 5, value: [[28, 10]] },
+    { tag: 0x8827, type: 3, value: [400] },
+    { tag: 0x9003, type: 2, value: '2024:07:14 18:30:05' },
+    { tag: 0x9011, type: 2, value: '+02:00' },
+    { tag: 0x9291, type: 2, value: '25' },
+    { tag: 0x9204, type: 10, value: [[-2, 3]] },
+    { tag: 0x9209, type: 3, value: [16] },
+    { tag: 0x920a, type: 5, value: [[230, 10]] },
+    { tag: 0xa405, type: 3, value: [35] },
+    { tag: 0xa434, type: 2, value: 'XF23mmF2' },
+    // Maker notes are skipped
+    { tag: 0x927c, type: 2, value: 'vendor data' }
+  ],
+  gps: [
+    { tag: 0x0001, type: 2, value: 'N' },
+    { tag: 0x0002, type: 5, value: dms(48.858222) },
+    { tag: 0x0003, type: 2, value: 'W' },
+    { tag: 0x0004, type: 5, value: dms(2.2945) },
+    // Below sea level
+    { tag: 0x0005, type: 1, value: [1] },
+    { tag: 0x0006, type: 5, value: [[355, 10]] }
+  ]
+}
+
+describe('parseExif', () => {
+  test('splits camera, exposure and location the way the photos table stores them', () => {
+    const metadata = parseExif(buildExif(camera))
+
+    expect(metadata.cameraInfo).toEqual({
+      make: 'FUJIFILM',
+      model: 'X100V',
+      lensModel: 'XF23mmF2',
+      software: 'Digital Camera X100V Ver2.00'
+    })
+    expect(metadata.captureSettings).toEqual({
+      exposureTime: '1/250',
+      fNumber: 2.8,
+      iso: 400,
+      focalLength: 23,
+      focalLength35mm: 35,
+      exposureBias: -0.67,
+      flash: false
+    })
+    expect(metadata.locationData).toEqual({ latitude: 48.858222, longitude: -2.2945, altitude: -35.5 })
+    expect(metadata.exifData).toMatchObject({ Make: 'FUJIFILM', Orientation: 1, ISOSpeedRatings: 400 })
+    expect(metadata.exifData).not.toHaveProperty('MakerNote')
+  })
+
+  test('places the capture time with its offset tag', () => {
+    // 18:30:05.25 at UTC+2
+    expect(parseExif(buildExif(camera)).capturedAt).toBe('2024-07-14T16:30:05.250Z')
+  })
+
+  test('reads big-endian blocks without the APP1 prefix', () => {
+    const metadata = parseExif(buildExif(camera, { bigEndian: true, prefix: false }))
+
+    expect(metadata.cameraInfo.model).toBe('X100V')
+    expect(metadata.captureSettings.iso).toBe(400)
+    expect(metadata.locationData.latitude).toBe(48.858222)
+  })
+
+  test('works out the camera clock zone from the GPS clock', () => {
+    const metadata = parseExif(buildExif({
+      image: [],
+      exif: [{ tag: 0x9003, type: 2, value: '2024:01:02 09:15:00' }],
+      gps: [
+        { tag: 0x0007, type: 5, value: [[14, 1], [15, 1], [0, 1]] },
+        { tag: 0x001d, type: 2, value: '2024:01:02' }
+      ]
+    }))
+
+    // The GPS clock (UTC) runs five hours ahead of the camera
+    expect(metadata.capturedAt).toBe('2024-01-02T14:15:00.000Z')
+  })
+
+  test('takes a capture time without a zone as UTC', () => {
+    const metadata = parseExif(buildExif({ image: [{ tag: 0x0132, type: 2, value: '2023:12:31 23:59:59' }] }))
+    expect(metadata.capturedAt).toBe('2023-12-31T23:59:59.000Z')
+  })
+
+  test('formats long exposures in seconds and reads the flash bit', () => {
+    const metadata = parseExif(buildExif({
+      image: [],
+      exif: [
+        { tag: 0x829a, type: 5, value: [[5, 2]] },
+        { tag: 0x9209, type: 3, value: [0x19] }
+      ]
+    }))
+
+    expect(metadata.captureSettings).toEqual({ exposureTime: '2.5', flash: true })
+  })
+
+  test('drops impossible coordinates and invalid dates', () => {
+    const metadata = parseExif(buildExif({
+      image: [{ tag: 0x0132, type: 2, value: '0000:00:00 00:00:00' }],
+      gps: [
+        { tag: 0x0002, type: 5, value: [[95, 1], [0, 1], [0, 1]] },
+        { tag: 0x0004, type: 5, value: dms(10) }
+      ]
+    }))
+
+    expect(metadata.locationData).toEqual({})
+    expect(metadata.capturedAt).toBeNull()
+  })
+
+  test('never throws on missing, foreign or truncated data', () => {
+    const empty = { cameraInfo: {}, captureSettings: {}, locationData: {}, exifData: {}, capturedAt: null }
+    expect(parseExif(undefined)).toEqual(empty)
+    expect(parseExif(Buffer.from('not exif at all'))).toEqual(empty)
+
+    const block = buildExif(camera)
+    for (const length of [8, 20, 60, 200, block.length - 10]) {
+      expect(() => parseExif(block.subarray(0, length))).not.toThrow()
+    }
+    // Whatever comes before the cut is still read
+    expect(parseExif(block.subarray(0, 200)).cameraInfo.make).toBe('FUJIFILM')
+  })
+
+  test('reads the block sharp extracts from a JPEG', async () => {
+    const jpeg = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#000' } }).jpeg().toBuffer()
+    const { exif } = await sharp(withSegments(jpeg, [[0xe1, buildExif(camera)]])).metadata()
+
+    expect(parseExif(exif).cameraInfo.model).toBe('X100V')
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test'
+import sharp from 'sharp'
+import { detectContentType, detectImageFormat, normalizeUpload } from '../src/utils/formats'
+
+// An ISO-BMFF file start: the ftyp box with a major brand and compatible brands
+function ftyp(major: string, ...compatible: string[]) {
+  const box = Buffer.alloc(16 + compatible.length * 4)
+  box.writeUInt32BE(box.length, 0)
+  box.write('ftyp', 4, 'latin1')
+  box.write(major, 8, 'latin1')
+  compatible.forEach((brand, index) => box.write(brand, 16 + index * 4, 'latin1'))
+  return Buffer.concat([box, Buffer.alloc(16)])
+}
+
+function image(channels: 3 | 4 = 3) {
+  return sharp({ create: { width: 24, height: 16, channels, background: channels === 4 ? '#ff000080' : '#ff0000' } })
+}
+
+describe('detectImageFormat', () => {
+  test('recognises formats by their magic bytes', async () => {
+    expect(detectImageFormat(await image().jpeg().toBuffer())).toBe('jpeg')
+    expect(detectImageFormat(await image().png().toBuffer())).toBe('png')
+    expect(detectImageFormat(await image().webp().toBuffer())).toBe('webp')
+    expect(detectImageFormat(await image().gif().toBuffer())).toBe('gif')
+    expect(detectImageFormat(await image().tiff().toBuffer())).toBe('tiff')
+    expect(detectImageFormat(Buffer.concat([Buffer.from('MM\0*'), Buffer.alloc(12)]))).toBe('tiff')
+  })
+
+  test('tells the HEIF family apart by brand', () => {
+    expect(detectImageFormat(ftyp('avif', 'mif1', 'miaf'))).toBe('avif')
+    // Brands can be listed only among the compatible ones
+    expect(detectImageFormat(ftyp('mif1', 'avif'))).toBe('avif')
+    expect(detectImageFormat(ftyp('heic', 'mif1'))).toBe('heic')
+    expect(detectImageFormat(ftyp('mif1', 'heic'))).toBe('heic')
+    expect(detectImageFormat(ftyp('mif1', 'miaf'))).toBe('heif')
+    // Other ISO-BMFF files, like MP4 video
+    expect(detectImageFormat(ftyp('isom', 'mp41'))).toBeNull()
+  })
+
+  test('does not trust names or short and foreign data', () => {
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff]))).toBeNull()
+    expect(detectImageFormat(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull()
+    expect(detectImageFormat(Buffer.from('%PDF-1.7 not an image'))).toBeNull()
+  })
+
+  test('maps formats to stored content types', async () => {
+    expect(detectContentType(await image().webp().toBuffer())).toBe('image/webp')
+    expect(detectContentType(ftyp('heic'))).toBe('image/heic')
+    expect(detectContentType(Buffer.from('plain text, twelve bytes or more'))).toBe('application/octet-stream')
+  })
+})
+
+describe('normalizeUpload', () => {
+  test('keeps formats browsers can show', async () => {
+    const png = await image(4).png().toBuffer()
+    const result = await normalizeUpload(png)
+
+    expect(result.format).toBe('png')
+    expect(result.metadata).toMatchObject({ width: 24, height: 16, hasAlpha: true })
+  })
+
+  test('converts TIFF to JPEG, or to PNG when it has transparency', async () => {
+    const opaque = await normalizeUpload(await image().tiff().toBuffer())
+    expect(opaque.format).toBe('jpeg')
+    expect(detectImageFormat(opaque.data)).toBe('jpeg')
+
+    // sharp's default JPEG compression can't hold alpha
+    const transparent = await normalizeUpload(await image(4).tiff({ compression: 'lzw' }).toBuffer())
+    expect(transparent.format).toBe('png')
+    expect(transparent.metadata.hasAlpha).toBe(true)
+  })
+
+  test('keeps only the first frame of an animated GIF', async () => {
+    const frames = await Promise.all(['#00ff00', '#0000ff'].map(background =>
+      sharp({ create: { width: 8, height: 8, channels: 3, background } }).png().toBuffer()
+    ))
+    const twoFrames = await sharp(frames, { join: { animated: true } }).gif().toBuffer()
+    expect((await sharp(twoFrames).metadata()).pages).toBe(2)
+
+    const result = await normalizeUpload(twoFrames)
+    expect(result.metadata.pages ?? 1).toBe(1)
+    expect(result.metadata).toMatchObject({ width: 8, height: 8 })
+  })
+
+  test('rejects files that are not images', async () => {
+    await expect(normalizeUpload(Buffer.from('just some text, not a picture'))).rejects.toMatchObject({ code: 'INVALID_FILE_TYPE' })
+  })
+
+  test('rejects HEIF files it cannot decode', async () => {
+    await expect(normalizeUpload(ftyp('heic', 'mif1'))).rejects.toMatchObject({ code: 'INVALID_FILE_TYPE' })
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test'
+import sharp from 'sharp'
+import { aspectRatio, centeredRect, isIdentityGeometry, resolveGeometry } from '../src/utils/geometry'
+
+describe('resolveGeometry', () => {
+  test('swaps the sides for quarter turns', () => {
+    expect(resolveGeometry(400, 300, { rotate: 90 })).toMatchObject({ rotate: 90, width: 300, height: 400 })
+    expect(resolveGeometry(400, 300, { rotate: -90 })).toMatchObject({ rotate: 270, width: 300, height: 400 })
+    expect(resolveGeometry(400, 300, { rotate: 540 })).toMatchObject({ rotate: 180, width: 400, height: 300 })
+    expect(() => resolveGeometry(400, 300, { rotate: 45 })).toThrow(RangeError)
+  })
+
+  test('keeps the straighten window inside the rotated photo', () => {
+    for (const [width, height] of [[400, 300], [300, 400], [1000, 1000]] as const) {
+      for (const angle of [-45, -12.5, 1, 5, 30, 45]) {
+        const { straighten, width: outWidth, height: outHeight } = resolveGeometry(width, height, { straighten: angle })
+        const { extract } = straighten!
+        expect(straighten!.angle).toBe(angle)
+        expect([outWidth, outHeight]).toEqual([extract.width, extract.height])
+
+        // Map the window's corners back into the unrotated photo, both centred on the origin
+        const radians = angle * Math.PI / 180
+        const boundsWidth = Math.ceil(width * Math.cos(Math.abs(radians)) + height * Math.sin(Math.abs(radians)))
+        const boundsHeight = Math.ceil(width * Math.sin(Math.abs(radians)) + height * Math.cos(Math.abs(radians)))
+        for (const x of [extract.left, extract.left + extract.width]) {
+          for (const y of [extract.top, extract.top + extract.height]) {
+            const dx = x - boundsWidth / 2
+            const dy = y - boundsHeight / 2
+            const sourceX = dx * Math.cos(radians) + dy * Math.sin(radians)
+            const sourceY = -dx * Math.sin(radians) + dy * Math.cos(radians)
+            expect(Math.abs(sourceX)).toBeLessThanOrEqual(width / 2)
+            expect(Math.abs(sourceY)).toBeLessThanOrEqual(height / 2)
+          }
+        }
+
+        // Close to the photo's own aspect ratio
+        expect(Math.abs(extract.width / extract.height - width / height)).toBeLessThan(0.02)
+      }
+    }
+  })
+
+  test('leaves no background in the straightened window', async () => {
+    const { straighten } = resolveGeometry(320, 240, { straighten: 10 })
+    const { data } = await sharp({ create: { width: 320, height: 240, channels: 3, background: '#ffffff' } })
+      .rotate(10, { background: '#000000' })
+      .extract(straighten!.extract)
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    expect(Math.min(...data)).toBeGreaterThan(250)
+  })
+
+  test('rejects angles beyond the limit', () => {
+    expect(() => resolveGeometry(400, 300, { straighten: 46 })).toThrow('between -45 and 45 degrees')
+  })
+
+  test('crops in the coordinates after rotation', () => {
+    expect(resolveGeometry(400, 300, { rotate: 90, crop: { left: 10, top: 20, width: 200, height: 300 } }))
+      .toMatchObject({ extract: { left: 10, top: 20, width: 200, height: 300 }, width: 200, height: 300 })
+
+    expect(() => resolveGeometry(400, 300, { crop: { left: 10, top: 20, width: 200, height: 300 } }))
+      .toThrow('Crop 200x300+10+20 is outside the 400x300 image')
+  })
+
+  test('fits print presets into the crop', () => {
+    expect(resolveGeometry(600, 400, { aspect: '4x6' })).toMatchObject({
+      extract: { left: 0, top: 0, width: 600, height: 400 },
+      width: 600,
+      height: 400
+    })
+
+    expect(resolveGeometry(600, 400, { aspect: '4x6', orientation: 'portrait' })).toMatchObject({
+      extract: { left: 166, top: 0, width: 267, height: 400 }
+    })
+
+    // Instax Mini is always portrait, and the preset applies inside the crop
+    expect(resolveGeometry(600, 400, { crop: { left: 100, top: 50, width: 400, height: 310 }, aspect: 'instax_mini' }))
+      .toMatchObject({ extract: { left: 185, top: 50, width: 230, height: 310 } })
+
+    expect(() => resolveGeometry(600, 400, { aspect: 'poster' as any })).toThrow('Unknown aspect preset')
+  })
+})
+
+describe('aspect presets', () => {
+  test('follow the requested orientation unless the film is fixed', () => {
+    expect(aspectRatio('5x7', 'portrait')).toBeCloseTo(5 / 7)
+    expect(aspectRatio('5x7', 'landscape')).toBeCloseTo(7 / 5)
+    expect(aspectRatio('instax_square', 'landscape')).toBe(1)
+    expect(aspectRatio('instax_mini', 'landscape')).toBeCloseTo(46 / 62)
+    expect(aspectRatio('instax_wide', 'portrait')).toBeCloseTo(99 / 62)
+  })
+
+  test('centre the largest rectangle of the ratio', () => {
+    expect(centeredRect(400, 300, 1)).toEqual({ left: 50, top: 0, width: 300, height: 300 })
+    expect(centeredRect(300, 400, 1)).toEqual({ left: 0, top: 50, width: 300, height: 300 })
+    expect(centeredRect(1, 1000, 10)).toEqual({ left: 0, top: 499, width: 1, height: 1 })
+  })
+})
+
+describe('isIdentityGeometry', () => {
+  test('is true only when nothing changes the image', () => {
+    expect(isIdentityGeometry(null)).toBe(true)
+    expect(isIdentityGeometry({ rotate: 360, straighten: 0, crop: null, aspect: null, orientation: 'portrait' })).toBe(true)
+    expect(isIdentityGeometry({ rotate: 90 })).toBe(false)
+    expect(isIdentityGeometry({ flipVertical: true })).toBe(false)
+    expect(isIdentityGeometry({ aspect: '4x6' })).toBe(false)
+  })
+})
@@ -0,0 +1,142 @@
+// Builds raw EXIF blocks, laid out the way sharp returns them in metadata().exif,
+// so tests can control every tag without shipping fixture photos
+
+export type ExifEntry =
+  | { tag: number, type: 2, value: string }
+  | { tag: number, type: 1 | 3 | 4, value: number[] }
+  // Rationals as [numerator, denominator] pairs
+  | { tag: number, type: 5 | 10, value: Array<[number, number]> }
+
+export interface ExifIfds {
+  image: ExifEntry[]
+  exif?: ExifEntry[]
+  gps?: ExifEntry[]
+}
+
+export interface BuildExifOptions {
+  bigEndian?: boolean
+  // Keep the APP1 "Exif\0\0" prefix in front of the TIFF header
+  prefix?: boolean
+}
+
+interface RawEntry {
+  tag: number
+  type: number
+  count: number
+  data: Buffer
+}
+
+const EXIF_IFD_POINTER = 0x8769
+const GPS_IFD_POINTER = 0x8825
+
+export function buildExif(ifds: ExifIfds, options: BuildExifOptions = {}): Buffer {
+  const { bigEndian = false, prefix = true } = options
+
+  const encode = (entry: ExifEntry): RawEntry => {
+    switch (entry.type) {
+      case 2: {
+        const data = Buffer.from(`${entry.value}\0`, 'latin1')
+        return { tag: entry.tag, type: 2, count: data.length, data }
+      }
+      case 1:
+      case 3:
+      case 4: {
+        const size = entry.type === 1 ? 1 : entry.type === 3 ? 2 : 4
+        const data = Buffer.alloc(size * entry.value.length)
+        entry.value.forEach((value, index) => writeUInt(data, value, index * size, size, bigEndian))
+        return { tag: entry.tag, type: entry.type, count: entry.value.length, data }
+      }
+      case 5:
+      case 10: {
+        const { type, value: rationals } = entry
+        const data = Buffer.alloc(8 * rationals.length)
+        rationals.forEach((rational, index) => {
+          rational.forEach((value, part) => {
+            const at = index * 8 + part * 4
+            if (type === 5) writeUInt(data, value, at, 4, bigEndian)
+            else if (bigEndian) data.writeInt32BE(value, at)
+            else data.writeInt32LE(value, at)
+          })
+        })
+        return { tag: entry.tag, type, count: rationals.length, data }
+      }
+    }
+  }
+
+  const pointer = (tag: number, offset: number): RawEntry => {
+    const data = Buffer.alloc(4)
+    writeUInt(data, offset, 0, 4, bigEndian)
+    return { tag, type: 4, count: 1, data }
+  }
+
+  // Directory, next-IFD link, then the values that don't fit inline
+  const sizeOf = (entries: RawEntry[]) =>
+    2 + entries.length * 12 + 4 + entries.reduce((total, entry) => total + (entry.data.length > 4 ? entry.data.length + entry.data.length % 2 : 0), 0)
+
+  const image = ifds.image.map(encode)
+  const exif = ifds.exif?.map(encode)
+  const gps = ifds.gps?.map(encode)
+
+  // Pointers are four bytes whatever they point at, so the sizes are known up front
+  const placeholders = [exif, gps].filter(Boolean).map(() => pointer(0, 0))
+  const exifOffset = 8 + sizeOf([...image, ...placeholders])
+  const gpsOffset = exifOffset + (exif ? sizeOf(exif) : 0)
+
+  if (exif) image.push(pointer(EXIF_IFD_POINTER, exifOffset))
+  if (gps) image.push(pointer(GPS_IFD_POINTER, gpsOffset))
+
+  const tiff = Buffer.alloc(gpsOffset + (gps ? sizeOf(gps) : 0))
+  tiff.write(bigEndian ? 'MM' : 'II', 0, 'latin1')
+  writeUInt(tiff, 42, 2, 2, bigEndian)
+  writeUInt(tiff, 8, 4, 4, bigEndian)
+
+  const writeIfd = (offset: number, entries: RawEntry[]) => {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag)
+    let data = offset + 2 + sorted.length * 12 + 4
+
+    writeUInt(tiff, sorted.length, offset, 2, bigEndian)
+    sorted.forEach((entry, index) => {
+      const at = offset + 2 + index * 12
+      writeUInt(tiff, entry.tag, at, 2, bigEndian)
+      writeUInt(tiff, entry.type, at + 2, 2, bigEndian)
+      writeUInt(tiff, entry.count, at + 4, 4, bigEndian)
+
+      if (entry.data.length <= 4) {
+        entry.data.copy(tiff, at + 8)
+      } else {
+        writeUInt(tiff, data, at + 8, 4, bigEndian)
+        entry.data.copy(tiff, data)
+        data += entry.data.length + entry.data.length % 2
+      }
+    })
+  }
+
+  writeIfd(8, image)
+  if (exif) writeIfd(exifOffset, exif)
+  if (gps) writeIfd(gpsOffset, gps)
+
+  return prefix ? Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]) : tiff
+}
+
+// GPS degrees as the three rationals cameras write: degrees, minutes, seconds
+export function dms(degrees: number): Array<[number, number]> {
+  const whole = Math.floor(degrees)
+  const minutes = Math.floor((degrees - whole) * 60)
+  const seconds = Math.round(((degrees - whole) * 60 - minutes) * 60 * 100)
+  return [[whole, 1], [minutes, 1], [seconds, 100]]
+}
+
+function writeUInt(buffer: Buffer, value: number, offset: number, size: number, bigEndian: boolean) {
+  if (bigEndian) buffer.writeUIntBE(value, offset, size)
+  else buffer.writeUIntLE(value, offset, size)
+}
+
+// Insert APP segments (marker, payload) right after a JPEG's SOI marker
+export function withSegments(jpeg: Buffer, segments: Array<[number, Buffer]>): Buffer {
+  const encoded = segments.map(([marker, payload]) => {
+    const header = Buffer.from([0xff, marker, 0, 0])
+    header.writeUInt16BE(payload.length + 2, 2)
+    return Buffer.concat([header, payload])
+  })
+  return Buffer.concat([jpeg.subarray(0, 2), ...encoded, jpeg.subarray(2)])
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test'
+import { buildColorGradeLut, parseHslMixer, parseSplitToning, type HslMixer, type SplitToning } from '../src/utils/hsl'
+import { applyLutToPixels } from '../src/utils/lut'
+
+function grade(pixel: number[], mixer: HslMixer | null, splitToning: SplitToning | null = null) {
+  return Array.from(applyLutToPixels(Buffer.from(pixel), 3, buildColorGradeLut(mixer, splitToning)))
+}
+
+function expectClose(actual: number[], expected: number[], tolerance = 2) {
+  expect(Math.max(...actual.map((value, index) => Math.abs(value - expected[index]!)))).toBeLessThanOrEqual(tolerance)
+}
+
+describe('parseHslMixer', () => {
+  test('keeps known bands and skips empty ones', () => {
+    expect(parseHslMixer({ red: { hue: 0.5, saturation: -1 }, blue: null })).toEqual({ red: { hue: 0.5, saturation: -1 } })
+  })
+
+  test('rejects unknown bands, adjustments and out of range values', () => {
+    expect(() => parseHslMixer('red')).toThrow('hsl must be an object')
+    expect(() => parseHslMixer({ cyan: {} })).toThrow('Unknown HSL band: cyan')
+    expect(() => parseHslMixer({ red: 1 })).toThrow('hsl.red must be an object')
+    expect(() => parseHslMixer({ red: { value: 1 } })).toThrow('Unknown HSL adjustment: red.value')
+    expect(() => parseHslMixer({ red: { hue: 2 } })).toThrow('hsl.red.hue must be a number between -1 and 1')
+  })
+})
+
+describe('parseSplitToning', () => {
+  test('is off until a tone has saturation', () => {
+    expect(parseSplitToning({})).toBeNull()
+    expect(parseSplitToning({ split_shadow_hue: 220 })).toBeNull()
+    expect(parseSplitToning({ split_shadow_hue: 220, split_shadow_saturation: 0.4 })).toEqual({
+      shadowHue: 220,
+      shadowSaturation: 0.4,
+      highlightHue: 0,
+      highlightSaturation: 0,
+      balance: 0
+    })
+  })
+
+  test('rejects out of range values', () => {
+    expect(() => parseSplitToning({ split_highlight_hue: 400 })).toThrow('split_highlight_hue must be a number between 0 and 360')
+    expect(() => parseSplitToning({ split_balance: '1' })).toThrow('split_balance must be a number between -1 and 1')
+  })
+})
+
+describe('buildColorGradeLut', () => {
+  test('changes nothing without adjustments', () => {
+    for (const pixel of [[0, 0, 0], [200, 40, 90], [255, 255, 255], [17, 180, 240]]) {
+      expectClose(grade(pixel, {}), pixel, 1)
+    }
+  })
+
+  test('desaturates only the chosen band', () => {
+    const mixer = { red: { saturation: -1 } }
+
+    const red = grade([255, 0, 0], mixer)
+    expect(red[0]).toBe(red[1])
+    expect(red[1]).toBe(red[2])
+
+    expectClose(grade([0, 0, 255], mixer), [0, 0, 255], 1)
+  })
+
+  test('turns a band towards its neighbour', () => {
+    // Red moved the full 30 degrees lands on orange
+    expectClose(grade([255, 0, 0], { red: { hue: 1 } }), [255, 128, 0])
+  })
+
+  test('darkens and lightens a band', () => {
+    const darker = grade([0, 255, 0], { green: { luminance: -1 } })
+    const lighter = grade([0, 255, 0], { green: { luminance: 1 } })
+
+    expect(darker[1]!).toBeLessThan(255)
+    expect(darker[0]).toBe(0)
+    expect(lighter[0]!).toBeGreaterThan(0)
+  })
+
+  test('leaves greys alone in the mixer', () => {
+    const mixer = { red: { hue: 1, saturation: 1, luminance: 1 }, blue: { luminance: -1 } }
+    expectClose(grade([128, 128, 128], mixer), [128, 128, 128], 1)
+  })
+
+  test('tints shadows and highlights without shifting their brightness', () => {
+    const toning = {
+      shadowHue: 240,
+      shadowSaturation: 1,
+      highlightHue: 30,
+      highlightSaturation: 1,
+      balance: 0
+    }
+    const luma = ([r, g, b]: number[]) => 0.2126 * r! + 0.7152 * g! + 0.0722 * b!
+
+    const shadow = grade([40, 40, 40], null, toning)
+    expect(shadow[2]!).toBeGreaterThan(shadow[0]!)
+    expect(Math.abs(luma(shadow) - 40)).toBeLessThan(2)
+
+    const highlight = grade([215, 215, 215], null, toning)
+    expect(highlight[0]!).toBeGreaterThan(highlight[2]!)
+    expect(Math.abs(luma(highlight) - 215)).toBeLessThan(2)
+  })
+
+  test('balance shifts toning between shadows and highlights', () => {
+    const toning = { shadowHue: 240, shadowSaturation: 1, highlightHue: 30, highlightSaturation: 1, balance: 1 }
+
+    // Balance 1 gives the highlights everything, so nothing turns blue
+    const shadow = grade([40, 40, 40], null, toning)
+    expect(shadow[2]!).toBeLessThanOrEqual(shadow[0]!)
+
+    const balanced = grade([40, 40, 40], null, { ...toning, balance: 0 })
+    expect(balanced[2]!).toBeGreaterThan(balanced[0]!)
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'bun:test'
+import sharp from 'sharp'
+import { applyLutToPixels, parseCubeLut, parseHaldClut, parseLut, resolveLutKey, type Lut3D } from '../src/utils/lut'
+
+// A .cube file whose entries are f(r, g, b) on a size³ lattice, red varying fastest
+function cube(size: number, f: (r: number, g: number, b: number) => number[], header = '') {
+  const lines = [header, `LUT_3D_SIZE ${size}`]
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push(f(r / (size - 1), g / (size - 1), b / (size - 1)).join(' '))
+      }
+    }
+  }
+  return lines.join('\n')
+}
+
+const identity = (size: number) => parseCubeLut(cube(size, (r, g, b) => [r, g, b]))
+
+// Every 17th level of each channel, as raw RGB
+function samplePixels() {
+  const pixels: number[] = []
+  for (let r = 0; r < 256; r += 17) {
+    for (let g = 0; g < 256; g += 17) {
+      for (let b = 0; b < 256; b += 17) pixels.push(r, g, b)
+    }
+  }
+  return Buffer.from(pixels)
+}
+
+describe('parseCubeLut', () => {
+  test('reads the title, size, domain and entries', () => {
+    const lut = parseCubeLut(cube(2, (r, g, b) => [r, g, b], [
+      '# comment',
+      'TITLE "Identity"',
+      'DOMAIN_MIN 0 0 0',
+      'DOMAIN_MAX 1 1 1',
+      'LUT_3D_INPUT_RANGE 0 1'
+    ].join('\r\n')))
+
+    expect(lut.title).toBe('Identity')
+    expect(lut.size).toBe(2)
+    expect(lut.domainMin).toEqual([0, 0, 0])
+    expect(lut.domainMax).toEqual([1, 1, 1])
+    // Entry (1, 0, 0) comes second
+    expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0])
+  })
+
+  test('rejects malformed tables', () => {
+    expect(() => parseCubeLut('LUT_1D_SIZE 4\n0 0 0')).toThrow('1D .cube LUTs are not supported')
+    expect(() => parseCubeLut('0 0 0')).toThrow('Invalid LUT_3D_SIZE')
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0')).toThrow('Expected 8 LUT entries, found 1')
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 zero 0')).toThrow('Invalid LUT line')
+    expect(() => parseCubeLut(cube(2, (r, g, b) => [r, g, b], 'DOMAIN_MIN 1 0 0'))).toThrow('DOMAIN_MIN must be below DOMAIN_MAX')
+  })
+})
+
+describe('parseLut', () => {
+  test('picks the parser from the extension or the PNG signature', async () => {
+    const text = Buffer.from(cube(2, (r, g, b) => [r, g, b]))
+    expect((await parseLut('luts/identity.cube?v=2', text)).size).toBe(2)
+
+    // Level 2: an 8x8 image holding a 4³ cube
+    const hald = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#808080' } }).png().toBuffer()
+    expect((await parseLut('luts/hald', hald)).size).toBe(4)
+
+    await expect(parseLut('luts/notes.txt', text)).rejects.toThrow('Unsupported LUT format')
+  })
+
+  test('rejects images that are not HaldCLUTs', async () => {
+    const image = await sharp({ create: { width: 10, height: 10, channels: 3, background: '#000' } }).png().toBuffer()
+    await expect(parseHaldClut(image)).rejects.toThrow('Not a HaldCLUT image: 10x10')
+  })
+})
+
+describe('applyLutToPixels', () => {
+  const pixels = samplePixels()
+
+  test('leaves pixels alone through an identity LUT', () => {
+    for (const interpolation of ['tetrahedral', 'trilinear'] as const) {
+      expect(applyLutToPixels(pixels, 3, identity(2), { interpolation })).toEqual(pixels)
+      expect(applyLutToPixels(pixels, 3, identity(17), { interpolation })).toEqual(pixels)
+    }
+  })
+
+  test('interpolates between lattice points', () => {
+    // Linear in every channel, so both interpolations reproduce it exactly
+    const lut = parseCubeLut(cube(2, (r, g, b) => [1 - r, (g + b) / 2, b]))
+    const expected = Buffer.from(Array.from(pixels, (value, index) => {
+      const pixel = index - index % 3
+      if (index % 3 === 0) return 255 - value
+      if (index % 3 === 1) return Math.round((value + pixels[pixel + 2]!) / 2)
+      return value
+    }))
+
+    for (const interpolation of ['tetrahedral', 'trilinear'] as const) {
+      const output = applyLutToPixels(pixels, 3, lut, { interpolation })
+      const maxError = Math.max(...Array.from(output, (value, index) => Math.abs(value - expected[index]!)))
+      expect(maxError).toBeLessThanOrEqual(1)
+    }
+  })
+
+  test('keeps the neutral axis on the diagonal of a tetrahedral cell', () => {
+    // Bends only the corners off the diagonal; greys only see the diagonal ends
+    const lut = parseCubeLut(cube(2, (r, g, b) => r === g && g === b ? [r, g, b] : [0.5, 0.5, 0.5]))
+    const grey = Buffer.from([64, 64, 64, 200, 200, 200])
+
+    expect(applyLutToPixels(grey, 3, lut)).toEqual(grey)
+    expect(applyLutToPixels(grey, 3, lut, { interpolation: 'trilinear' })).not.toEqual(grey)
+  })
+
+  test('blends with the source by intensity and leaves alpha alone', () => {
+    const lut = parseCubeLut(cube(2, () => [0.4, 0.4, 0.4]))
+    const rgba = Buffer.from([0, 100, 250, 77])
+
+    expect(applyLutToPixels(rgba, 4, lut)).toEqual(Buffer.from([102, 102, 102, 77]))
+    expect(applyLutToPixels(rgba, 4, lut, { intensity: 0.5 })).toEqual(Buffer.from([51, 101, 176, 77]))
+    expect(applyLutToPixels(rgba, 4, lut, { intensity: 0 })).toEqual(rgba)
+  })
+
+  test('maps inputs through the domain', () => {
+    const lut: Lut3D = { ...identity(2), domainMin: [0, 0, 0], domainMax: [0.5, 1, 1] }
+    const output = applyLutToPixels(Buffer.from([64, 64, 64, 200, 0, 0]), 3, lut)
+
+    expect(Array.from(output)).toEqual([128, 64, 64, 255, 0, 0])
+  })
+})
+
+describe('resolveLutKey', () => {
+  test('accepts keys and storage URLs under luts/', () => {
+    expect(resolveLutKey('luts/film.cube', null)).toBe('luts/film.cube')
+    expect(resolveLutKey('luts/packs/film.cube', null)).toBe('luts/packs/film.cube')
+    expect(resolveLutKey('/uploads/luts/film.cube', 'luts/film.cube')).toBe('luts/film.cube')
+  })
+
+  test('refuses everything else', () => {
+    expect(resolveLutKey('https://example.com/luts/film.cube', null)).toBeNull()
+    expect(resolveLutKey('/etc/film.cube', null)).toBeNull()
+    expect(resolveLutKey('luts', null)).toBeNull()
+    expect(resolveLutKey('luts/../originals/photo.jpg', null)).toBeNull()
+    expect(resolveLutKey('/uploads/originals/film.cube', 'originals/film.cube')).toBeNull()
+    expect(resolveLutKey('luts\\..\\film.cube', null)).toBeNull()
+  })
+})
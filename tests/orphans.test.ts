@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createMemoryRepositories, getRepositories, setRepositories } from '../src/database/repositories'
+import { LocalStorageDriver, setStorageDriver } from '../src/storage'
+import { collectOrphanedObjects } from '../src/utils/orphans'
+
+const HOUR_MS = 60 * 60 * 1000
+const now = new Date('2025-01-15T12:00:00Z')
+// Object names carry their upload time, see uploadedAt
+const oldStamp = now.getTime() - 48 * HOUR_MS
+const recentStamp = now.getTime() - HOUR_MS
+
+let uploadDir: string
+let storage: LocalStorageDriver
+
+function put(key: string) {
+  return storage.upload(key, Buffer.from(key), 'image/jpeg')
+}
+
+async function exists(key: string) {
+  return Bun.file(join(uploadDir, key)).exists()
+}
+
+describe('collectOrphanedObjects', () => {
+  let photoId: number
+
+  beforeEach(async () => {
+    uploadDir = await mkdtemp(join(tmpdir(), 'classic-web-fotos-gc-'))
+    storage = new LocalStorageDriver(uploadDir, '/uploads')
+    setStorageDriver(storage)
+    setRepositories(createMemoryRepositories())
+
+    const { users, photos } = getRepositories()
+    const user = await users.create({ device_id: 'gc-test' })
+    const photo = await photos.create({
+      user_id: user.id,
+      filename: `${oldStamp}-kept.jpg`,
+      original_path: await put(`originals/${oldStamp}-kept.jpg`),
+      thumbnail_path: await put(`thumbnails/${oldStamp}-kept.jpg`),
+      // Never written, so the row is missing its processed file
+      processed_path: storage.getPublicUrl(`processed/${oldStamp}-kept.jpg`)
+    })
+    photoId = photo.id
+
+    await put(`originals/${oldStamp}-orphan.jpg`)
+    await put(`variants/${oldStamp}-orphan-w800.webp`)
+    await put(`thumbnails/${recentStamp}-uploading.jpg`)
+    await put('thumbnails/.emptyFolderPlaceholder')
+  })
+
+  afterEach(async () => {
+    await rm(uploadDir, { recursive: true, force: true })
+  })
+
+  test('reports orphans and missing objects without touching anything on a dry run', async () => {
+    const report = await collectOrphanedObjects({ dryRun: true, markMissing: true, now })
+
+    expect(report.scannedObjects).toBe(5)
+    expect(report.referencedObjects).toBe(3)
+    expect(report.orphans.sort()).toEqual([`originals/${oldStamp}-orphan.jpg`, `variants/${oldStamp}-orphan-w800.webp`])
+    expect(report.skippedRecent).toEqual([`thumbnails/${recentStamp}-uploading.jpg`])
+    expect(report.missing).toEqual([
+      { photoId, userId: expect.any(Number), column: 'processed_path', key: `processed/${oldStamp}-kept.jpg` }
+    ])
+    expect(report).toMatchObject({ deletedObjects: 0, markedPhotos: 0 })
+
+    expect(await exists(`originals/${oldStamp}-orphan.jpg`)).toBe(true)
+    expect((await getRepositories().photos.findById(photoId))!.processing_status).toBe('pending')
+  })
+
+  test('deletes old orphans and marks rows with missing objects', async () => {
+    const report = await collectOrphanedObjects({ markMissing: true, now })
+
+    expect(report).toMatchObject({ deletedObjects: 2, markedPhotos: 1 })
+    expect(await exists(`originals/${oldStamp}-orphan.jpg`)).toBe(false)
+    expect(await exists(`variants/${oldStamp}-orphan-w800.webp`)).toBe(false)
+    expect(await exists(`thumbnails/${recentStamp}-uploading.jpg`)).toBe(true)
+    expect(await exists(`originals/${oldStamp}-kept.jpg`)).toBe(true)
+
+    const photo = (await getRepositories().photos.findById(photoId))!
+    expect(photo.processing_status).toBe('failed')
+    expect(photo.processing_error).toContain(`processed/${oldStamp}-kept.jpg`)
+  })
+
+  test('keeps objects of trashed photos', async () => {
+    await getRepositories().photos.update(photoId, { deleted_at: now.toISOString() })
+
+    const report = await collectOrphanedObjects({ now })
+    expect(report.orphans).not.toContain(`originals/${oldStamp}-kept.jpg`)
+    expect(await exists(`originals/${oldStamp}-kept.jpg`)).toBe(true)
+  })
+
+  test('aborts when a folder cannot be listed', async () => {
+    class FailingListDriver extends LocalStorageDriver {
+      override async list(folder?: string): Promise<string[]> {
+        if (folder === 'thumbnails') throw new Error('listing failed')
+        return super.list(folder)
+      }
+    }
+    setStorageDriver(new FailingListDriver(uploadDir, '/uploads'))
+
+    await expect(collectOrphanedObjects({ markMissing: true, now })).rejects.toThrow('listing failed')
+    expect(await exists(`originals/${oldStamp}-orphan.jpg`)).toBe(true)
+    expect((await getRepositories().photos.findById(photoId))!.processing_status).toBe('pending')
+  })
+})
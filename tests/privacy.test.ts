@@ -0,0 +1,148 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import sharp from 'sharp'
+import { parseExif, scrubExifGps } from '../src/utils/exif'
+import { applyMetadataPrivacy, getMetadataPrivacy, isMetadataPrivacy } from '../src/utils/privacy'
+import { buildExif, dms, withSegments, type ExifIfds } from './helpers/exif'
+
+const latitude = dms(48.858222)
+
+const tagged: ExifIfds = {
+  image: [{ tag: 0x010f, type: 2, value: 'Canon' }, { tag: 0x0110, type: 2, value: 'EOS R6' }],
+  exif: [{ tag: 0x9003, type: 2, value: '2024:07:14 18:30:05' }, { tag: 0x8827, type: 3, value: [200] }],
+  gps: [
+    { tag: 0x0001, type: 2, value: 'N' },
+    { tag: 0x0002, type: 5, value: latitude },
+    { tag: 0x0003, type: 2, value: 'E' },
+    { tag: 0x0004, type: 5, value: dms(2.2945) },
+    { tag: 0x0006, type: 5, value: [[355, 10]] },
+    { tag: 0x0007, type: 5, value: [[16, 1], [30, 1], [5, 1]] },
+    { tag: 0x001d, type: 2, value: '2024:07:14' }
+  ]
+}
+
+const xmp = Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta><exif:GPSLatitude>48,51.49N</exif:GPSLatitude></x:xmpmeta>', 'latin1')
+const iptc = Buffer.from('Photoshop 3.0\x008BIM\x04\x04\0\0\0\0\0\0', 'latin1')
+const comment = Buffer.from('shot on holiday', 'latin1')
+
+// Latitude as stored: three rationals, in the byte order of the block
+function rationalBytes(values: Array<[number, number]>, bigEndian = false) {
+  const bytes = Buffer.alloc(values.length * 8)
+  values.flat().forEach((value, index) => bigEndian ? bytes.writeUInt32BE(value, index * 4) : bytes.writeUInt32LE(value, index * 4))
+  return bytes
+}
+
+// Everything from the start of scan on: the compressed pixels
+function scanData(jpeg: Buffer) {
+  return jpeg.subarray(jpeg.indexOf(Buffer.from([0xff, 0xda])))
+}
+
+describe('metadata privacy preference', () => {
+  test('accepts only known modes and falls back to keep', () => {
+    expect(isMetadataPrivacy('strip_gps')).toBe(true)
+    expect(isMetadataPrivacy('strip')).toBe(false)
+    expect(getMetadataPrivacy({ metadataPrivacy: 'coarse_location' })).toBe('coarse_location')
+    expect(getMetadataPrivacy({ metadataPrivacy: 'everything' })).toBe('keep')
+    expect(getMetadataPrivacy(null)).toBe('keep')
+  })
+})
+
+describe('applyMetadataPrivacy on JPEGs', () => {
+  let jpeg: Buffer
+
+  beforeAll(async () => {
+    const plain = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#4080c0' } }).jpeg().toBuffer()
+    jpeg = withSegments(plain, [[0xe1, buildExif(tagged)], [0xe1, xmp], [0xed, iptc], [0xfe, comment]])
+  })
+
+  test('returns the file untouched in keep mode', async () => {
+    expect(await applyMetadataPrivacy(jpeg, 'keep')).toBe(jpeg)
+  })
+
+  test('strip_all removes EXIF, XMP, IPTC and comments without recompressing', async () => {
+    const output = await applyMetadataPrivacy(jpeg, 'strip_all')
+
+    expect(scanData(output)).toEqual(scanData(jpeg))
+    expect(output.includes(Buffer.from('Canon'))).toBe(false)
+    expect(output.includes(xmp.subarray(0, 20))).toBe(false)
+    expect(output.includes(Buffer.from('Photoshop 3.0'))).toBe(false)
+    expect(output.includes(comment)).toBe(false)
+    expect((await sharp(output).metadata()).exif).toBeUndefined()
+  })
+
+  test('strip_gps keeps the camera but not the position', async () => {
+    const output = await applyMetadataPrivacy(jpeg, 'strip_gps')
+    const { exif } = await sharp(output).metadata()
+    const metadata = parseExif(exif)
+
+    expect(metadata.cameraInfo).toEqual({ make: 'Canon', model: 'EOS R6' })
+    expect(metadata.captureSettings.iso).toBe(200)
+    expect(metadata.locationData).toEqual({})
+    expect(Object.keys(metadata.exifData).filter(key => key.startsWith('GPS'))).toEqual([])
+
+    // No trace of the coordinates left in the bytes, and XMP (which repeats them) is gone
+    expect(output.includes(rationalBytes(latitude))).toBe(false)
+    expect(output.includes(xmp.subarray(0, 20))).toBe(false)
+    expect(output.includes(Buffer.from('Photoshop 3.0'))).toBe(true)
+    expect(output.includes(comment)).toBe(true)
+    expect(scanData(output)).toEqual(scanData(jpeg))
+  })
+
+  test('coarse_location rounds the position and drops the rest of the GPS block', async () => {
+    const output = await applyMetadataPrivacy(jpeg, 'coarse_location')
+    const metadata = parseExif((await sharp(output).metadata()).exif)
+
+    expect(metadata.locationData).toEqual({ latitude: 48.9, longitude: 2.3 })
+    expect(Object.keys(metadata.exifData).filter(key => key.startsWith('GPS')).sort())
+      .toEqual(['GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef'])
+    expect(metadata.capturedAt).toBe('2024-07-14T18:30:05.000Z')
+    expect(output.includes(xmp.subarray(0, 20))).toBe(false)
+  })
+})
+
+describe('applyMetadataPrivacy on other formats', () => {
+  test('re-encodes them without metadata', async () => {
+    const png = await sharp({ create: { width: 16, height: 16, channels: 4, background: '#4080c080' } })
+      .withExif({ IFD0: { Make: 'Canon' } })
+      .png()
+      .toBuffer()
+    expect((await sharp(png).metadata()).exif).toBeDefined()
+
+    const output = await applyMetadataPrivacy(png, 'strip_gps')
+    const metadata = await sharp(output).metadata()
+
+    expect(metadata.format).toBe('png')
+    expect(metadata.hasAlpha).toBe(true)
+    expect(metadata.exif).toBeUndefined()
+  })
+
+  test('refuses files it cannot read', async () => {
+    await expect(applyMetadataPrivacy(Buffer.from('not an image'), 'strip_all')).rejects.toThrow()
+  })
+})
+
+describe('scrubExifGps', () => {
+  test('empties the GPS block in either byte order without moving anything else', () => {
+    for (const bigEndian of [false, true]) {
+      const block = buildExif(tagged, { bigEndian })
+      const output = scrubExifGps(block)
+
+      expect(output.length).toBe(block.length)
+      expect(output.includes(rationalBytes(latitude, bigEndian))).toBe(false)
+      expect(parseExif(output).locationData).toEqual({})
+      expect(parseExif(output).cameraInfo.model).toBe('EOS R6')
+      // The input is left alone
+      expect(parseExif(block).locationData).not.toEqual({})
+    }
+  })
+
+  test('coarsens to the requested precision', () => {
+    const output = scrubExifGps(buildExif(tagged), true, 1)
+    expect(parseExif(output).locationData).toEqual({ latitude: 49, longitude: 2 })
+  })
+
+  test('leaves blocks without GPS or with garbage alone', () => {
+    const block = buildExif({ image: [{ tag: 0x010f, type: 2, value: 'Canon' }] })
+    expect(scrubExifGps(block)).toEqual(block)
+    expect(scrubExifGps(Buffer.from('Exif\0\0junk'))).toEqual(Buffer.from('Exif\0\0junk'))
+  })
+})
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { createMemoryRepositories, getRepositories, setRepositories } from '../src/database/repositories'
+import { adjustStorage, reconcileStorageUsage, releaseStorage, reserveStorage } from '../src/utils/quota'
+import type { UserTable } from '../src/types/database'
+
+let user: UserTable
+
+async function storageUsed(userId: number = user.id) {
+  return (await getRepositories().users.findById(userId))!.storage_used
+}
+
+describe('storage quota', () => {
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories())
+    user = await getRepositories().users.create({ device_id: 'quota-test', storage_quota: 1000 })
+  })
+
+  test('reserves bytes up to the quota', async () => {
+    await reserveStorage(user.id, 600)
+    await reserveStorage(user.id, 400)
+    expect(await storageUsed()).toBe(1000)
+  })
+
+  test('refuses a reservation that does not fit and leaves usage alone', async () => {
+    await reserveStorage(user.id, 900)
+
+    const error = await reserveStorage(user.id, 101).catch(error => error)
+    expect(error).toMatchObject({ code: 'QUOTA_EXCEEDED', statusCode: 507 })
+    expect(error.message).toContain('100 of 1000 bytes available')
+    expect(await storageUsed()).toBe(900)
+  })
+
+  test('reports unknown users', async () => {
+    await expect(reserveStorage(user.id + 1, 1)).rejects.toMatchObject({ code: 'USER_NOT_FOUND' })
+  })
+
+  test('releases bytes without going below zero', async () => {
+    await reserveStorage(user.id, 300)
+
+    await releaseStorage(user.id, 100)
+    expect(await storageUsed()).toBe(200)
+
+    await releaseStorage(user.id, 500)
+    expect(await storageUsed()).toBe(0)
+  })
+
+  test('settles a reservation once the real size is known', async () => {
+    await reserveStorage(user.id, 900)
+
+    // The result came out bigger than estimated: usage may pass the quota
+    await adjustStorage(user.id, 150)
+    expect(await storageUsed()).toBe(1050)
+
+    await adjustStorage(user.id, -250)
+    expect(await storageUsed()).toBe(800)
+  })
+
+  test('reconciles drifted counters from photo rows', async () => {
+    const { users, photos } = getRepositories()
+    const accurate = await users.create({ device_id: 'quota-accurate', storage_used: 70 })
+    await users.update(user.id, { storage_used: 999 })
+
+    await photos.create({ user_id: user.id, filename: 'a.jpg', file_size: 100 })
+    await photos.create({ user_id: user.id, filename: 'b.jpg', file_size: 40, deleted_at: new Date().toISOString() })
+    await photos.create({ user_id: accurate.id, filename: 'c.jpg', file_size: 70 })
+
+    // Trashed photos still count until they are purged
+    const expected = [{ userId: user.id, recorded: 999, actual: 140 }]
+
+    expect(await reconcileStorageUsage({ dryRun: true })).toEqual(expected)
+    expect(await storageUsed()).toBe(999)
+
+    expect(await reconcileStorageUsage()).toEqual(expected)
+    expect(await storageUsed()).toBe(140)
+    expect(await storageUsed(accurate.id)).toBe(70)
+
+    expect(await reconcileStorageUsage()).toEqual([])
+  })
+})
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createMemoryRepositories, getRepositories, setRepositories } from '../src/database/repositories'
+import { LocalStorageDriver, setStorageDriver } from '../src/storage'
+import { TrashService } from '../src/modules/trash/service'
+import type { PhotoTable, UserTable } from '../src/types/database'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let uploadDir: string
+let storage: LocalStorageDriver
+let user: UserTable
+
+// A photo row with its original and thumbnail in storage, charged to the user
+async function storePhoto(name: string, data: Partial<PhotoTable> = {}) {
+  const bytes = Buffer.alloc(100, name)
+  const originalPath = await storage.upload(`originals/${name}`, bytes, 'image/jpeg')
+  const thumbnailPath = await storage.upload(`thumbnails/${name}`, bytes, 'image/jpeg')
+  await getRepositories().users.adjustStorageUsed(user.id, bytes.length)
+
+  return getRepositories().photos.create({
+    user_id: user.id,
+    filename: name,
+    file_size: bytes.length,
+    original_path: originalPath,
+    thumbnail_path: thumbnailPath,
+    ...data
+  })
+}
+
+async function exists(key: string) {
+  return Bun.file(join(uploadDir, key)).exists()
+}
+
+async function storageUsed() {
+  return (await getRepositories().users.findById(user.id))!.storage_used
+}
+
+describe('TrashService', () => {
+  beforeAll(async () => {
+    uploadDir = await mkdtemp(join(tmpdir(), 'classic-web-fotos-trash-'))
+    storage = new LocalStorageDriver(uploadDir, '/uploads')
+    setStorageDriver(storage)
+  })
+
+  beforeEach(async () => {
+    setRepositories(createMemoryRepositories())
+    user = await getRepositories().users.create({ device_id: 'trash-test' })
+  })
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true })
+  })
+
+  test('restores a trashed photo', async () => {
+    const photo = await storePhoto('restore.jpg', { deleted_at: new Date().toISOString() })
+
+    const restored = await TrashService.restorePhoto(photo.id, user.id)
+    expect(restored?.deleted_at).toBeNull()
+    expect(await exists('originals/restore.jpg')).toBe(true)
+  })
+
+  test('only restores photos that are in the trash', async () => {
+    const photo = await storePhoto('live.jpg')
+
+    await expect(TrashService.restorePhoto(photo.id, user.id)).rejects.toMatchObject({ code: 'PHOTO_NOT_FOUND' })
+    await expect(TrashService.deletePermanently(photo.id, user.id)).rejects.toMatchObject({ code: 'PHOTO_NOT_FOUND' })
+  })
+
+  test('deleting permanently removes the files and returns the bytes', async () => {
+    const photo = await storePhoto('gone.jpg', { deleted_at: new Date().toISOString() })
+    expect(await storageUsed()).toBe(100)
+
+    expect(await TrashService.deletePermanently(photo.id, user.id)).toEqual({ purgedCount: 1, freedBytes: 100 })
+    expect(await getRepositories().photos.findById(photo.id)).toBeNull()
+    expect(await exists('originals/gone.jpg')).toBe(false)
+    expect(await exists('thumbnails/gone.jpg')).toBe(false)
+    expect(await storageUsed()).toBe(0)
+  })
+
+  test('purges only photos past the retention period', async () => {
+    const now = new Date()
+    const retentionDays = await TrashService.getRetentionDays()
+    const expired = await storePhoto('expired.jpg', {
+      deleted_at: new Date(now.getTime() - (retentionDays + 1) * DAY_MS).toISOString()
+    })
+    const recent = await storePhoto('recent.jpg', {
+      deleted_at: new Date(now.getTime() - DAY_MS).toISOString()
+    })
+    const live = await storePhoto('kept.jpg')
+
+    const result = await TrashService.purgeExpired(now)
+    expect(result).toMatchObject({ purgedCount: 1, failedCount: 0, freedBytes: 100 })
+
+    expect(await getRepositories().photos.findById(expired.id)).toBeNull()
+    expect(await getRepositories().photos.findById(recent.id)).not.toBeNull()
+    expect(await getRepositories().photos.findById(live.id)).not.toBeNull()
+    expect(await exists('originals/expired.jpg')).toBe(false)
+    expect(await storageUsed()).toBe(200)
+  })
+
+  test('keeps an original that a filtered copy still uses', async () => {
+    const source = await storePhoto('source.jpg', { deleted_at: new Date().toISOString() })
+    const processedPath = await storage.upload('processed/copy.jpg', Buffer.alloc(50), 'image/jpeg')
+    const copy = await getRepositories().photos.create({
+      user_id: user.id,
+      filename: 'copy.jpg',
+      file_size: 50,
+      original_path: source.original_path,
+      processed_path: processedPath,
+      deleted_at: new Date().toISOString()
+    })
+
+    await TrashService.deletePermanently(source.id, user.id)
+    expect(await exists('originals/source.jpg')).toBe(true)
+
+    // The last row using it takes the original along
+    await TrashService.deletePermanently(copy.id, user.id)
+    expect(await exists('originals/source.jpg')).toBe(false)
+    expect(await exists('processed/copy.jpg')).toBe(false)
+  })
+
+  test('empties the whole trash', async () => {
+    for (const name of ['one.jpg', 'two.jpg', 'three.jpg']) {
+      await storePhoto(name, { deleted_at: new Date().toISOString() })
+    }
+    await storePhoto('four.jpg')
+
+    expect(await TrashService.emptyTrash(user.id)).toEqual({ purgedCount: 3, freedBytes: 300 })
+    expect(await getRepositories().photos.countByUser(user.id, { trashed: true })).toBe(0)
+    expect(await getRepositories().photos.countByUser(user.id)).toBe(1)
+  })
+})